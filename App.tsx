@@ -1,75 +1,229 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { AppState, Player, Team, TeamColor, Matchup, MatchupPlayer, Gender } from './types';
-import { TEAM_CONFIG, Icons } from './constants';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AppState, Player, Team, TeamColor, TeamConfig, Matchup, DrawRecord, ScoreEvent, LotteryCheckpoint, GameResult, ScoringRules, DraftConstraint, GameDefinition, EventSchedule, MatchOrderSettings, Bracket } from './types';
+import { DEFAULT_TEAM_PALETTE, DEFAULT_TEAM_COUNT, Icons } from './constants';
+import { createTeams, withTeamStyles, downloadData } from './utils';
 import { LandingPage } from './components/LandingPage';
 import { InputPhase } from './components/InputPhase';
 import { LotteryPhase } from './components/LotteryPhase';
 import { ResultsPhase } from './components/ResultsPhase';
 import { PlayingOrderPhase } from './components/PlayingOrderPhase';
 import { RaffleSystem } from './components/RaffleSystem';
+import { RosterRecovery } from './components/RosterRecovery';
+import { generateRounds } from './services/matchupRounds';
+import { getActiveTeams } from './services/rosterAdjust';
+import { sanitizeGames } from './services/gameCatalog';
+import { sanitizeSchedule } from './services/stationScheduler';
+import { sanitizeBracket } from './services/knockoutBracket';
+import { sanitizeMatchups } from './services/matchupEngine';
+import { AudienceChannel, AudienceRaffle, AudienceSnapshot, connectAudienceChannel, isAudienceSupported, openAudienceWindow } from './services/audienceChannel';
+import { generateSeed, deriveRandom } from './services/random';
+import { applyScoreLog, clampScores, toBaseTeams } from './services/scoreLog';
+import { applyGameResults, removeGameResults } from './services/gameResults';
+import { sanitizeScoringRules } from './services/scoringRules';
+import { pruneConstraints, sanitizeConstraints } from './services/draftConstraints';
+import { loadSession, updateSession, discardSessionBackup, restoreRoster, SessionIssue } from './services/sessionStore';
 import startTheme from './assets/start_theme.mp3';
 import scoreboardMusic from './assets/scoreboard.mp3';
 import bgMusic from './assets/background.mp3';
 
-// In your App.tsx or main entry
-const APP_VERSION = '1.0.3';
-const STORED_VERSION = localStorage.getItem('app-version');
-
-if (STORED_VERSION !== APP_VERSION) {
-  // Clear old data
-  localStorage.clear();
-  sessionStorage.clear();
-  localStorage.setItem('app-version', APP_VERSION);
-}
-
-const LOCAL_STORAGE_TEAMS = 'squid-teams-data';
-const LOCAL_STORAGE_MATCHUPS = 'squid-matchups-data';
-const LOCAL_STORAGE_STATE = 'squid-app-state';
+const createDrawRecord = (seed: string = generateSeed()): DrawRecord => ({ seed, mode: 'live', matchupRerolls: 0, raffleDraws: 0 });
 
 const App: React.FC = () => {
   // --- State Initialization with Persistence ---
+  // Saved session is loaded (and migrated) once; a session that cannot be migrated is kept as a backup
+  const [initialSession] = useState(loadSession);
+  const [sessionIssue, setSessionIssue] = useState<SessionIssue | null>(initialSession.issue);
   
   const [appState, setAppState] = useState<AppState>(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_STATE);
+    const saved = initialSession.data.appState;
     // Only restore state if it's past Setup, otherwise default to Landing/Setup logic
-    return saved && saved !== AppState.Landing ? (saved as AppState) : AppState.Landing;
+    return saved && saved !== AppState.Landing ? saved : AppState.Landing;
   });
 
-  const [players, setPlayers] = useState<Player[]>([]);
+  // Registered roster; restored so a reload during Setup or the Lottery keeps everyone
+  const [players, setPlayers] = useState<Player[]>(() => restoreRoster(initialSession.data.players));
+
+  // Team names and colors chosen in Setup; every new lottery starts from this list
+  const [teamPalette, setTeamPalette] = useState<TeamConfig[]>(
+    () => initialSession.data.palette ?? DEFAULT_TEAM_PALETTE.slice(0, DEFAULT_TEAM_COUNT)
+  );
+
+  // Keep-apart / keep-together / pin rules for the draft; copied into the draw record at start
+  const [draftConstraints, setDraftConstraints] = useState<DraftConstraint[]>(() => sanitizeConstraints(initialSession.data.constraints));
+  // Largest allowed gap between team average ratings; null when rating balance is off
+  const [ratingSpread, setRatingSpread] = useState<number | null>(() => initialSession.data.ratingSpread);
+  // Game catalog the match order follows; kept across resets like the team palette
+  const [games, setGames] = useState<GameDefinition[]>(() => sanitizeGames(initialSession.data.games));
+  // Match order spread over the stations running side by side; null until built in the Scoreboard
+  const [schedule, setSchedule] = useState<EventSchedule | null>(() => sanitizeSchedule(initialSession.data.schedule));
+  // Knockout finale between teams, seeded from the Scoreboard when the host sets it up
+  const [bracket, setBracket] = useState<Bracket | null>(() => sanitizeBracket(initialSession.data.bracket));
   
   const [teams, setTeams] = useState<Team[]>(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_TEAMS);
+    const saved = initialSession.data.teams;
     if (saved) {
-      return JSON.parse(saved);
+      return withTeamStyles(saved);
     }
-    return Object.values(TeamColor).map(color => ({ color, members: [], hex: TEAM_CONFIG[color].hex, score: 0 }));
+    return createTeams(teamPalette);
   });
 
-  const [matchups, setMatchups] = useState<Matchup[]>(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_MATCHUPS);
-    return saved ? JSON.parse(saved) : [];
+  const [matchups, setMatchups] = useState<Matchup[]>(() => initialSession.data.matchups);
+
+  const [drawRecord, setDrawRecord] = useState<DrawRecord>(() => {
+    const saved = initialSession.data.draw;
+    return saved ? { ...createDrawRecord(), ...saved } : createDrawRecord();
   });
+
+  // Score event log: `teams` keep the scores the session started with, totals replay the log on top
+  const [scoreHistory, setScoreHistory] = useState<ScoreEvent[]>(() => initialSession.data.scoreHistory);
+  const [scoreRedo, setScoreRedo] = useState<ScoreEvent[]>(() => initialSession.data.scoreRedo);
+  const [scorekeeper, setScorekeeper] = useState<string>(() => initialSession.data.scorekeeper);
+  // Per-game results entered against Matchup rows; their points are added on top of the log
+  const [gameResults, setGameResults] = useState<GameResult[]>(() => initialSession.data.gameResults);
+  // Host-chosen placement points, multipliers, presets and team ranking; kept across new events
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(() => sanitizeScoringRules(initialSession.data.scoringRules));
+  const scoredTeams = useMemo(
+    () => clampScores(applyGameResults(applyScoreLog(teams, scoreHistory), gameResults, scoringRules)),
+    [teams, scoreHistory, gameResults, scoringRules]
+  );
+
+  const resetScoreLog = () => {
+    setScoreHistory([]);
+    setScoreRedo([]);
+    setGameResults([]);
+  };
+
+  // Lottery progress, saved after each confirmed team
+  const [lotteryCheckpoint, setLotteryCheckpoint] = useState<LotteryCheckpoint | null>(() => initialSession.data.lottery);
   
   // Audio State
   const [isMuted, setIsMuted] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Audience screen: the game being played and the raffle draw, mirrored to a second window
+  const [currentGame, setCurrentGame] = useState<number | null>(null);
+  const [audienceRaffle, setAudienceRaffle] = useState<AudienceRaffle | null>(null);
+  const audienceBoard = useMemo<Omit<AudienceSnapshot, 'raffle'>>(() => ({
+    view: appState === AppState.Raffle ? 'raffle' : 'scoreboard',
+    teams: scoredTeams,
+    matchups,
+    games,
+    currentGame,
+    rules: scoringRules
+  }), [appState, scoredTeams, matchups, games, currentGame, scoringRules]);
+  const shownRaffle = appState === AppState.Raffle ? audienceRaffle : null;
+  const audienceSnapshotRef = useRef<AudienceSnapshot>({ ...audienceBoard, raffle: shownRaffle });
+  const audienceChannelRef = useRef<AudienceChannel | null>(null);
+
+  useEffect(() => {
+    const channel = connectAudienceChannel(message => {
+      if (message.type === 'hello') channel?.post({ type: 'snapshot', snapshot: audienceSnapshotRef.current });
+    });
+    audienceChannelRef.current = channel;
+    return () => channel?.close();
+  }, []);
+
+  useEffect(() => {
+    audienceSnapshotRef.current = { ...audienceBoard, raffle: shownRaffle };
+  }, [audienceBoard, shownRaffle]);
+
+  // The whole snapshot goes out when the scoreboard or the phase changes; the raffle rolls every
+  // ~80 ms, so its ticks only send the raffle state
+  useEffect(() => {
+    audienceChannelRef.current?.post({ type: 'snapshot', snapshot: audienceSnapshotRef.current });
+  }, [audienceBoard]);
+
+  useEffect(() => {
+    audienceChannelRef.current?.post({ type: 'raffle', raffle: shownRaffle });
+  }, [shownRaffle]);
+
   // --- Persistence Effects ---
   useEffect(() => {
     if (appState !== AppState.Landing) {
-      localStorage.setItem(LOCAL_STORAGE_STATE, appState);
+      updateSession({ appState });
     }
   }, [appState]);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_TEAMS, JSON.stringify(teams));
+    updateSession({ players });
+  }, [players]);
+
+  useEffect(() => {
+    updateSession({ teams });
   }, [teams]);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_MATCHUPS, JSON.stringify(matchups));
+    updateSession({ matchups });
   }, [matchups]);
 
+  useEffect(() => {
+    updateSession({ draw: drawRecord });
+  }, [drawRecord]);
+
+  useEffect(() => {
+    updateSession({ palette: teamPalette });
+  }, [teamPalette]);
+
+  useEffect(() => {
+    updateSession({ constraints: draftConstraints });
+  }, [draftConstraints]);
+
+  useEffect(() => {
+    updateSession({ ratingSpread });
+  }, [ratingSpread]);
+
+  useEffect(() => {
+    updateSession({ games });
+  }, [games]);
+
+  useEffect(() => {
+    updateSession({ schedule });
+  }, [schedule]);
+
+  useEffect(() => {
+    updateSession({ bracket });
+  }, [bracket]);
+
+  useEffect(() => {
+    updateSession({ scoreHistory, scoreRedo });
+  }, [scoreHistory, scoreRedo]);
+
+  useEffect(() => {
+    updateSession({ scorekeeper });
+  }, [scorekeeper]);
+
+  useEffect(() => {
+    updateSession({ gameResults });
+  }, [gameResults]);
+
+  useEffect(() => {
+    updateSession({ scoringRules });
+  }, [scoringRules]);
+
+  useEffect(() => {
+    updateSession({ lottery: lotteryCheckpoint });
+  }, [lotteryCheckpoint]);
+
+  const handleDownloadSessionBackup = () => {
+    if (!sessionIssue) return;
+    let backup: unknown;
+    try {
+      backup = JSON.parse(sessionIssue.backup);
+    } catch {
+      backup = { raw: sessionIssue.backup };
+    }
+    downloadData(backup, `squid-session-backup-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleDiscardSessionBackup = () => {
+    if (window.confirm("Discard the saved backup? Download it first if you may still need it.")) {
+      discardSessionBackup();
+      setSessionIssue(null);
+    }
+  };
+
 
   useEffect(() => {
     const audio = new Audio();
@@ -142,552 +296,82 @@ const App: React.FC = () => {
     }
   };
 
-  const startLottery = () => setAppState(AppState.Lottery);
-  
-  // Helper to generate matchups
-  const generateMatchups = (currentTeams: Team[]): Matchup[] => {
-    const shuffleArray = <T,>(arr: T[]): T[] => [...arr].sort(() => Math.random() - 0.5);
-
-    // "0" marked players (noGenderRestriction) used to be fully flexible.
-    // New rule: the FIRST "0" marked player becomes the Game 1 anchor:
-    // - Game 1 starts with that player's gender (e.g. Female-first)
-    // - That player is pinned into Game 1 for their team
-    // - Other "0" marked players still fill gaps, but only within their own gender rows
-    const findGame1Anchor = (): Player | null => {
-      for (const color of Object.values(TeamColor)) {
-        const team = currentTeams.find(t => t.color === color);
-        const found = team?.members?.find(m => m.noGenderRestriction);
-        if (found) return found;
-      }
-      return null;
-    };
-
-    type RowGenderKey = 'male' | 'female' | 'nonBinary';
-    const toRowGenderKey = (gender: Gender): RowGenderKey => {
-      if (gender === Gender.Male) return 'male';
-      if (gender === Gender.Female) return 'female';
-      return 'nonBinary';
-    };
-
-    const game1Anchor = findGame1Anchor();
-    const game1Gender: RowGenderKey | null = game1Anchor ? toRowGenderKey(game1Anchor.gender) : null;
-
-    type HelperBucket = 'early' | 'late';
-    type HelperInfo = {
-      player: Player;
-      teamColor: TeamColor;
-      totalPlayers: number;
-    };
-
-    const getHelperBaseSlotConfig = (gender: Gender): { earlyIndex: number | null; lateIndex: number | null } => {
-      if (gender === Gender.NonBinary) return { earlyIndex: null, lateIndex: null };
-
-      const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
-
-      // Target helper games:
-      // - Special Game 01 helper is pinned to index 0 for the start gender.
-      // - For the start gender, DO NOT place additional helpers at index 1 (Game 3).
-      //   They should go to the late slot (index 2 => Game 5) to keep Game 3 balanced.
-      // - For the other gender, helpers can be early (index 0 => Game 2) and late (index 2 => Game 6).
-      if (game1Anchor && isStartGender) return { earlyIndex: null, lateIndex: 2 };
-      return { earlyIndex: 0, lateIndex: 2 };
-    };
-
-    const getHelperSlotConfig = (
-      gender: Gender,
-      totalPlayers: number
-    ): { earlyIndex: number | null; lateIndex: number | null } => {
-      const base = getHelperBaseSlotConfig(gender);
-      if (base.earlyIndex === null && base.lateIndex === null) {
-        return { earlyIndex: null, lateIndex: null };
-      }
-
-      const earlyIndex = totalPlayers > 0 && base.earlyIndex !== null && base.earlyIndex < totalPlayers ? base.earlyIndex : null;
-
-      // Make "late" usable even for smaller teams:
-      // - clamp to last index (e.g. base lateIndex=2, team has 2 players => lateIndex becomes 1)
-      // - never equal earlyIndex
-      let lateIndex: number | null = null;
-      if (base.lateIndex !== null && totalPlayers >= 2) {
-        lateIndex = Math.min(base.lateIndex, totalPlayers - 1);
-        if (earlyIndex !== null && lateIndex === earlyIndex) {
-          // For the start gender when a Game 01 helper is pinned at index 0,
-          // never force "late" into index 0 just to avoid a collision.
-          const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
-          if (game1Anchor && isStartGender) {
-            lateIndex = null;
-          } else {
-            lateIndex = totalPlayers >= 2 ? (earlyIndex === 0 ? 1 : 0) : null;
-          }
-        }
-
-        // Same guard: don't push a helper into Game 01 for the start gender.
-        const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
-        if (game1Anchor && isStartGender && lateIndex === 0) {
-          lateIndex = null;
-        }
-      }
-
-      return { earlyIndex, lateIndex };
-    };
-
-    const helperBucketAssignments: Partial<Record<string, HelperBucket>> = {};
-    const helperInfosByGender: Record<Gender, HelperInfo[]> = {
-      [Gender.Male]: [],
-      [Gender.Female]: [],
-      [Gender.NonBinary]: []
-    };
-
-    const pickGame1HelperId = (gender: Gender): string | null => {
-      const infos = helperInfosByGender[gender];
-      if (!infos.length) return null;
-      const best = [...infos]
-        .sort((a, b) => {
-          const firstChar = (name: string) => (name.trim().charAt(0).toUpperCase() || '\u0000');
-          const byFirst = firstChar(b.player.name).localeCompare(firstChar(a.player.name), undefined, { sensitivity: 'base' });
-          if (byFirst !== 0) return byFirst;
-          return b.player.name.localeCompare(a.player.name, undefined, { sensitivity: 'base' });
-        })[0];
-      return best?.player.id ?? null;
-    };
-
-    const initGenderCount = () => ({
-      [Gender.Male]: 0,
-      [Gender.Female]: 0,
-      [Gender.NonBinary]: 0
-    });
-
-    const helperBucketCapacities: Record<Gender, { early: number; late: number }> = {
-      [Gender.Male]: { early: 0, late: 0 },
-      [Gender.Female]: { early: 0, late: 0 },
-      [Gender.NonBinary]: { early: 0, late: 0 }
-    };
-
-    const pendingPools: Record<TeamColor, {
-      males: Player[];
-      females: Player[];
-      nonBinary: Player[];
-      flexible: Player[];
-    }> = {} as Record<TeamColor, {
-      males: Player[];
-      females: Player[];
-      nonBinary: Player[];
-      flexible: Player[];
-    }>;
-
-    const lockedFirstByTeamAndGender: Record<TeamColor, Partial<Record<Gender, Player>>> = {} as Record<
-      TeamColor,
-      Partial<Record<Gender, Player>>
-    >;
-
-    const genderCountsByTeam: Record<TeamColor, Record<Gender, number>> = {} as Record<TeamColor, Record<Gender, number>>;
-
-    Object.values(TeamColor).forEach(color => {
-      const team = currentTeams.find(t => t.color === color);
-      const members = team ? [...team.members] : [];
-
-      lockedFirstByTeamAndGender[color] = {};
-
-      const isAnchor = (player: Player) => Boolean(game1Anchor && player.id === game1Anchor.id);
-
-      // Anchor is treated as gender-specific (so it follows its gender) and pinned to Game 1.
-      // Other noGenderRestriction players remain flexible, but will only fill same-gender rows later.
-      const flexible = members.filter(m => m.noGenderRestriction && !isAnchor(m));
-      const genderSpecific = members.filter(m => !m.noGenderRestriction || isAnchor(m));
-
-      const malesAll = genderSpecific.filter(m => m.gender === Gender.Male);
-      const femalesAll = genderSpecific.filter(m => m.gender === Gender.Female);
-      const nonBinaryAll = genderSpecific.filter(m => m.gender === Gender.NonBinary);
-
-      const lockedMale = malesAll.find(isAnchor);
-      const lockedFemale = femalesAll.find(isAnchor);
-      const lockedNonBinary = nonBinaryAll.find(isAnchor);
-
-      if (lockedMale) lockedFirstByTeamAndGender[color][Gender.Male] = lockedMale;
-      if (lockedFemale) lockedFirstByTeamAndGender[color][Gender.Female] = lockedFemale;
-      if (lockedNonBinary) lockedFirstByTeamAndGender[color][Gender.NonBinary] = lockedNonBinary;
-
-      // Remove locked player from the pool that gets shuffled/ordered; we'll prepend it back later.
-      const males = lockedMale ? malesAll.filter(p => p.id !== lockedMale.id) : malesAll;
-      const females = lockedFemale ? femalesAll.filter(p => p.id !== lockedFemale.id) : femalesAll;
-      const nonBinary = lockedNonBinary ? nonBinaryAll.filter(p => p.id !== lockedNonBinary.id) : nonBinaryAll;
-
-      pendingPools[color] = {
-        males,
-        females,
-        nonBinary,
-        flexible: shuffleArray(flexible)
-      };
-
-      const counts = initGenderCount();
-      counts[Gender.Male] = malesAll.length;
-      counts[Gender.Female] = femalesAll.length;
-      counts[Gender.NonBinary] = nonBinaryAll.length;
-      genderCountsByTeam[color] = counts;
-
-      malesAll.forEach(player => {
-        if (player.isHelper) {
-          if (isAnchor(player)) return;
-          helperInfosByGender[Gender.Male].push({ player, teamColor: color, totalPlayers: malesAll.length });
-        }
-      });
-
-      femalesAll.forEach(player => {
-        if (player.isHelper) {
-          if (isAnchor(player)) return;
-          helperInfosByGender[Gender.Female].push({ player, teamColor: color, totalPlayers: femalesAll.length });
-        }
-      });
-
-      nonBinaryAll.forEach(player => {
-        if (player.isHelper) {
-          if (isAnchor(player)) return;
-          helperInfosByGender[Gender.NonBinary].push({ player, teamColor: color, totalPlayers: nonBinaryAll.length });
-        }
-      });
-    });
-
-    // When a "0" anchor exists, pick EXACTLY ONE Game 01 helper (global, not per team)
-    // by first character Z→A (tie-breaker: full name), and exclude it from balancing.
-    const game1HelperId: string | null = game1Anchor ? pickGame1HelperId(game1Anchor.gender) : null;
-
-    Object.values(TeamColor).forEach(color => {
-      const counts = genderCountsByTeam[color];
-      ([Gender.Male, Gender.Female, Gender.NonBinary] as Gender[]).forEach(gender => {
-        const { earlyIndex, lateIndex } = getHelperSlotConfig(gender, counts[gender]);
-        if (earlyIndex !== null) {
-          helperBucketCapacities[gender].early += 1;
-        }
-        if (lateIndex !== null) {
-          helperBucketCapacities[gender].late += 1;
-        }
-      });
-    });
-
-    const assignBucketsForGender = (gender: Gender) => {
-      const infos = helperInfosByGender[gender].filter(info => info.player.id !== game1HelperId);
-      if (!infos.length) return;
-
-      const capacities = helperBucketCapacities[gender];
-      const randomized = shuffleArray(infos);
-      let lateAssigned = 0;
-
-      const usedLateTeams = new Set<TeamColor>();
-      const usedEarlyTeams = new Set<TeamColor>();
-
-      const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
-
-      // If Game 1 starts with this gender, keep the remaining helpers out of the "early" slot
-      // (which would otherwise land in Game 3 for that gender row). Put them into the late slot.
-      if (game1Anchor && isStartGender) {
-        if (capacities.late > 0) {
-          const lateEligible = randomized.filter(info => getHelperSlotConfig(gender, info.totalPlayers).lateIndex !== null);
-          const lateTarget = Math.min(infos.length, capacities.late, lateEligible.length);
-          if (lateTarget > 0) {
-            const shuffledEligible = shuffleArray(lateEligible);
-            let picked = 0;
-            for (const info of shuffledEligible) {
-              if (picked >= lateTarget) break;
-              if (usedLateTeams.has(info.teamColor)) continue;
-              helperBucketAssignments[info.player.id] = 'late';
-              usedLateTeams.add(info.teamColor);
-              picked++;
-            }
-          }
-        }
-        return;
-      }
-
-      if (capacities.late > 0) {
-        const lateEligible = randomized.filter(info => getHelperSlotConfig(gender, info.totalPlayers).lateIndex !== null);
-        const lateTarget = Math.min(Math.floor(infos.length / 2), capacities.late, lateEligible.length);
-        if (lateTarget > 0) {
-          const shuffledEligible = shuffleArray(lateEligible);
-          let picked = 0;
-          for (const info of shuffledEligible) {
-            if (picked >= lateTarget) break;
-            if (usedLateTeams.has(info.teamColor)) continue;
-            helperBucketAssignments[info.player.id] = 'late';
-            usedLateTeams.add(info.teamColor);
-            picked++;
-          }
-          lateAssigned = lateTarget;
-        }
-      }
-
-      if (capacities.early > 0) {
-        const remaining = randomized.filter(info => {
-          if (helperBucketAssignments[info.player.id]) return false;
-          if (usedEarlyTeams.has(info.teamColor)) return false;
-          return getHelperSlotConfig(gender, info.totalPlayers).earlyIndex !== null;
-        });
-        const desiredEarly = Math.min(infos.length - lateAssigned, capacities.early, remaining.length);
-        if (desiredEarly > 0) {
-          remaining.slice(0, desiredEarly).forEach(info => {
-            helperBucketAssignments[info.player.id] = 'early';
-            usedEarlyTeams.add(info.teamColor);
-          });
-        }
-      }
-    };
-
-    assignBucketsForGender(Gender.Male);
-    assignBucketsForGender(Gender.Female);
-
-    const buildOrderedList = (players: Player[], gender: Gender) => {
-      if (players.length === 0) return [];
-      const { earlyIndex, lateIndex } = getHelperSlotConfig(gender, players.length);
-
-      if (earlyIndex === null && lateIndex === null) {
-        return shuffleArray(players);
-      }
-
-      const shuffled = shuffleArray(players);
-      const earlyQueue: Player[] = [];
-      const lateQueue: Player[] = [];
-      const regulars: Player[] = [];
-      const helpers: Player[] = [];
-
-      shuffled.forEach(player => {
-        if (player.isHelper) {
-          helpers.push(player);
-        } else {
-          regulars.push(player);
-        }
-      });
-
-      // Decide which helpers (at most one each) get early/late.
-      // Special rule: when a "0" anchor exists, ONLY ONE helper globally is pinned into Game 01.
-      const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
-      const game1Pick = isStartGender && game1HelperId ? helpers.find(h => h.id === game1HelperId) : undefined;
-
-      const helpersForBuckets = game1Pick ? helpers.filter(h => h.id !== game1Pick.id) : helpers;
-
-      const bucketedEarly = helpersForBuckets.filter(h => helperBucketAssignments[h.id] === 'early');
-      const bucketedLate = helpersForBuckets.filter(h => helperBucketAssignments[h.id] === 'late');
-
-      const earlyPick = earlyIndex !== null ? bucketedEarly[0] : undefined;
-      const latePick = lateIndex !== null ? bucketedLate.find(h => h.id !== earlyPick?.id) : undefined;
-
-      const spilloverHelpers = helpersForBuckets.filter(h => h.id !== earlyPick?.id && h.id !== latePick?.id);
-
-      // For the start gender (when Game 01 is pinned), keep helpers out of index 1 (Game 3)
-      // by filling regulars first.
-      const remainingPool = isStartGender
-        ? [...shuffleArray(regulars), ...shuffleArray(spilloverHelpers)]
-        : shuffleArray([...regulars, ...spilloverHelpers]);
-
-      const ordered: Player[] = new Array(shuffled.length);
-      for (let idx = 0; idx < shuffled.length; idx++) {
-        if (game1Pick && idx === 0) {
-          ordered[idx] = game1Pick;
-          continue;
-        }
-        if (earlyIndex !== null && idx === earlyIndex && earlyPick) {
-          ordered[idx] = earlyPick;
-          continue;
-        }
-        if (lateIndex !== null && idx === lateIndex && latePick) {
-          ordered[idx] = latePick;
-          continue;
-        }
-        const next = remainingPool.shift();
-        if (next) ordered[idx] = next;
-      }
-
-      return ordered.filter(Boolean);
-    };
-
-    type TeamPool = {
-      color: TeamColor;
-      males: Player[];
-      females: Player[];
-      nonBinary: Player[];
-      flexible: Player[]; // Players with noGenderRestriction - can fill ANY empty slot
-    };
-
-    const poolsByColor: Record<TeamColor, TeamPool> = {} as Record<TeamColor, TeamPool>;
-
-    Object.values(TeamColor).forEach(color => {
-      const pending = pendingPools[color];
-      const locked = lockedFirstByTeamAndGender[color];
-
-      const orderedMalesBase = buildOrderedList(pending.males, Gender.Male);
-      const orderedFemalesBase = buildOrderedList(pending.females, Gender.Female);
-      const orderedNonBinaryBase = buildOrderedList(pending.nonBinary, Gender.NonBinary);
+  const startLottery = () => {
+    // A fresh live draw with the seed shown in Setup, following the rules that still apply
+    const constraints = pruneConstraints(draftConstraints, players, teamPalette.map(t => t.color));
+    const spread = players.some(p => p.rating !== undefined) ? ratingSpread : null;
+    setDrawRecord(prev => ({ ...createDrawRecord(prev.seed), constraints, ratingSpread: spread }));
+    setTeams(createTeams(teamPalette));
+    resetScoreLog();
+    setLotteryCheckpoint(null);
+    setAppState(AppState.Lottery);
+  };
 
-      poolsByColor[color] = {
-        color,
-        males: locked?.[Gender.Male] ? [locked[Gender.Male]!, ...orderedMalesBase] : orderedMalesBase,
-        females: locked?.[Gender.Female] ? [locked[Gender.Female]!, ...orderedFemalesBase] : orderedFemalesBase,
-        nonBinary: locked?.[Gender.NonBinary] ? [locked[Gender.NonBinary]!, ...orderedNonBinaryBase] : orderedNonBinaryBase,
-        flexible: shuffleArray(pending.flexible)
-      };
-    });
+  const handleChangeSeed = (seed: string) => {
+    setDrawRecord(createDrawRecord(seed));
+  };
 
-    const orderedPools = Object.values(TeamColor).map(color => poolsByColor[color]);
-    const matchups: Matchup[] = [];
-
-    // Calculate max rows needed - flexible players can fill any gender slot
-    // Find the team with the most total players (males + females + flexible)
-    const maxCounts = orderedPools.reduce(
-      (acc, pool) => {
-        // For male/female rows, count gender-specific + all flexible that could potentially fill
-        acc.maxMales = Math.max(acc.maxMales, pool.males.length);
-        acc.maxFemales = Math.max(acc.maxFemales, pool.females.length);
-        acc.maxNonBinary = Math.max(acc.maxNonBinary, pool.nonBinary.length);
-        acc.maxFlexible = Math.max(acc.maxFlexible, pool.flexible.length);
-        return acc;
-      },
-      { maxMales: 0, maxFemales: 0, maxNonBinary: 0, maxFlexible: 0 }
+  // Rebuild a past draw: same roster + same seed => same teams, match order and raffle order
+  // The palette has to match too, since each team's picks come from a stream named after it
+  // A saved catalog comes back too, since the match order was built from it
+  const handleReplayFromSeed = (roster: Player[], draw: DrawRecord, palette: TeamConfig[] = teamPalette, catalog?: unknown) => {
+    setPlayers(roster.map(({ absent: _absent, ...p }) => ({ ...p, score: 0 })));
+    if (Array.isArray(catalog)) setGames(sanitizeGames(catalog));
+    setTeamPalette(palette);
+    setTeams(createTeams(palette));
+    setMatchups([]);
+    resetScoreLog();
+    setLotteryCheckpoint(null);
+    updateSession({ raffleWinners: [] });
+    const constraints = sanitizeConstraints(draw.constraints);
+    const spread = typeof draw.ratingSpread === 'number' ? draw.ratingSpread : null;
+    setDraftConstraints(constraints);
+    setRatingSpread(spread);
+    setDrawRecord({ ...createDrawRecord(draw.seed), mode: 'replay', matchupRerolls: draw.matchupRerolls || 0, constraints, ratingSpread: spread, balancePlayTime: draw.balancePlayTime === true, rounds: draw.rounds });
+    setAppState(AppState.Lottery);
+  };
+  
+  // Helper to generate matchups; players who have left get no new games
+  const buildMatchups = (currentTeams: Team[], rerolls: number = drawRecord.matchupRerolls, settings: MatchOrderSettings = drawRecord): Matchup[] =>
+    generateRounds(
+      { teams: getActiveTeams(currentTeams), games, balancePlayTime: Boolean(settings.balancePlayTime) },
+      settings.rounds ?? 1,
+      { rng: deriveRandom(drawRecord.seed, 'matchups', rerolls) }
     );
 
-    // Total rows needed = max(males) + max(females) + max(nonBinary) + extra rows for flexible
-    // But flexible should fill gaps, not create new rows
-
-    let maleRowIndex = 0;
-    let femaleRowIndex = 0;
-    let nonBinaryRowIndex = 0;
-    // Start Game 1 with the anchor's gender (Female-first if anchor is female).
-    // If no anchor exists, keep the historical default (Male-first).
-    let preferMale = game1Gender ? game1Gender === 'male' : true;
-
-    // Track used flexible players per team (mutable arrays for shifting)
-    const flexibleQueues: Record<TeamColor, Player[]> = {} as Record<TeamColor, Player[]>;
-    Object.values(TeamColor).forEach(color => {
-      flexibleQueues[color] = [...poolsByColor[color].flexible];
-    });
-
-    // Helper to get next available player, using flexible to fill empty slots
-    const getNextPlayer = (pool: TeamPool, gender: 'male' | 'female' | 'nonBinary', currentIndex: number): Player | null => {
-      let genderArray: Player[];
-      if (gender === 'male') genderArray = pool.males;
-      else if (gender === 'female') genderArray = pool.females;
-      else genderArray = pool.nonBinary;
-      
-      if (currentIndex < genderArray.length) {
-        return genderArray[currentIndex];
-      }
-      
-      // No gender-specific player available - try to use a flexible player to fill the gap,
-      // but ONLY if the flexible player's own gender matches this row.
-      const flexQueue = flexibleQueues[pool.color];
-
-      const desiredGender =
-        gender === 'male' ? Gender.Male : gender === 'female' ? Gender.Female : Gender.NonBinary;
-      const matchingIndex = flexQueue.findIndex(p => p.gender === desiredGender);
-      if (matchingIndex >= 0) {
-        const picked = flexQueue.splice(matchingIndex, 1);
-        return picked[0] ?? null;
-      }
-      
-      return null;
-    };
-
-    // Determine how many rows we actually need
-    const totalMaleRows = maxCounts.maxMales;
-    const totalFemaleRows = maxCounts.maxFemales;
-    const totalNonBinaryRows = maxCounts.maxNonBinary;
-
-    // If the anchor is NonBinary, force Game 1 to be the NonBinary row (if any rows exist).
-    if (game1Gender === 'nonBinary' && nonBinaryRowIndex < totalNonBinaryRows) {
-      const rowPlayers: MatchupPlayer[] = [];
-      Object.values(TeamColor).forEach(color => {
-        const pool = poolsByColor[color];
-        rowPlayers.push({ color, player: getNextPlayer(pool, 'nonBinary', nonBinaryRowIndex) });
-      });
-      nonBinaryRowIndex++;
-      if (rowPlayers.some(entry => entry.player)) {
-        matchups.push({ id: matchups.length + 1, players: rowPlayers });
-      }
-    }
-
-    while (
-      maleRowIndex < totalMaleRows ||
-      femaleRowIndex < totalFemaleRows ||
-      nonBinaryRowIndex < totalNonBinaryRows
-    ) {
-      const rowPlayers: MatchupPlayer[] = [];
-      let addedRow = false;
-
-      // Try to alternate between male and female, falling back if one is exhausted
-      if (preferMale && maleRowIndex < totalMaleRows) {
-        Object.values(TeamColor).forEach(color => {
-          const pool = poolsByColor[color];
-          rowPlayers.push({ color, player: getNextPlayer(pool, 'male', maleRowIndex) });
-        });
-        maleRowIndex++;
-        addedRow = true;
-        preferMale = false;
-      } else if (!preferMale && femaleRowIndex < totalFemaleRows) {
-        Object.values(TeamColor).forEach(color => {
-          const pool = poolsByColor[color];
-          rowPlayers.push({ color, player: getNextPlayer(pool, 'female', femaleRowIndex) });
-        });
-        femaleRowIndex++;
-        addedRow = true;
-        preferMale = true;
-      } else if (maleRowIndex < totalMaleRows) {
-        Object.values(TeamColor).forEach(color => {
-          const pool = poolsByColor[color];
-          rowPlayers.push({ color, player: getNextPlayer(pool, 'male', maleRowIndex) });
-        });
-        maleRowIndex++;
-        addedRow = true;
-      } else if (femaleRowIndex < totalFemaleRows) {
-        Object.values(TeamColor).forEach(color => {
-          const pool = poolsByColor[color];
-          rowPlayers.push({ color, player: getNextPlayer(pool, 'female', femaleRowIndex) });
-        });
-        femaleRowIndex++;
-        addedRow = true;
-      } else if (nonBinaryRowIndex < totalNonBinaryRows) {
-        Object.values(TeamColor).forEach(color => {
-          const pool = poolsByColor[color];
-          rowPlayers.push({ color, player: getNextPlayer(pool, 'nonBinary', nonBinaryRowIndex) });
-        });
-        nonBinaryRowIndex++;
-        addedRow = true;
-      }
+  // Same seed and rerolls, so switching back gives the previous order again
+  const handleChangeMatchOrder = (patch: MatchOrderSettings) => {
+    if (gameResults.length > 0 && !window.confirm(`A new match order discards the ${gameResults.length} recorded game result${gameResults.length === 1 ? '' : 's'}. Continue?`)) return;
+    const settings = { balancePlayTime: drawRecord.balancePlayTime, rounds: drawRecord.rounds, ...patch };
+    setDrawRecord(prev => ({ ...prev, ...settings }));
+    handleUpdateMatchups(buildMatchups(teams, drawRecord.matchupRerolls, settings), drawRecord.matchupRerolls);
+  };
 
-      if (!addedRow) break;
+  // Preview only: the reroll count is recorded when the new order is saved through handleUpdateMatchups
+  const rerollMatchups = (currentTeams: Team[], rerolls: number): Matchup[] => buildMatchups(currentTeams, rerolls);
 
-      if (rowPlayers.some(entry => entry.player)) {
-        matchups.push({ id: matchups.length + 1, players: rowPlayers });
-      }
-    }
+  // A restored Lottery needs the roster it was drawn from: everyone already drafted must be in it
+  const playersMissingFromRoster = useMemo(() => {
+    const rosterIds = new Set(players.map(p => p.id));
+    const drafted = [...teams, ...(lotteryCheckpoint?.teams ?? [])].flatMap(t => t.members);
+    return drafted.filter((m, i) => !rosterIds.has(m.id) && drafted.findIndex(d => d.id === m.id) === i);
+  }, [players, teams, lotteryCheckpoint]);
+  const needsRosterRecovery = appState === AppState.Lottery && (players.length === 0 || playersMissingFromRoster.length > 0);
 
-    // After all gender rows, if there are still unused flexible players, add extra rows
-    // Check if any team still has flexible players
-    let hasRemainingFlexible = Object.values(flexibleQueues).some(q => q.length > 0);
-    while (hasRemainingFlexible) {
-      const rowPlayers: MatchupPlayer[] = [];
-      Object.values(TeamColor).forEach(color => {
-        const flexQueue = flexibleQueues[color];
-        rowPlayers.push({ color, player: flexQueue.shift() || null });
-      });
-      
-      if (rowPlayers.some(entry => entry.player)) {
-        matchups.push({ id: matchups.length + 1, players: rowPlayers });
-      }
-      
-      hasRemainingFlexible = Object.values(flexibleQueues).some(q => q.length > 0);
-    }
-
-    if (matchups.length === 0) {
-      return [{
-        id: 1,
-        players: Object.values(TeamColor).map(color => ({ color, player: null }))
-      }];
-    }
+  const handleRecoverRoster = () => {
+    setPlayers(prev => [...prev, ...playersMissingFromRoster.map(p => ({ ...p, score: 0 }))]);
+  };
 
-    return matchups.map((row, idx) => ({ ...row, id: idx + 1 }));
+  const handleRecoveryBackToSetup = () => {
+    setTeams(createTeams(teamPalette));
+    setAppState(AppState.Setup);
   };
 
   const completeLottery = (finalTeams: Team[]) => {
     setTeams(finalTeams);
+    setLotteryCheckpoint(null);
     // Automatically generate and show matchups
-    const newMatchups = generateMatchups(finalTeams);
+    const newMatchups = buildMatchups(finalTeams);
     setMatchups(newMatchups);
     setAppState(AppState.Matchups);
   };
@@ -696,29 +380,54 @@ const App: React.FC = () => {
     // Confirmation handled in UI to avoid blocking/z-index issues
     setAppState(AppState.Setup);
     setPlayers([]);
-    setTeams(Object.values(TeamColor).map(color => ({ color, members: [], hex: TEAM_CONFIG[color].hex, score: 0 })));
+    setDraftConstraints([]);
+    setTeams(createTeams(teamPalette));
     setMatchups([]);
-    localStorage.removeItem(LOCAL_STORAGE_TEAMS);
-    localStorage.removeItem(LOCAL_STORAGE_MATCHUPS);
-    localStorage.removeItem(LOCAL_STORAGE_STATE);
+    setSchedule(null);
+    setBracket(null);
+    setDrawRecord(createDrawRecord());
+    resetScoreLog();
+    setLotteryCheckpoint(null);
   };
 
-  const handleImportResults = (importedTeams: Team[], importedMatchups?: Matchup[]) => {
+  // Exported totals already include the file's game results, which are restored separately
+  // under the rules they were scored with
+  const importTeams = (importedTeams: Team[], importedGames?: GameResult[], importedRules?: ScoringRules) => {
     // Ensure score field exists on import
-    const sanitized = importedTeams.map(t => ({ ...t, score: t.score || 0, members: t.members.map(m => ({...m, score: m.score || 0})) }));
-    setTeams(sanitized);
-    if (importedMatchups && importedMatchups.length > 0) {
-      setMatchups(importedMatchups);
+    const sanitized = withTeamStyles(importedTeams).map(t => ({ ...t, score: t.score || 0, members: t.members.map(m => ({...m, score: m.score || 0})) }));
+    const games = Array.isArray(importedGames) ? importedGames : [];
+    const rules = importedRules ? sanitizeScoringRules(importedRules) : scoringRules;
+    setTeams(removeGameResults(sanitized, games, rules));
+    resetScoreLog();
+    setGameResults(games);
+    setScoringRules(rules);
+  };
+
+  const handleImportResults = (importedTeams: Team[], importedMatchups?: unknown, importedDraw?: DrawRecord, importedGames?: GameResult[], importedRules?: ScoringRules, importedCatalog?: unknown, importedBracket?: unknown) => {
+    importTeams(importedTeams, importedGames, importedRules);
+    if (Array.isArray(importedCatalog)) setGames(sanitizeGames(importedCatalog));
+    setBracket(sanitizeBracket(importedBracket));
+    const restoredMatchups = sanitizeMatchups(importedMatchups, importedTeams);
+    if (restoredMatchups.length > 0) {
+      setMatchups(restoredMatchups);
+    }
+    if (importedDraw?.seed) {
+      setDrawRecord({ ...createDrawRecord(importedDraw.seed), ...importedDraw });
     }
     setAppState(AppState.Results);
   };
 
-  const handleLoadResultsInScoreboard = (loadedTeams: Team[], loadedMatchups: Matchup[]) => {
+  const handleLoadResultsInScoreboard = (loadedTeams: Team[], loadedMatchups: unknown, loadedDraw?: DrawRecord, loadedGames?: GameResult[], loadedRules?: ScoringRules, loadedCatalog?: unknown, loadedBracket?: unknown) => {
     // Fully replace teams and matchups when loading from scoreboard
-    const sanitized = loadedTeams.map(t => ({ ...t, score: t.score || 0, members: t.members.map(m => ({...m, score: m.score || 0})) }));
-    setTeams(sanitized);
-    if (loadedMatchups && loadedMatchups.length > 0) {
-      setMatchups(loadedMatchups);
+    importTeams(loadedTeams, loadedGames, loadedRules);
+    if (Array.isArray(loadedCatalog)) setGames(sanitizeGames(loadedCatalog));
+    setBracket(sanitizeBracket(loadedBracket));
+    const restoredMatchups = sanitizeMatchups(loadedMatchups, loadedTeams);
+    if (restoredMatchups.length > 0) {
+      setMatchups(restoredMatchups);
+    }
+    if (loadedDraw?.seed) {
+      setDrawRecord({ ...createDrawRecord(loadedDraw.seed), ...loadedDraw });
     }
   };
 
@@ -728,25 +437,48 @@ const App: React.FC = () => {
       setAppState(AppState.Matchups);
     } else {
       // Should rarely happen if flow is followed, but safe fallback
-      const newMatchups = generateMatchups(teams);
+      const newMatchups = buildMatchups(teams);
       setMatchups(newMatchups);
       setAppState(AppState.Matchups);
     }
   };
 
   const handleRegenerateOrder = () => {
-    if (window.confirm("Reroll matchups? This will overwrite the existing playing order.")) {
-      const newMatchups = generateMatchups(teams);
-      setMatchups(newMatchups);
+    if (window.confirm("Reroll matchups? This will overwrite the existing playing order and its game results.")) {
+      const nextRerolls = drawRecord.matchupRerolls + 1;
+      handleUpdateMatchups(rerollMatchups(teams, nextRerolls), nextRerolls);
     }
   };
 
-  const handleUpdateMatchups = (updatedMatchups: Matchup[]) => {
+  // A new order (given with the reroll count it was built from) numbers its rows from 1 again, so
+  // results and multipliers saved against the old rows would land on different games; moved or
+  // edited rows keep their ids, results and multipliers
+  const handleUpdateMatchups = (updatedMatchups: Matchup[], rerolls?: number) => {
     setMatchups(updatedMatchups);
+    if (rerolls !== undefined) {
+      setDrawRecord(prev => ({ ...prev, matchupRerolls: rerolls }));
+      setGameResults([]);
+      setScoringRules(prev => ({ ...prev, gameMultipliers: {} }));
+    } else {
+      // Rows dropped by a roster change take their multipliers with them
+      const ids = new Set(updatedMatchups.map(m => String(m.id)));
+      setScoringRules(prev => Object.keys(prev.gameMultipliers).every(id => ids.has(id))
+        ? prev
+        : { ...prev, gameMultipliers: Object.fromEntries(Object.entries(prev.gameMultipliers).filter(([id]) => ids.has(id))) });
+    }
+  };
+
+  const handleSaveGameResult = (result: GameResult) => {
+    setGameResults(prev => [...prev.filter(r => r.matchupId !== result.matchupId), result]);
+  };
+
+  const handleClearGameResult = (matchupId: number) => {
+    setGameResults(prev => prev.filter(r => r.matchupId !== matchupId));
   };
 
   const handleUpdateTeams = (updatedTeams: Team[]) => {
-    setTeams(updatedTeams);
+    // Edited teams arrive with replayed totals; store them back as base scores
+    setTeams(prev => toBaseTeams(updatedTeams, prev));
   };
 
   const handleBackToHome = () => {
@@ -769,35 +501,48 @@ const App: React.FC = () => {
   };
 
   // --- Score Handling ---
-  const updateTeamScore = (teamColor: TeamColor, delta: number) => {
-    setTeams(prev => prev.map(t => {
-      if (t.color === teamColor) {
-        return { ...t, score: Math.max(0, (t.score || 0) + delta) };
-      }
-      return t;
-    }));
-  };
-
-  const updatePlayerScore = (teamColor: TeamColor, playerId: string, delta: number) => {
-    setTeams(prev => prev.map(t => {
-      if (t.color === teamColor) {
-        let teamDelta = 0;
-        const newMembers = t.members.map(m => {
-          if (m.id === playerId) {
-            const newScore = Math.max(0, (m.score || 0) + delta);
-            teamDelta = newScore - (m.score || 0);
-            return { ...m, score: newScore };
-          }
-          return m;
-        });
-        return { 
-          ...t, 
-          members: newMembers,
-          score: Math.max(0, (t.score || 0) + teamDelta) // Sync team score with player score changes
-        };
-      }
-      return t;
-    }));
+  const recordScoreEvent = (teamColor: TeamColor, playerId: string | null, delta: number, gameNumber: number | null = null, reason?: string) => {
+    const event: ScoreEvent = {
+      id: uuidv4(),
+      teamColor,
+      playerId,
+      delta,
+      gameNumber,
+      author: scorekeeper.trim(),
+      timestamp: new Date().toISOString(),
+      ...(reason ? { reason } : {})
+    };
+    setScoreHistory(prev => [...prev, event]);
+    // A new entry ends the redo chain, like any editor
+    setScoreRedo([]);
+  };
+
+  // A deduction stops at the zero shown on the scoreboard, so the log never holds points below
+  // zero that a later bonus would silently have to make up first
+  const updateTeamScore = (teamColor: TeamColor, delta: number, gameNumber: number | null = null) => {
+    const shown = scoredTeams.find(t => t.color === teamColor)?.score ?? 0;
+    const applied = Math.max(delta, -shown);
+    if (applied !== 0) recordScoreEvent(teamColor, null, applied, gameNumber);
+  };
+
+  const updatePlayerScore = (teamColor: TeamColor, playerId: string, delta: number, gameNumber: number | null = null, reason?: string) => {
+    const shown = scoredTeams.find(t => t.color === teamColor)?.members.find(m => m.id === playerId)?.score ?? 0;
+    const applied = Math.max(delta, -shown);
+    if (applied !== 0) recordScoreEvent(teamColor, playerId, applied, gameNumber, reason);
+  };
+
+  const undoScore = () => {
+    if (scoreHistory.length === 0) return;
+    const last = scoreHistory[scoreHistory.length - 1];
+    setScoreHistory(scoreHistory.slice(0, -1));
+    setScoreRedo(prev => [...prev, last]);
+  };
+
+  const redoScore = () => {
+    if (scoreRedo.length === 0) return;
+    const next = scoreRedo[scoreRedo.length - 1];
+    setScoreRedo(scoreRedo.slice(0, -1));
+    setScoreHistory(prev => [...prev, next]);
   };
 
   return (
@@ -811,6 +556,17 @@ const App: React.FC = () => {
       )}
 
       <main className={`relative z-10 flex flex-col flex-1 min-h-screen transition-opacity duration-1000 ${appState === AppState.Landing ? 'opacity-0' : 'opacity-100'}`}>
+        {sessionIssue && (
+          <div className="w-full bg-red-900/80 border-b border-red-500 px-4 py-2 flex flex-wrap items-center justify-center gap-4 text-xs font-mono tracking-wider relative z-30">
+            <span>SAVED SESSION COULD NOT BE RESTORED: {sessionIssue.reason}</span>
+            <button onClick={handleDownloadSessionBackup} className="px-3 py-1 border border-white/60 hover:bg-white hover:text-black transition-colors">
+              DOWNLOAD BACKUP
+            </button>
+            <button onClick={handleDiscardSessionBackup} className="px-3 py-1 border border-white/30 text-gray-300 hover:text-white transition-colors">
+              DISCARD
+            </button>
+          </div>
+        )}
         <header className="w-full p-4 md:p-6 flex justify-between items-center relative z-20 shrink-0">
           {/* Left: Icons - Clickable to go back home */}
           <button 
@@ -823,8 +579,17 @@ const App: React.FC = () => {
             <Icons.Square className="w-5 h-5 md:w-6 md:h-6" />
           </button>
           
-          {/* Right: Audio Control & Version */}
+          {/* Right: Audience Screen, Audio Control & Version */}
           <div className="flex items-center gap-6 opacity-80 hover:opacity-100 transition-opacity">
+            {isAudienceSupported() && (
+              <button
+                onClick={openAudienceWindow}
+                title="Open a control-free window for the projector"
+                className="text-[10px] font-mono tracking-widest text-gray-400 hover:text-white transition-colors uppercase border border-gray-700 px-3 py-1 rounded-sm hover:border-squid-pink"
+              >
+                AUDIENCE SCREEN
+              </button>
+            )}
             <button 
               onClick={toggleMute}
               className="flex items-center gap-2 text-[10px] font-mono tracking-widest text-squid-pink hover:text-white transition-colors uppercase border border-squid-pink/30 px-3 py-1 rounded-sm hover:border-squid-pink hover:bg-squid-pink/10"
@@ -852,22 +617,56 @@ const App: React.FC = () => {
               setPlayers={setPlayers} 
               onStart={startLottery} 
               onImportResults={handleImportResults}
+              seed={drawRecord.seed}
+              onChangeSeed={handleChangeSeed}
+              onReplayFromSeed={handleReplayFromSeed}
+              teamPalette={teamPalette}
+              onChangeTeamPalette={setTeamPalette}
+              constraints={draftConstraints}
+              onChangeConstraints={setDraftConstraints}
+              ratingSpread={ratingSpread}
+              onChangeRatingSpread={setRatingSpread}
+              games={games}
+              onChangeGames={setGames}
             />
           )}
-          {appState === AppState.Lottery && (
-            <LotteryPhase players={players} initialTeams={teams} onComplete={completeLottery} isMuted={isMuted} />
+          {needsRosterRecovery && (
+            <RosterRecovery
+              rosterCount={players.length}
+              missingCount={playersMissingFromRoster.length}
+              onRecover={handleRecoverRoster}
+              onBackToSetup={handleRecoveryBackToSetup}
+            />
+          )}
+          {appState === AppState.Lottery && !needsRosterRecovery && (
+            <LotteryPhase
+              players={players}
+              initialTeams={teams}
+              onComplete={completeLottery}
+              isMuted={isMuted}
+              seed={drawRecord.seed}
+              isReplay={drawRecord.mode === 'replay'}
+              checkpoint={lotteryCheckpoint}
+              onCheckpoint={setLotteryCheckpoint}
+              constraints={drawRecord.constraints}
+              ratingSpread={drawRecord.ratingSpread}
+            />
           )}
           {appState === AppState.Matchups && (
              <PlayingOrderPhase 
                 teams={teams} 
                 matchups={matchups} 
+                drawRecord={drawRecord}
+                games={games}
+                onChangeMatchOrder={handleChangeMatchOrder}
                 onProceed={handleProceedToScoreboard}
              />
           )}
           {appState === AppState.Results && (
             <ResultsPhase 
-              teams={teams} 
+              teams={scoredTeams} 
               matchups={matchups}
+              drawRecord={drawRecord}
               onReset={resetApp} 
               onViewMatchups={handleViewMatchups}
               onOpenRaffle={handleOpenRaffle}
@@ -876,10 +675,35 @@ const App: React.FC = () => {
               onLoadResults={handleLoadResultsInScoreboard}
               onUpdateMatchups={handleUpdateMatchups}
               onUpdateTeams={handleUpdateTeams}
+              onRerollMatchups={rerollMatchups}
+              scoreLog={scoreHistory}
+              redoCount={scoreRedo.length}
+              onUndoScore={undoScore}
+              onRedoScore={redoScore}
+              scorekeeper={scorekeeper}
+              onChangeScorekeeper={setScorekeeper}
+              gameResults={gameResults}
+              onSaveGameResult={handleSaveGameResult}
+              onClearGameResult={handleClearGameResult}
+              scoringRules={scoringRules}
+              onChangeScoringRules={setScoringRules}
+              onChangeActiveGame={setCurrentGame}
+              games={games}
+              schedule={schedule}
+              onChangeSchedule={setSchedule}
+              bracket={bracket}
+              onChangeBracket={setBracket}
             />
           )}
           {appState === AppState.Raffle && (
-            <RaffleSystem teams={teams} onBack={handleCloseRaffle} />
+            <RaffleSystem
+              teams={scoredTeams}
+              onBack={handleCloseRaffle}
+              seed={drawRecord.seed}
+              drawIndex={drawRecord.raffleDraws}
+              onDraw={() => setDrawRecord(prev => ({ ...prev, raffleDraws: prev.raffleDraws + 1 }))}
+              onAudienceChange={setAudienceRaffle}
+            />
           )}
         </div>
       </main>
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from '../constants';
+import { Scoreboard } from './Scoreboard';
+import { RaffleSystem } from './RaffleSystem';
+import { AudienceSnapshot, connectAudienceChannel } from '../services/audienceChannel';
+import { getGame } from '../services/gameCatalog';
+
+// Projector window: whatever the host's window is showing, full-screen and without controls.
+// It keeps no state of its own; everything arrives from the host over the audience channel.
+export const AudienceDisplay: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<AudienceSnapshot | null>(null);
+
+  useEffect(() => {
+    const channel = connectAudienceChannel(message => {
+      if (message.type === 'snapshot') setSnapshot(message.snapshot);
+      if (message.type === 'raffle') setSnapshot(prev => prev && { ...prev, raffle: message.raffle });
+    });
+    // Ask the host for the current state; it may have been running for a while
+    channel?.post({ type: 'hello' });
+    return () => channel?.close();
+  }, []);
+
+  const currentRow = snapshot?.matchups.find(m => m.id === snapshot.currentGame) ?? null;
+  const currentCatalogGame = currentRow && snapshot ? getGame(snapshot.games, currentRow.gameId) : undefined;
+  const hasTeams = Boolean(snapshot?.teams.some(t => t.members.length > 0));
+
+  if (snapshot?.view === 'raffle' && snapshot.raffle) {
+    return (
+      <div className="min-h-screen bg-squid-dark text-white font-mono flex flex-col">
+        <RaffleSystem
+          teams={snapshot.teams}
+          onBack={() => {}}
+          seed={snapshot.raffle.seed}
+          drawIndex={snapshot.raffle.drawIndex}
+          isMuted
+          audience={snapshot.raffle}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-squid-dark text-white font-mono overflow-hidden flex flex-col">
+      <div className="fixed inset-0 z-50 crt-overlay pointer-events-none"></div>
+
+      {!snapshot || !hasTeams ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-6">
+          <div className="flex gap-6 text-squid-pink animate-pulse">
+            <Icons.Circle className="w-12 h-12" />
+            <Icons.Triangle className="w-12 h-12" />
+            <Icons.Square className="w-12 h-12" />
+          </div>
+          <p className="font-display text-2xl tracking-[0.3em] text-gray-400">
+            {snapshot ? 'THE GAMES WILL BEGIN SHORTLY' : 'WAITING FOR THE HOST'}
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col justify-center w-full max-w-7xl mx-auto p-6 gap-10">
+          <Scoreboard teams={snapshot.teams} rules={snapshot.rules} />
+
+          {currentRow && (
+            <div className="bg-squid-card border-t-4 border-squid-pink p-6">
+              <h3 className="font-display text-3xl text-center mb-6 tracking-widest">
+                <span className="text-squid-pink mr-3">NOW PLAYING</span>
+                {currentCatalogGame ? currentCatalogGame.name.toUpperCase() : `GAME #${currentRow.id}`}
+              </h3>
+              {currentCatalogGame?.description && (
+                <p className="-mt-4 mb-6 text-center text-sm text-gray-400">{currentCatalogGame.description}</p>
+              )}
+              <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${snapshot.teams.length}, minmax(0, 1fr))` }}>
+                {snapshot.teams.map(team => {
+                  const player = currentRow.players.find(p => p.color === team.color)?.player;
+                  return (
+                    <div key={team.color} className="text-center">
+                      <div className={`h-1 mb-3 ${team.bg}`}></div>
+                      <div className="text-xs uppercase tracking-widest mb-1" style={{ color: team.hex }}>{team.color}</div>
+                      <div className={`font-display text-2xl uppercase truncate ${player ? 'text-white' : 'text-gray-700'}`}>
+                        {player ? player.name : '—'}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { DraftConstraint, DraftConstraintKind, Player, TeamConfig } from '../types';
+import { CONSTRAINT_LABELS, findConstraintConflicts } from '../services/draftConstraints';
+
+const KINDS = Object.keys(CONSTRAINT_LABELS) as DraftConstraintKind[];
+
+const KIND_HINTS: Record<DraftConstraintKind, string> = {
+  apart: 'No two of these players on the same team (managers, last year\'s winners).',
+  together: 'These players on the same team (couples, a newcomer and their buddy).',
+  pin: 'These players always go to the chosen team.'
+};
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 border ${active ? 'border-squid-pink text-white' : 'border-gray-700 text-gray-500 hover:text-white'}`;
+
+const DEFAULT_RATING_SPREAD = 0.5;
+
+// Draft rules set up before the lottery. Hard rules win over the gender balance;
+// soft ones are followed when the balance allows. Pins are always hard.
+// Once players have ratings, the host can also cap the gap between team average ratings.
+export const DraftConstraintsEditor: React.FC<{
+  players: Player[];
+  palette: TeamConfig[];
+  constraints: DraftConstraint[];
+  onChange: (constraints: DraftConstraint[]) => void;
+  ratingSpread: number | null;
+  onChangeRatingSpread: (spread: number | null) => void;
+}> = ({ players, palette, constraints, onChange, ratingSpread, onChangeRatingSpread }) => {
+  const [kind, setKind] = useState<DraftConstraintKind>('apart');
+  const [draftIds, setDraftIds] = useState<string[]>([]);
+  const [team, setTeam] = useState('');
+  const [hard, setHard] = useState(true);
+
+  const byId = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const sortedPlayers = useMemo(() => [...players].sort((a, b) => a.name.localeCompare(b.name)), [players]);
+  const colors = palette.map(t => t.color);
+  const conflicts = useMemo(
+    () => findConstraintConflicts(constraints, players, palette.map(t => t.color)),
+    [constraints, players, palette]
+  );
+
+  // Players removed from the roster since the rule was made are left out
+  const validDraftIds = draftIds.filter(id => byId.has(id));
+  const ratedCount = players.filter(p => p.rating !== undefined).length;
+  const pinTeam = colors.includes(team) ? team : colors[0];
+  const canAdd = kind === 'pin' ? validDraftIds.length >= 1 && Boolean(pinTeam) : validDraftIds.length >= 2;
+
+  const addRule = () => {
+    if (!canAdd) return;
+    onChange([...constraints, {
+      id: uuidv4(),
+      kind,
+      playerIds: validDraftIds,
+      ...(kind === 'pin' ? { team: pinTeam } : {}),
+      hard: kind === 'pin' ? true : hard
+    }]);
+    setDraftIds([]);
+  };
+
+  const updateRule = (id: string, patch: Partial<DraftConstraint>) =>
+    onChange(constraints.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  return (
+    <div className="bg-squid-card p-6 border-t-4 border-gray-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="font-display">DRAFT RULES</h3>
+        <span className="text-[10px] font-mono text-gray-500 tracking-widest">{constraints.length} RULE{constraints.length === 1 ? '' : 'S'}</span>
+      </div>
+
+      {/* New rule */}
+      <div className="space-y-3 mb-4 font-mono text-[10px] tracking-widest">
+        <div className="flex flex-wrap gap-2">
+          {KINDS.map(option => (
+            <button key={option} onClick={() => setKind(option)} className={optionClass(kind === option)}>
+              {CONSTRAINT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <p className="text-gray-500 tracking-normal">{KIND_HINTS[kind]}</p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {validDraftIds.map(id => (
+            <span key={id} className="flex items-center gap-1 px-2 py-1 bg-squid-pink/10 border border-squid-pink/40 text-white">
+              {byId.get(id)!.name}
+              <button onClick={() => setDraftIds(prev => prev.filter(other => other !== id))} className="text-gray-400 hover:text-white" aria-label={`Remove ${byId.get(id)!.name}`}>✕</button>
+            </span>
+          ))}
+          <select
+            value=""
+            onChange={(e) => e.target.value && setDraftIds(prev => [...prev, e.target.value])}
+            className="bg-squid-dark border border-gray-700 px-2 py-1 text-gray-300 focus:outline-none"
+            aria-label="Add player to rule"
+          >
+            <option value="">+ PLAYER</option>
+            {sortedPlayers.filter(p => !validDraftIds.includes(p.id)).map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {kind === 'pin' ? (
+            <select
+              value={pinTeam}
+              onChange={(e) => setTeam(e.target.value)}
+              className="bg-squid-dark border border-gray-700 px-2 py-1 text-gray-300 focus:outline-none"
+              aria-label="Team to pin to"
+            >
+              {colors.map(color => <option key={color} value={color}>{color}</option>)}
+            </select>
+          ) : (
+            <label className="flex items-center gap-2 text-gray-400" title="Hard rules win over the gender balance; soft rules give way to it">
+              <input type="checkbox" checked={hard} onChange={(e) => setHard(e.target.checked)} className="accent-squid-pink" />
+              HARD RULE
+            </label>
+          )}
+          <button
+            onClick={addRule}
+            disabled={!canAdd}
+            className="ml-auto px-3 py-1 border border-squid-pink text-white hover:bg-squid-pink/20 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            ADD RULE
+          </button>
+        </div>
+      </div>
+
+      {/* Rating balance */}
+      {ratedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 pt-4 border-t border-gray-800 font-mono text-[10px] tracking-widest text-gray-400">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={ratingSpread !== null}
+              onChange={(e) => onChangeRatingSpread(e.target.checked ? DEFAULT_RATING_SPREAD : null)}
+              className="accent-squid-pink"
+            />
+            BALANCE RATINGS
+          </label>
+          {ratingSpread !== null && (
+            <label className="flex items-center gap-2">
+              MAX GAP BETWEEN TEAM AVERAGES
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={ratingSpread}
+                onChange={(e) => onChangeRatingSpread(Math.max(0, Number(e.target.value) || 0))}
+                className="w-16 bg-squid-dark border border-gray-700 px-2 py-1 text-white text-center focus:border-squid-pink focus:outline-none"
+              />
+            </label>
+          )}
+          <span className="text-gray-600 tracking-normal">{ratedCount} of {players.length} rated; unrated players count as average.</span>
+        </div>
+      )}
+
+      {/* Existing rules */}
+      {constraints.length > 0 && (
+        <ul className="space-y-2 border-t border-gray-800 pt-4">
+          {constraints.map(constraint => {
+            const problems = conflicts.filter(p => p.constraint.id === constraint.id);
+            return (
+              <li key={constraint.id} className="p-2 bg-black/40 border border-gray-800 font-mono text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-squid-pink text-[10px] tracking-widest">{CONSTRAINT_LABELS[constraint.kind]}</span>
+                  {constraint.kind === 'pin' ? (
+                    <span className="text-[10px] text-gray-500">→ <span className="text-white">{constraint.team}</span></span>
+                  ) : (
+                    <button
+                      onClick={() => updateRule(constraint.id, { hard: !constraint.hard })}
+                      className={`px-1.5 text-[10px] border ${constraint.hard ? 'border-red-500 text-red-400' : 'border-gray-600 text-gray-400'}`}
+                      title="Toggle hard / soft"
+                    >
+                      {constraint.hard ? 'HARD' : 'SOFT'}
+                    </button>
+                  )}
+                  <span className="flex-1 text-gray-300 truncate">
+                    {constraint.playerIds.map(id => byId.get(id)?.name ?? 'removed player').join(', ')}
+                  </span>
+                  <button
+                    onClick={() => onChange(constraints.filter(c => c.id !== constraint.id))}
+                    className="text-gray-600 hover:text-red-400"
+                    aria-label="Remove rule"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {problems.map((problem, i) => (
+                  <p key={i} className="mt-1 text-[10px] text-yellow-400">⚠ {problem.message}</p>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Player } from '../types';
+import { Button } from './Button';
+import { DuplicateMatch, MergeDecision, defaultDecision, mergePlayers } from '../services/rosterDuplicates';
+
+const REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  id: 'SAME ID',
+  name: 'SAME NAME',
+  similar: 'SIMILAR NAME'
+};
+
+const ACTION_LABELS: Record<MergeDecision['action'], string> = {
+  merge: 'MERGE',
+  keepBoth: 'KEEP BOTH',
+  skip: 'SKIP NEW'
+};
+
+const describeMarkers = (player: Player) =>
+  [player.noGenderRestriction && '0', player.isHelper && 'H'].filter(Boolean).join(' ') || '—';
+
+const optionClass = (active: boolean) =>
+  `px-2 py-0.5 border text-[10px] ${active ? 'border-squid-pink text-white bg-squid-pink/20' : 'border-gray-700 text-gray-500 hover:text-white'}`;
+
+// Shown when an import clashes with players already registered (or with itself).
+// Each clash is merged, kept as two players or skipped before the roster is updated.
+export const DuplicateMergeDialog: React.FC<{
+  matches: DuplicateMatch[];
+  newCount: number; // incoming players with no clash
+  onApply: (decisions: Record<number, MergeDecision>) => void;
+  onCancel: () => void;
+}> = ({ matches, newCount, onApply, onCancel }) => {
+  const [decisions, setDecisions] = useState<Record<number, MergeDecision>>(() =>
+    Object.fromEntries(matches.map(match => [match.index, defaultDecision(match)]))
+  );
+
+  const update = (index: number, patch: Partial<MergeDecision>) =>
+    setDecisions(prev => ({ ...prev, [index]: { ...prev[index], ...patch } }));
+
+  const setAll = (action: MergeDecision['action']) =>
+    setDecisions(prev => Object.fromEntries(matches.map(match => [match.index, { ...prev[match.index], action }])));
+
+  return (
+    <div className="fixed inset-0 z-[210] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">{matches.length}</span>POSSIBLE DUPLICATE{matches.length === 1 ? '' : 'S'}
+          </h3>
+          <div className="flex gap-2 font-mono">
+            {(Object.keys(ACTION_LABELS) as MergeDecision['action'][]).map(action => (
+              <button key={action} onClick={() => setAll(action)} className="px-2 py-1 border border-gray-700 text-[10px] text-gray-300 hover:text-white hover:border-squid-pink">
+                ALL: {ACTION_LABELS[action]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+          {matches.map(match => {
+            const decision = decisions[match.index];
+            const existing = match.target.player;
+            const merged = mergePlayers(existing, match.incoming, decision);
+            return (
+              <div key={match.index} className="bg-black/40 border border-gray-800 p-3 font-mono text-xs">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <span className="text-yellow-400 tracking-widest">
+                    {REASON_LABELS[match.reason]}
+                    {match.target.source === 'incoming' && <span className="ml-2 text-gray-500">(twice in this import)</span>}
+                  </span>
+                  <div className="flex gap-1">
+                    {(Object.keys(ACTION_LABELS) as MergeDecision['action'][]).map(action => (
+                      <button key={action} onClick={() => update(match.index, { action })} className={optionClass(decision.action === action)}>
+                        {ACTION_LABELS[action]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <table className="w-full text-gray-300">
+                  <thead>
+                    <tr className="text-gray-500 text-[10px]">
+                      <th className="text-left p-1 w-24"></th>
+                      <th className="text-left p-1">NAME</th>
+                      <th className="text-left p-1">GENDER</th>
+                      <th className="text-left p-1">MARKERS</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {([['existing', existing], ['incoming', match.incoming]] as const).map(([side, player]) => (
+                      <tr key={side} className="border-t border-gray-900">
+                        <td className="p-1 text-gray-500">{side === 'existing' ? (match.target.source === 'roster' ? 'REGISTERED' : 'EARLIER ROW') : 'NEW'}</td>
+                        <td className="p-1 text-white truncate max-w-[200px]">{player.name}</td>
+                        <td className="p-1">
+                          {decision.action === 'merge' ? (
+                            <button onClick={() => update(match.index, { gender: side })} className={optionClass(decision.gender === side)}>
+                              {player.gender}
+                            </button>
+                          ) : player.gender}
+                        </td>
+                        <td className="p-1">
+                          {decision.action === 'merge' ? (
+                            <button onClick={() => update(match.index, { markers: side })} className={optionClass(decision.markers === side)}>
+                              {describeMarkers(player)}
+                            </button>
+                          ) : describeMarkers(player)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {decision.action === 'merge' && (
+                  <div className="flex flex-wrap items-center gap-3 mt-2 text-[10px] text-gray-500">
+                    <button onClick={() => update(match.index, { markers: 'both' })} className={optionClass(decision.markers === 'both')}>
+                      COMBINE MARKERS
+                    </button>
+                    <span>
+                      RESULT: <span className="text-white">{merged.name}</span> · {merged.gender} · {describeMarkers(merged)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3 p-4 border-t border-gray-800">
+          <span className="mr-auto text-[10px] font-mono text-gray-500">{newCount} other player{newCount === 1 ? '' : 's'} will be added as new.</span>
+          <Button variant="secondary" onClick={onCancel} className="text-xs py-2 px-4">CANCEL IMPORT</Button>
+          <Button onClick={() => onApply(decisions)} className="text-xs py-2 px-4">APPLY</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Player, TeamConfig } from '../types';
+import { Button } from './Button';
+import { getTeamConfigMap } from '../utils';
+import { FairnessReport, simulateLotteryFairness } from '../services/lotteryFairness';
+import { DraftOptions } from '../services/lotteryDraft';
+
+const RUN_OPTIONS = [1000, 2000, 5000];
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Simulates thousands of lotteries with the current roster and shows how evenly each player
+// is spread over the teams, compared to other players of the same group.
+export const FairnessAudit: React.FC<{
+  players: Player[];
+  palette: TeamConfig[];
+  seed: string;
+  draftOptions: DraftOptions;
+  onClose: () => void;
+}> = ({ players, palette, seed, draftOptions, onClose }) => {
+  const [runs, setRuns] = useState(2000);
+  const [report, setReport] = useState<FairnessReport | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const teamConfigs = getTeamConfigMap(palette);
+  const isRunning = progress !== null;
+
+  // Closing the audit stops a run that is still going
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runAudit = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    const result = await simulateLotteryFairness(players, palette, {
+      runs,
+      seed: `${seed}-AUDIT`,
+      draft: draftOptions,
+      onProgress: (done, total) => setProgress(done / total),
+      signal: controller.signal
+    });
+    if (controller.signal.aborted) return;
+    setReport(result);
+    setProgress(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">FAIRNESS</span>AUDIT
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-800 font-mono text-xs text-gray-400 tracking-widest">
+          <span>SIMULATED LOTTERIES</span>
+          {RUN_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setRuns(option)}
+              className={`px-3 py-1 border transition-colors ${runs === option ? 'border-squid-pink text-white' : 'border-gray-700 hover:text-white'}`}
+            >
+              {option.toLocaleString()}
+            </button>
+          ))}
+          <Button onClick={runAudit} disabled={isRunning || players.length < 2} className="ml-auto text-xs py-2 px-4">
+            {isRunning ? `RUNNING ${Math.floor(progress * 100)}%` : 'RUN AUDIT'}
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4">
+          {!report ? (
+            <p className="text-gray-500 font-mono text-sm text-center py-12">
+              Runs the real draft rules on the current roster ({players.length} players) and checks that nobody
+              is favoured towards any team beyond what their gender group allows.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 font-mono text-xs">
+                <div className="bg-black/50 border border-gray-800 p-3">
+                  <div className="text-gray-500 tracking-widest">RUNS</div>
+                  <div className="text-white text-xl">{report.runs.toLocaleString()}</div>
+                </div>
+                <div className="bg-black/50 border border-gray-800 p-3">
+                  <div className="text-gray-500 tracking-widest">PLAYERS</div>
+                  <div className="text-white text-xl">{report.players.length}</div>
+                </div>
+                <div className="bg-black/50 border border-gray-800 p-3">
+                  <div className="text-gray-500 tracking-widest">χ² LIMIT (p&lt;0.001)</div>
+                  <div className="text-white text-xl">{report.criticalValue.toFixed(1)}</div>
+                </div>
+                <div className={`bg-black/50 border p-3 ${report.flaggedCount > 0 ? 'border-red-600' : 'border-green-700'}`}>
+                  <div className="text-gray-500 tracking-widest">FLAGGED</div>
+                  <div className={`text-xl ${report.flaggedCount > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {report.flaggedCount === 0 ? 'NONE' : report.flaggedCount}
+                  </div>
+                </div>
+              </div>
+
+              <table className="w-full font-mono text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-500 border-b border-gray-800">
+                    <th className="text-left p-2">PLAYER</th>
+                    <th className="text-left p-2">GROUP</th>
+                    {report.colors.map(color => (
+                      <th key={color} className="p-2">
+                        <span className={`inline-block w-2 h-2 mr-1 ${teamConfigs[color]?.bg ?? ''}`}></span>{color}
+                      </th>
+                    ))}
+                    <th className="text-right p-2">MAX Δ</th>
+                    <th className="text-right p-2">χ²</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.players.map(row => (
+                    <tr key={row.player.id} className={`border-b border-gray-900 ${row.flagged ? 'bg-red-900/30 text-red-200' : ''}`}>
+                      <td className="p-2 text-white truncate max-w-[160px]">{row.player.name}</td>
+                      <td className="p-2">{row.group}</td>
+                      {report.colors.map(color => (
+                        <td
+                          key={color}
+                          className="p-2 text-center"
+                          title={`expected ${formatShare(row.expectedShares[color])}`}
+                        >
+                          {formatShare(row.counts[color] / report.runs)}
+                        </td>
+                      ))}
+                      <td className="p-2 text-right">{formatShare(row.maxShareDeviation)}</td>
+                      <td className="p-2 text-right">{row.chiSquare.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Gender, TeamConfig } from '../types';
+import { FeasibilityReport } from '../services/lotteryFeasibility';
+
+// What the lottery will produce for this roster: team sizes, gender mix and helpers per team,
+// with the imbalances the host should know about before starting.
+export const FeasibilityPanel: React.FC<{
+  report: FeasibilityReport;
+  palette: TeamConfig[];
+}> = ({ report, palette }) => {
+  const sizes = report.teams.map(t => t.size);
+  const minSize = Math.min(...sizes);
+  const maxSize = Math.max(...sizes);
+
+  return (
+    <div className="bg-squid-card p-6 border-t-4 border-gray-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="font-display">LOTTERY FORECAST</h3>
+        <span className="text-[10px] font-mono text-gray-500 tracking-widest">
+          TEAM SIZE {minSize === maxSize ? minSize : `${minSize}–${maxSize}`} · {report.helpers} HELPER{report.helpers === 1 ? '' : 'S'}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-800 text-[10px]">
+              <th className="p-1 text-left">TEAM</th>
+              <th className="p-1 text-blue-400">M</th>
+              <th className="p-1 text-pink-400">F</th>
+              <th className="p-1 text-purple-400">NB</th>
+              <th className="p-1 text-yellow-400" title="Flexible players">0</th>
+              <th className="p-1 text-white">SIZE</th>
+              <th className="p-1 text-green-400" title="Expected helpers; helpers are drawn at random">~H</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.teams.map(team => {
+              const config = palette.find(c => c.color === team.color);
+              return (
+                <tr key={team.color} className="border-b border-gray-900 text-center text-gray-300">
+                  <td className="p-1 text-left">
+                    <span className="inline-block w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: config?.hex }}></span>
+                    <span className="text-white">{team.color}</span>
+                  </td>
+                  <td className="p-1">{team.genders[Gender.Male]}</td>
+                  <td className="p-1">{team.genders[Gender.Female]}</td>
+                  <td className="p-1">{team.genders[Gender.NonBinary]}</td>
+                  <td className="p-1">{team.flexible}</td>
+                  <td className={`p-1 font-bold ${team.size === minSize && minSize !== maxSize ? 'text-red-400' : 'text-white'}`}>{team.size}</td>
+                  <td className="p-1">{team.expectedHelpers.toFixed(1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {report.issues.length === 0 ? (
+        <p className="mt-4 text-[10px] font-mono text-green-400 tracking-widest">ROSTER SPLITS EVENLY.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {report.issues.map((issue, i) => (
+            <li
+              key={i}
+              className={`p-2 border-l-2 text-xs font-mono ${issue.level === 'error' ? 'border-red-500 bg-red-900/20 text-red-300' : 'border-yellow-400 bg-yellow-900/10 text-yellow-200'}`}
+            >
+              <span className="font-bold mr-2">{issue.level === 'error' ? 'BLOCKED' : 'WARNING'}</span>
+              {issue.message}
+              {issue.suggestion && <p className="mt-1 text-[10px] text-gray-400">→ {issue.suggestion}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
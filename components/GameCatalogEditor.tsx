@@ -0,0 +1,152 @@
+import React, { useRef } from 'react';
+import { GameDefinition, GameDivision } from '../types';
+import { downloadData } from '../utils';
+import { DIVISION_LABELS, createGame, sanitizeGames } from '../services/gameCatalog';
+
+const DIVISIONS = Object.keys(DIVISION_LABELS) as GameDivision[];
+
+const fieldClass = 'bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none';
+
+// The games of the event in play order. The match order follows it: each game takes its
+// division's players, one row per player per team, and the list repeats until everyone has played.
+export const GameCatalogEditor: React.FC<{
+  games: GameDefinition[];
+  onChange: (games: GameDefinition[]) => void;
+}> = ({ games, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const totalMinutes = games.reduce((sum, g) => sum + g.durationMinutes, 0);
+
+  const updateGame = (id: string, patch: Partial<GameDefinition>) =>
+    onChange(games.map(g => g.id === id ? { ...g, ...patch } : g));
+
+  const moveGame = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= games.length) return;
+    const next = [...games];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = sanitizeGames(JSON.parse(e.target?.result as string));
+        if (imported.length === 0) {
+          alert('No games found in this file.');
+        } else if (games.length === 0 || window.confirm(`Replace the ${games.length} current games with ${imported.length} from the file?`)) {
+          onChange(imported);
+        }
+      } catch (error) {
+        alert('Failed to load the game catalog. Invalid file format.');
+        console.error(error);
+      }
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-squid-card p-6 border-t-4 border-gray-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="font-display">GAME CATALOG</h3>
+        <div className="flex items-center gap-2 text-[10px] font-mono tracking-widest">
+          <span className="text-gray-500 mr-2">{games.length} GAME{games.length === 1 ? '' : 'S'} · {totalMinutes} MIN</span>
+          <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleImport} />
+          <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink">IMPORT</button>
+          <button
+            onClick={() => downloadData({ games }, `squid-games-${new Date().toISOString().slice(0, 10)}.json`)}
+            disabled={games.length === 0}
+            className="px-2 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            EXPORT
+          </button>
+        </div>
+      </div>
+
+      {games.length === 0 ? (
+        <p className="text-xs font-mono text-gray-500 mb-4">
+          No catalog: the match order alternates male and female rows, labelled Game 1, Game 2, …
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {games.map((game, index) => (
+            <li key={game.id} className="p-2 bg-black/40 border border-gray-800 font-mono text-xs space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-6 text-squid-pink font-bold">{index + 1}</span>
+                <input
+                  type="text"
+                  value={game.name}
+                  onChange={(e) => updateGame(game.id, { name: e.target.value })}
+                  onBlur={() => !game.name.trim() && updateGame(game.id, { name: `Game ${index + 1}` })}
+                  className={`flex-1 min-w-[140px] ${fieldClass}`}
+                  aria-label="Game name"
+                />
+                <select
+                  value={game.division}
+                  onChange={(e) => updateGame(game.id, { division: e.target.value as GameDivision })}
+                  className={fieldClass}
+                  aria-label="Division"
+                >
+                  {DIVISIONS.map(d => <option key={d} value={d}>{DIVISION_LABELS[d]}</option>)}
+                </select>
+                <select
+                  value={game.scoring}
+                  onChange={(e) => updateGame(game.id, { scoring: e.target.value as GameDefinition['scoring'] })}
+                  className={fieldClass}
+                  aria-label="Scoring"
+                >
+                  <option value="rank">PLACEMENT</option>
+                  <option value="points">POINTS</option>
+                </select>
+                <div className="flex gap-1 text-gray-400">
+                  <button onClick={() => moveGame(index, -1)} disabled={index === 0} className="px-1 border border-gray-700 disabled:opacity-30" aria-label="Move up">↑</button>
+                  <button onClick={() => moveGame(index, 1)} disabled={index === games.length - 1} className="px-1 border border-gray-700 disabled:opacity-30" aria-label="Move down">↓</button>
+                  <button onClick={() => onChange(games.filter(g => g.id !== game.id))} className="px-1 text-gray-600 hover:text-red-400" aria-label="Remove game">✕</button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 pl-8 text-[10px] text-gray-500 tracking-widest">
+                <label className="flex items-center gap-1">
+                  PER TEAM
+                  <input
+                    type="number"
+                    min={1}
+                    value={game.playersPerTeam}
+                    onChange={(e) => updateGame(game.id, { playersPerTeam: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className={`w-12 text-center ${fieldClass}`}
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  MIN
+                  <input
+                    type="number"
+                    min={0}
+                    value={game.durationMinutes}
+                    onChange={(e) => updateGame(game.id, { durationMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className={`w-14 text-center ${fieldClass}`}
+                  />
+                </label>
+                <input
+                  type="text"
+                  value={game.description}
+                  onChange={(e) => updateGame(game.id, { description: e.target.value })}
+                  placeholder="Description"
+                  className={`flex-1 min-w-[160px] tracking-normal ${fieldClass}`}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={() => onChange([...games, createGame({ name: `Game ${games.length + 1}` })])}
+        className="px-3 py-1 border border-squid-pink text-white text-[10px] font-mono tracking-widest hover:bg-squid-pink/20"
+      >
+        + ADD GAME
+      </button>
+    </div>
+  );
+};
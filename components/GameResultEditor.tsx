@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Team, Matchup, GameEntry, GameResult, ScoringRules, GameDefinition } from '../types';
+import { Button } from './Button';
+import { getEntryPoints } from '../services/gameResults';
+
+// Enter one game's result: a placement or raw points for every player in the Matchup row
+export const GameResultEditor: React.FC<{
+  matchup: Matchup;
+  teams: Team[];
+  existing: GameResult | null;
+  author: string;
+  rules: ScoringRules;
+  game?: GameDefinition; // catalog game for this row; sets the name and the default entry mode
+  onSave: (result: GameResult) => void;
+  onClear: (matchupId: number) => void;
+  onClose: () => void;
+}> = ({ matchup, teams, existing, author, rules, game, onSave, onClear, onClose }) => {
+  const seated = matchup.players.filter(p => p.player);
+  const [mode, setMode] = useState<GameResult['mode']>(existing?.mode ?? game?.scoring ?? 'rank');
+  const [values, setValues] = useState<Record<string, string>>(() => {
+    const initial: Record<string, string> = {};
+    existing?.entries.forEach(entry => {
+      const value = existing.mode === 'rank' ? entry.rank : entry.points;
+      if (value !== null) initial[entry.playerId] = String(value);
+    });
+    return initial;
+  });
+
+  const entries: GameEntry[] = seated.map(({ color, player }) => {
+    const raw = values[player!.id];
+    const parsed = raw === undefined || raw === '' ? null : Math.max(0, parseInt(raw, 10) || 0);
+    return {
+      color,
+      playerId: player!.id,
+      rank: mode === 'rank' ? parsed : null,
+      points: mode === 'points' ? parsed : null
+    };
+  });
+
+  const missing = entries.filter(e => (mode === 'rank' ? e.rank : e.points) === null).length;
+  const invalidRank = mode === 'rank' && entries.some(e => e.rank !== null && (e.rank < 1 || e.rank > entries.length));
+  const draft: GameResult = { matchupId: matchup.id, mode, entries, author: author.trim(), recordedAt: new Date().toISOString() };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-xl bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">GAME</span>#{matchup.id}
+            {game && <span className="block text-xs font-mono text-gray-400 normal-case tracking-normal">{game.name}</span>}
+          </h3>
+          <div className="flex text-[10px] font-mono tracking-widest">
+            {(['rank', 'points'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => { setMode(option); setValues({}); }}
+                className={`px-3 py-1 border ${mode === option ? 'border-squid-pink text-white bg-squid-pink/20' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+              >
+                {option === 'rank' ? 'PLACEMENT' : 'POINTS'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {seated.length === 0 && <p className="text-xs font-mono text-gray-500 text-center">No players in this game.</p>}
+          {seated.map(({ color, player }, index) => {
+            const team = teams.find(t => t.color === color);
+            return (
+              <div key={player!.id} className="flex items-center gap-3 bg-black/40 border border-gray-800 px-3 py-2">
+                <div className="w-2 h-8 shrink-0" style={{ backgroundColor: team?.hex }}></div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-white text-sm truncate">{player!.name}</div>
+                  <div className="text-[10px] font-mono uppercase" style={{ color: team?.hex }}>{color}</div>
+                </div>
+                <input
+                  type="number"
+                  min={mode === 'rank' ? 1 : 0}
+                  max={mode === 'rank' ? seated.length : undefined}
+                  value={values[player!.id] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [player!.id]: e.target.value }))}
+                  placeholder={mode === 'rank' ? '#' : 'PTS'}
+                  autoFocus={index === 0}
+                  className="w-20 bg-squid-dark border border-gray-700 px-2 py-1 text-center text-white font-mono focus:border-squid-pink focus:outline-none"
+                />
+                <span className="w-12 text-right text-xs font-mono text-yellow-400">
+                  {getEntryPoints(draft, entries[index], rules)} pt
+                </span>
+              </div>
+            );
+          })}
+          {invalidRank && (
+            <p className="text-xs font-mono text-red-400">Placements must be between 1 and {entries.length}.</p>
+          )}
+          {!invalidRank && missing > 0 && (
+            <p className="text-xs font-mono text-gray-500">{missing} player{missing === 1 ? '' : 's'} without a result will score 0.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 p-4 border-t border-gray-800">
+          {existing && (
+            <Button
+              variant="danger"
+              onClick={() => { if (window.confirm(`Clear the result of game #${matchup.id}?`)) onClear(matchup.id); }}
+              className="text-xs py-2 px-4 mr-auto"
+            >
+              CLEAR RESULT
+            </Button>
+          )}
+          <Button variant="secondary" onClick={onClose} className="text-xs py-2 px-4">CANCEL</Button>
+          <Button onClick={() => onSave(draft)} disabled={seated.length === 0 || invalidRank} className="text-xs py-2 px-4">
+            SAVE RESULT
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
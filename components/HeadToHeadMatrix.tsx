@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Matchup, Team } from '../types';
+import { downloadData } from '../utils';
+import { getHeadToHead, getMeetings, summarizeHeadToHead } from '../services/matchupRounds';
+
+// How often every two players from different teams share a row across the whole match order
+export const HeadToHeadMatrix: React.FC<{
+  teams: Team[];
+  matchups: Matchup[];
+  onClose: () => void;
+}> = ({ teams, matchups, onClose }) => {
+  const headToHead = useMemo(() => getHeadToHead(matchups), [matchups]);
+  const players = teams.flatMap(team => team.members.filter(m => !m.absent).map(player => ({ player, team })));
+  const { repeatedPairs, mostMeetings } = summarizeHeadToHead(headToHead);
+
+  const handleExport = () => {
+    const meetings = players.flatMap(({ player: a, team: teamA }, i) => players.slice(i + 1)
+      .filter(({ team: teamB }) => teamB.color !== teamA.color)
+      .map(({ player: b, team: teamB }) => ({
+        a: { team: teamA.color, name: a.name },
+        b: { team: teamB.color, name: b.name },
+        games: getMeetings(headToHead, a.id, b.id)
+      })));
+    downloadData({ meetings }, `squid-head-to-head-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">HEAD</span>TO HEAD
+          </h3>
+          <div className="flex items-center gap-4">
+            <button onClick={handleExport} className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink font-mono text-[10px] tracking-widest">EXPORT</button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-auto custom-scrollbar font-mono text-xs space-y-4">
+          <p className={repeatedPairs > 0 ? 'text-yellow-200' : 'text-gray-400'}>
+            {repeatedPairs === 0
+              ? 'No two players meet more than once.'
+              : `${repeatedPairs} pair${repeatedPairs === 1 ? '' : 's'} meet more than once, up to ${mostMeetings} times.`}
+          </p>
+
+          <table className="border-collapse text-[10px]">
+            <thead>
+              <tr>
+                <th></th>
+                {players.map(({ player, team }) => (
+                  <th key={player.id} className="p-1 align-bottom font-normal" style={{ color: team.hex }}>
+                    <span className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{player.name}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {players.map(({ player: rowPlayer, team: rowTeam }) => (
+                <tr key={rowPlayer.id}>
+                  <th className="pr-2 text-right font-normal whitespace-nowrap" style={{ color: rowTeam.hex }}>{rowPlayer.name}</th>
+                  {players.map(({ player, team }) => {
+                    if (team.color === rowTeam.color) {
+                      return <td key={player.id} className="w-6 h-6 border border-gray-900 bg-gray-900/60"></td>;
+                    }
+                    const count = getMeetings(headToHead, rowPlayer.id, player.id);
+                    return (
+                      <td
+                        key={player.id}
+                        className={`w-6 h-6 border border-gray-900 text-center ${count > 1 ? 'bg-squid-pink/40 text-white font-bold' : count === 1 ? 'bg-white/10 text-gray-300' : 'text-gray-700'}`}
+                        title={`${rowPlayer.name} vs ${player.name}: ${count}`}
+                      >
+                        {count || '·'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,24 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Player, Gender, Team } from '../types';
+import { Player, Gender, Team, TeamConfig, DrawRecord, GameResult, ScoringRules, DraftConstraint, GameDefinition } from '../types';
 import { Icons } from '../constants';
 import { Button } from './Button';
-import { downloadData } from '../utils';
+import { FairnessAudit } from './FairnessAudit';
+import { TeamSetup } from './TeamSetup';
+import { RosterImportWizard } from './RosterImportWizard';
+import { DuplicateMergeDialog } from './DuplicateMergeDialog';
+import { RosterTable } from './RosterTable';
+import { RosterTextParser } from './RosterTextParser';
+import { FeasibilityPanel } from './FeasibilityPanel';
+import { DraftConstraintsEditor } from './DraftConstraintsEditor';
+import { GameCatalogEditor } from './GameCatalogEditor';
+import { downloadData, paletteFromTeams, validatePalette } from '../utils';
+import { generateSeed, normalizeSeed } from '../services/random';
+import { playerFromJson } from '../services/rosterImport';
+import { DuplicateMatch, findDuplicates, normalizeName, resolveImport } from '../services/rosterDuplicates';
+import { analyzeFeasibility } from '../services/lotteryFeasibility';
+import { pruneConstraints } from '../services/draftConstraints';
 import logo from '../assets/logo.webp';
 import youngHee from '../assets/young-hee.webp';
 import cheolSu from '../assets/cheol-su.webp';
@@ -13,47 +27,58 @@ export const InputPhase: React.FC<{
   players: Player[];
   setPlayers: React.Dispatch<React.SetStateAction<Player[]>>;
   onStart: () => void;
-  onImportResults: (teams: Team[], matchups?: any[]) => void;
-}> = ({ players, setPlayers, onStart, onImportResults }) => {
+  onImportResults: (teams: Team[], matchups?: unknown, draw?: DrawRecord, games?: GameResult[], rules?: ScoringRules, catalog?: unknown, bracket?: unknown) => void;
+  seed: string;
+  onChangeSeed: (seed: string) => void;
+  onReplayFromSeed: (roster: Player[], draw: DrawRecord, palette?: TeamConfig[], catalog?: unknown) => void;
+  teamPalette: TeamConfig[];
+  onChangeTeamPalette: (palette: TeamConfig[]) => void;
+  constraints: DraftConstraint[];
+  onChangeConstraints: (constraints: DraftConstraint[]) => void;
+  ratingSpread: number | null;
+  onChangeRatingSpread: (spread: number | null) => void;
+  games: GameDefinition[];
+  onChangeGames: (games: GameDefinition[]) => void;
+}> = ({ players, setPlayers, onStart, onImportResults, seed, onChangeSeed, onReplayFromSeed, teamPalette, onChangeTeamPalette, constraints, onChangeConstraints, ratingSpread, onChangeRatingSpread, games, onChangeGames }) => {
   const [singleName, setSingleName] = useState('');
+  const [seedDraft, setSeedDraft] = useState<string | null>(null);
+  const [showAudit, setShowAudit] = useState(false);
+  // Spreadsheet text waiting in the import wizard (empty string = paste mode)
+  const [importDraft, setImportDraft] = useState<{ text: string; fileName?: string } | null>(null);
+  const [showTextParser, setShowTextParser] = useState(false);
+  // Import held back until the host settles its duplicates
+  const [pendingImport, setPendingImport] = useState<{ incoming: Player[]; matches: DuplicateMatch[] } | null>(null);
   const [singleGender, setSingleGender] = useState<Gender>(Gender.Male);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const paletteError = validatePalette(teamPalette);
+  const feasibility = useMemo(() => {
+    const colors = teamPalette.map(t => t.color);
+    return analyzeFeasibility(players, colors, pruneConstraints(constraints, players, colors));
+  }, [players, teamPalette, constraints]);
+  const feasibilityBlocked = feasibility.issues.some(issue => issue.level === 'error');
 
-  const parseFlexibleMarker = (raw: unknown): boolean => {
-    if (typeof raw === 'boolean') return raw;
-    if (typeof raw === 'number') return raw === 0;
-    if (typeof raw === 'string') {
-      const normalized = raw.replace(/["']/g, '').trim().toLowerCase();
-      if (!normalized) return false;
-
-      if (normalized === 'o' || normalized === 'zero') return true;
-
-      const numericValue = Number(normalized);
-      if (!Number.isNaN(numericValue)) {
-        return numericValue === 0;
-      }
-
-      if (['true', 'yes', 'y'].includes(normalized)) return true;
-      if (['false', 'no', 'n'].includes(normalized)) return false;
+  // Every roster import (JSON or spreadsheet) lands here; clashes go through the merge dialog
+  const importPlayers = (incoming: Player[]) => {
+    const matches = findDuplicates(players, incoming);
+    if (matches.length === 0) {
+      setPlayers(prev => [...prev, ...incoming]);
+      return;
     }
-    return false;
+    setPendingImport({ incoming, matches });
   };
 
-  const parseHelperMarker = (raw: unknown): boolean => {
-    if (typeof raw !== 'string') return false;
-    const normalized = raw.replace(/["']/g, '').trim().toLowerCase();
-    if (!normalized) return false;
-    const tokens = normalized.split(/[\s,;|/]+/).filter(Boolean);
-    return tokens.some(token => token === 'h' || token === 'helper' || token === 'help');
+  // Warnings from the forecast have to be acknowledged before the lottery starts
+  const handleStart = () => {
+    const warnings = feasibility.issues.filter(issue => issue.level === 'warning');
+    if (warnings.length > 0 && !window.confirm(`The teams will not be fully balanced:\n\n${warnings.map(w => `• ${w.message}`).join('\n')}\n\nStart the lottery anyway?`)) return;
+    onStart();
   };
 
-  const parsePlayerMarkers = (raw: unknown): { noGenderRestriction: boolean; isHelper: boolean } => ({
-    noGenderRestriction: parseFlexibleMarker(raw),
-    isHelper: parseHelperMarker(raw)
-  });
-
   const handleAddSingle = () => {
     if (!singleName.trim()) return;
+    const key = normalizeName(singleName);
+    const existing = players.find(p => normalizeName(p.name) === key);
+    if (existing && !window.confirm(`${existing.name} is already registered. Add another player with this name?`)) return;
     const newPlayer: Player = {
       id: uuidv4(),
       name: singleName.trim(),
@@ -66,8 +91,13 @@ export const InputPhase: React.FC<{
     setSingleName('');
   };
 
-  const handleClear = () => setPlayers([]);
-  const removePlayer = (id: string) => setPlayers(players.filter(p => p.id !== id));
+
+  const commitSeedDraft = () => {
+    if (seedDraft === null) return;
+    const next = normalizeSeed(seedDraft);
+    if (next && next !== seed) onChangeSeed(next);
+    setSeedDraft(null);
+  };
 
   const handleExportList = () => {
     downloadData(players, `squid-roster-${new Date().toISOString().slice(0, 10)}.json`);
@@ -86,8 +116,14 @@ export const InputPhase: React.FC<{
         
         // Check if it's a new Results file (Object with teams and matchups)
         if (jsonData && typeof jsonData === 'object' && !Array.isArray(jsonData) && 'teams' in jsonData && 'matchups' in jsonData) {
+          const draw = jsonData.draw as DrawRecord | undefined;
+          if (draw?.seed && window.confirm(`Results were drawn with seed ${draw.seed}. Replay the draw from this seed? (Cancel to load the saved results instead)`)) {
+             const roster = (jsonData.teams as Team[]).flatMap(team => team.members || []);
+             onReplayFromSeed(roster, draw, paletteFromTeams(jsonData.teams as Team[]), jsonData.catalog);
+             return;
+          }
           if (window.confirm("Game Results detected (with match order). Load results and skip lottery?")) {
-             onImportResults(jsonData.teams as Team[], jsonData.matchups as any[]);
+             onImportResults(jsonData.teams as Team[], jsonData.matchups, draw, jsonData.games as GameResult[] | undefined, jsonData.rules as ScoringRules | undefined, jsonData.catalog, jsonData.bracket);
           }
           return;
         }
@@ -102,60 +138,21 @@ export const InputPhase: React.FC<{
 
         // Check if it's a Player List (Array of Players)
         if (Array.isArray(jsonData)) {
-           const importedPlayers = jsonData.map((p: any) => {
-             const rawMarker = p.marker ?? p.noGenderRestriction ?? '';
-             const markerFlags = parsePlayerMarkers(rawMarker);
-             const noGenderRestriction = typeof p.noGenderRestriction === 'undefined'
-               ? markerFlags.noGenderRestriction
-               : parseFlexibleMarker(p.noGenderRestriction);
-             const helperSources = [p.isHelper, p.helper, rawMarker];
-             const isHelper = helperSources.some(src => {
-               if (typeof src === 'boolean') return src;
-               return parseHelperMarker(src);
-             }) || markerFlags.isHelper;
-
-             return {
-               id: p.id || uuidv4(),
-               name: p.name,
-               gender: p.gender || Gender.NonBinary,
-               score: p.score || 0,
-               noGenderRestriction,
-               isHelper
-             } as Player;
-           });
-           setPlayers(prev => [...prev, ...importedPlayers]);
+           const entries = jsonData.map(playerFromJson);
+           const unnamed = entries.flatMap((player, index) => player ? [] : [index + 1]);
+           if (unnamed.length > 0) {
+              alert(`Skipped ${unnamed.length} entr${unnamed.length === 1 ? 'y' : 'ies'} without a name (entry ${unnamed.join(', ')}).`);
+           }
+           const named = entries.filter((player): player is Player => player !== null);
+           if (named.length > 0) importPlayers(named);
            return;
         }
+        alert("Unrecognised JSON file. Use an exported roster or results file.");
+        return;
       } catch (jsonError) {
-        // If JSON fails, try CSV (Name, Gender)
-        try {
-          const lines = content.split('\n');
-          const csvPlayers: Player[] = [];
-          
-          lines.forEach(line => {
-             const [nameRaw, genderRaw, markerRaw] = line.split(',').map(s => s.trim());
-             const name = nameRaw;
-             if (name) {
-               let gender = Gender.NonBinary;
-               if (genderRaw) {
-                 const g = genderRaw.toUpperCase();
-                 if (g.startsWith('M')) gender = Gender.Male;
-                 else if (g.startsWith('F')) gender = Gender.Female;
-               }
-               const markers = parsePlayerMarkers(markerRaw);
-               csvPlayers.push({ id: uuidv4(), name, gender, score: 0, noGenderRestriction: markers.noGenderRestriction, isHelper: markers.isHelper });
-             }
-          });
-          
-          if (csvPlayers.length > 0) {
-            setPlayers(prev => [...prev, ...csvPlayers]);
-          } else {
-             alert("Could not parse file. Please use JSON or 'Name, Gender' CSV format.");
-          }
-        } catch (csvError) {
-          alert("Failed to read file.");
-        }
+        // Not JSON: treat it as spreadsheet text
       }
+      setImportDraft({ text: content, fileName: file.name });
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
@@ -242,57 +239,121 @@ export const InputPhase: React.FC<{
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".json,.csv"
+                accept=".json,.csv,.tsv,.txt"
                 onChange={handleFileUpload}
               />
               <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="w-full">
-                IMPORT FILE (JSON/CSV)
+                IMPORT FILE (JSON/CSV/TSV)
+              </Button>
+              <Button variant="secondary" onClick={() => setImportDraft({ text: '' })} className="w-full">
+                PASTE FROM SPREADSHEET
+              </Button>
+              <Button variant="secondary" onClick={() => setShowTextParser(true)} className="w-full">
+                PASTE MESSY TEXT
               </Button>
               <div className="h-px bg-gray-800 w-full my-2"></div>
               <Button variant="secondary" onClick={handleExportList} disabled={players.length === 0} className="w-full">
                 EXPORT ROSTER
               </Button>
               <p className="text-[10px] text-gray-500 font-mono text-center mt-2">
-                Supports: Roster Lists (.json/.csv) & Game Results (.json)
+                Supports: Roster Lists (.json/.csv/.tsv or pasted rows) & Game Results (.json)
               </p>
             </div>
           </div>
         </div>
 
         {/* Player List */}
-        {players.length > 0 && (
-          <div className="bg-squid-card p-6 border-t-4 border-gray-800">
-             <div className="flex justify-between items-center mb-4">
-              <h3 className="font-display">REGISTERED PLAYERS</h3>
-              <button onClick={handleClear} className="text-xs text-red-500 hover:text-red-400 font-mono tracking-wider hover:underline">
-                ELIMINATE ALL
-              </button>
-            </div>
-            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2 max-h-60 overflow-y-auto pr-2 custom-scrollbar">
-              {players.map(p => (
-                <div key={p.id} className="group relative bg-squid-dark border border-gray-800 p-2 flex items-center justify-between text-xs font-mono hover:border-squid-pink transition-colors">
-                  <span className="truncate">{p.name}</span>
-                  <span className={`ml-2 px-1.5 py-0.5 text-[10px] font-bold ${p.gender === 'M' ? 'text-blue-400' : p.gender === 'F' ? 'text-pink-400' : 'text-purple-400'}`}>
-                    {p.gender}
-                  </span>
-                  <button 
-                    onClick={() => removePlayer(p.id)}
-                    className="absolute inset-0 bg-red-900/90 hidden group-hover:flex items-center justify-center text-white font-bold tracking-widest"
-                  >
-                    ELIMINATE
-                  </button>
-                </div>
-              ))}
-            </div>
-          </div>
+        {players.length > 0 && <RosterTable players={players} onChange={setPlayers} />}
+
+        <TeamSetup palette={teamPalette} onChange={onChangeTeamPalette} error={paletteError} />
+
+        {players.length > 1 && (
+          <DraftConstraintsEditor
+            players={players}
+            palette={teamPalette}
+            constraints={constraints}
+            onChange={onChangeConstraints}
+            ratingSpread={ratingSpread}
+            onChangeRatingSpread={onChangeRatingSpread}
+          />
         )}
 
+        <GameCatalogEditor games={games} onChange={onChangeGames} />
+
+        {players.length > 0 && !paletteError && <FeasibilityPanel report={feasibility} palette={teamPalette} />}
+
+        {/* Draw Seed - published before the lottery so the draw can be replayed */}
+        <div className="flex flex-col md:flex-row items-center justify-center gap-3 font-mono text-xs text-gray-500 tracking-widest">
+          <span>DRAW SEED</span>
+          <input
+            type="text"
+            value={seedDraft ?? seed}
+            onChange={(e) => setSeedDraft(e.target.value)}
+            onBlur={commitSeedDraft}
+            onKeyDown={(e) => e.key === 'Enter' && commitSeedDraft()}
+            className="w-40 bg-squid-dark border border-gray-700 px-3 py-1 text-center text-white tracking-[0.3em] uppercase focus:border-squid-pink focus:outline-none"
+            aria-label="Draw seed"
+          />
+          <button
+            onClick={() => { setSeedDraft(null); onChangeSeed(generateSeed()); }}
+            className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors"
+          >
+            NEW SEED
+          </button>
+          <button
+            onClick={() => setShowAudit(true)}
+            disabled={players.length < 2 || Boolean(paletteError)}
+            className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            FAIRNESS AUDIT
+          </button>
+        </div>
+
         <div className="flex justify-center mt-4">
-          <Button onClick={onStart} disabled={players.length < 2} className="w-full md:w-auto text-xl py-6 shadow-xl">
+          <Button onClick={handleStart} disabled={players.length < 2 || Boolean(paletteError) || feasibilityBlocked} className="w-full md:w-auto text-xl py-6 shadow-xl">
             BEGIN DISTRIBUTION
           </Button>
         </div>
       </div>
+
+      {importDraft && (
+        <RosterImportWizard
+          initialText={importDraft.text}
+          fileName={importDraft.fileName}
+          onImport={(imported) => { importPlayers(imported); setImportDraft(null); }}
+          onClose={() => setImportDraft(null)}
+        />
+      )}
+      {showTextParser && (
+        <RosterTextParser
+          onImport={(parsed) => { importPlayers(parsed); setShowTextParser(false); }}
+          onClose={() => setShowTextParser(false)}
+        />
+      )}
+      {pendingImport && (
+        <DuplicateMergeDialog
+          matches={pendingImport.matches}
+          newCount={pendingImport.incoming.length - pendingImport.matches.length}
+          onApply={(decisions) => {
+            setPlayers(prev => resolveImport(prev, pendingImport.incoming, pendingImport.matches, decisions));
+            setPendingImport(null);
+          }}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {showAudit && (
+        <FairnessAudit
+          players={players}
+          palette={teamPalette}
+          seed={seed}
+          draftOptions={{
+            // The same rules startLottery hands to the live draw
+            constraints: pruneConstraints(constraints, players, teamPalette.map(t => t.color)),
+            ratingSpread: players.some(p => p.rating !== undefined) ? ratingSpread : null
+          }}
+          onClose={() => setShowAudit(false)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Bracket, BracketFormat, BracketMatch, ScoringRules, Team, TeamColor } from '../types';
+import { Icons } from '../constants';
+import { formatAverageScore } from '../utils';
+import { getRankingLabel, rankTeams } from '../services/scoringRules';
+import { ResolvedMatch, createBracket, getBracketRoundLabel, resolveBracket, setBracketWinner } from '../services/knockoutBracket';
+
+const SIDES: Array<{ side: BracketMatch['side']; title: string }> = [
+  { side: 'winners', title: 'WINNERS BRACKET' },
+  { side: 'losers', title: 'LOSERS BRACKET' },
+  { side: 'final', title: 'GRAND FINAL' }
+];
+
+// Team-vs-team finale: seed it from the Scoreboard, then click the winner of each match to move the bracket on
+export const KnockoutBracket: React.FC<{
+  teams: Team[];
+  rules: ScoringRules;
+  bracket: Bracket | null;
+  onChange: (bracket: Bracket | null) => void;
+  onClose: () => void;
+}> = ({ teams, rules, bracket, onChange, onClose }) => {
+  const contenders = teams.filter(t => t.members.some(m => !m.absent));
+  const { standings } = rankTeams(contenders, rules);
+  const [format, setFormat] = useState<BracketFormat>('single');
+  const [size, setSize] = useState(contenders.length);
+  const seeded = standings.slice(0, Math.max(2, size));
+
+  const resolved = bracket ? resolveBracket(bracket) : null;
+  const teamOf = (color: TeamColor | null) => teams.find(t => t.color === color);
+  const seedOf = (color: TeamColor | null) => bracket && color ? bracket.seeds.indexOf(color) + 1 : 0;
+
+  const handlePick = (entry: ResolvedMatch, color: TeamColor) => {
+    if (!bracket || (entry.status !== 'ready' && entry.status !== 'decided')) return;
+    const winner = entry.winner === color ? null : color;
+    if (entry.status === 'decided' && !window.confirm('Change this result? Later results that depend on it are cleared.')) return;
+    onChange(setBracketWinner(bracket, entry.match.id, winner));
+  };
+
+  const renderSlot = (entry: ResolvedMatch, slot: 0 | 1) => {
+    const color = entry.teams[slot];
+    const team = teamOf(color);
+    const isWinner = Boolean(color) && entry.winner === color && entry.status === 'decided';
+    const isLoser = Boolean(color) && entry.loser === color;
+    const canPick = Boolean(color) && (entry.status === 'ready' || entry.status === 'decided');
+    return (
+      <button
+        onClick={() => color && handlePick(entry, color)}
+        disabled={!canPick}
+        className={`w-full flex items-center gap-2 px-2 py-1.5 text-left border-l-4 transition-colors
+          ${isWinner ? 'border-squid-pink bg-squid-pink/20 text-white font-bold' : 'border-transparent'}
+          ${isLoser ? 'text-gray-600 line-through' : ''}
+          ${!isWinner && !isLoser ? 'text-gray-300' : ''}
+          ${canPick && !isWinner ? 'hover:bg-white/5' : ''}
+          disabled:cursor-default`}
+      >
+        {color ? (
+          <>
+            <span className="w-4 text-[10px] text-gray-500">{seedOf(color)}</span>
+            <span className={`w-2 h-2 rounded-full shrink-0 ${team?.bg ?? 'bg-gray-600'}`}></span>
+            <span className="truncate uppercase">{color}</span>
+            {isWinner && <Icons.Circle className="w-3 h-3 ml-auto text-squid-pink shrink-0" />}
+          </>
+        ) : (
+          <span className="text-gray-700 italic">{entry.pending[slot] ? 'waiting…' : 'bye'}</span>
+        )}
+      </button>
+    );
+  };
+
+  const renderMatch = (entry: ResolvedMatch) => (
+    <div
+      key={entry.match.id}
+      className={`w-44 bg-black/60 border font-mono text-xs
+        ${entry.status === 'ready' ? 'border-squid-pink shadow-[0_0_12px_rgba(237,27,118,0.4)]' : 'border-gray-800'}
+        ${entry.status === 'bye' || entry.status === 'skipped' ? 'opacity-40' : ''}`}
+    >
+      <div className="px-2 py-0.5 text-[9px] tracking-widest text-gray-600 border-b border-gray-800 flex justify-between">
+        <span>{entry.match.id}</span>
+        <span>{entry.status === 'skipped' ? 'NOT NEEDED' : entry.status === 'ready' ? 'PLAY NOW' : ''}</span>
+      </div>
+      {renderSlot(entry, 0)}
+      <div className="border-t border-gray-900"></div>
+      {renderSlot(entry, 1)}
+    </div>
+  );
+
+  const champion = resolved?.champion ?? null;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-7xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">KNOCKOUT</span>FINALE
+            {bracket && (
+              <span className="ml-4 text-[10px] font-mono text-gray-500 tracking-[0.2em] align-middle">
+                {bracket.format === 'double' ? 'DOUBLE' : 'SINGLE'} ELIMINATION · {bracket.seeds.length} TEAMS
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-4">
+            {bracket && (
+              <button
+                onClick={() => window.confirm('Discard this bracket and its results?') && onChange(null)}
+                className="px-3 py-1 border border-gray-700 text-gray-500 hover:text-red-400 font-mono text-[10px] tracking-widest"
+              >
+                NEW BRACKET
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-auto custom-scrollbar space-y-6 font-mono text-xs">
+          {!bracket ? (
+            contenders.length < 2 ? (
+              <p className="text-gray-500">A knockout needs at least two teams with players.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-4 text-[10px] tracking-widest text-gray-400">
+                  <label className="flex items-center gap-2">
+                    FORMAT
+                    <select value={format} onChange={(e) => setFormat(e.target.value as BracketFormat)} className="bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none">
+                      <option value="single">SINGLE ELIMINATION</option>
+                      <option value="double">DOUBLE ELIMINATION</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    TEAMS
+                    <select value={size} onChange={(e) => setSize(Number(e.target.value))} className="bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none">
+                      {Array.from({ length: contenders.length - 1 }, (_, i) => i + 2).map(n => (
+                        <option key={n} value={n}>{n === contenders.length ? `ALL ${n}` : `TOP ${n}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={() => onChange(createBracket(seeded.map(s => s.team.color), format))}
+                    className="ml-auto px-3 py-1 border border-squid-pink text-white hover:bg-squid-pink/20"
+                  >
+                    CREATE BRACKET
+                  </button>
+                </div>
+                <div>
+                  <div className="text-[10px] tracking-widest text-gray-500 mb-2">SEEDS · {getRankingLabel(rules).toUpperCase()}</div>
+                  <ol className="space-y-1">
+                    {seeded.map(({ team, score }, index) => (
+                      <li key={team.color} className="flex items-center gap-3 p-2 bg-black/40 border border-gray-800">
+                        <span className="w-6 text-squid-pink font-bold">{index + 1}</span>
+                        <span className={`w-3 h-3 rounded-full ${team.bg}`}></span>
+                        <span className="uppercase text-white flex-1">{team.color}</span>
+                        <span className="text-gray-400">{formatAverageScore(score)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                  {seeded.length < 2 ** Math.ceil(Math.log2(seeded.length)) && (
+                    <p className="mt-2 text-gray-500">The top seeds get a bye through the first round.</p>
+                  )}
+                </div>
+              </>
+            )
+          ) : (
+            <>
+              {champion && (
+                <div className="flex flex-col items-center gap-3 py-6 border-y-2 border-squid-pink bg-black/40">
+                  <div className="flex gap-4 text-squid-pink">
+                    <Icons.Circle className="w-8 h-8" />
+                    <Icons.Triangle className="w-8 h-8" />
+                    <Icons.Square className="w-8 h-8" />
+                  </div>
+                  <div className="font-display text-4xl tracking-[0.3em] uppercase" style={{ color: teamOf(champion)?.hex }}>{champion}</div>
+                  <div className="text-[10px] tracking-[0.4em] text-gray-400">LAST TEAM STANDING</div>
+                </div>
+              )}
+
+              {SIDES.map(({ side, title }) => {
+                const entries = resolved!.matches.filter(r => r.match.side === side);
+                if (entries.length === 0) return null;
+                const rounds = Array.from(new Set(entries.map(r => r.match.round))).sort((a, b) => a - b);
+                return (
+                  <div key={side}>
+                    {bracket.format === 'double' && <div className="text-squid-pink tracking-widest mb-3">{title}</div>}
+                    <div className="flex gap-6 overflow-x-auto custom-scrollbar pb-2">
+                      {rounds.map(round => (
+                        <div key={round} className="flex flex-col shrink-0">
+                          <div className="text-[10px] tracking-widest text-gray-500 mb-2 text-center">{getBracketRoundLabel(bracket, side, round)}</div>
+                          <div className="flex-1 flex flex-col justify-around gap-4">
+                            {entries.filter(r => r.match.round === round).map(renderMatch)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <p className="text-gray-600">Click a team to enter it as the winner; click it again to take the result back.</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
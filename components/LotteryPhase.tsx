@@ -1,72 +1,31 @@
 import React, { useState, useEffect, useRef, useMemo, useLayoutEffect, useCallback } from 'react';
-import { Player, Team, TeamColor, Gender } from '../types';
-import { TEAM_CONFIG } from '../constants';
+import { Player, Team, TeamColor, Gender, LotteryCheckpoint, DraftConstraint } from '../types';
 import { Button } from './Button';
+import { getTeamConfigMap } from '../utils';
+import { deriveRandom, shuffle } from '../services/random';
+import { buildGenderTargets, getTeamAverageRatings, pickBatch as pickDraftBatch, runDraft } from '../services/lotteryDraft';
+import { CONSTRAINT_LABELS, findConstraintViolations } from '../services/draftConstraints';
 
 const HUD_TOP_OFFSET = 80; // keeps HUD from covering the floating logo layer
 
-const TEAM_COLORS_LIST: TeamColor[] = Object.values(TeamColor);
-const GENDER_KEYS: Gender[] = [Gender.Male, Gender.Female, Gender.NonBinary];
-
-const createGenderCount = (): Record<Gender, number> => ({
-    [Gender.Male]: 0,
-    [Gender.Female]: 0,
-    [Gender.NonBinary]: 0
-});
-
 const rotateArray = <T,>(arr: T[], offset: number): T[] => {
     if (arr.length === 0) return [];
     const normalized = ((offset % arr.length) + arr.length) % arr.length;
     return [...arr.slice(normalized), ...arr.slice(0, normalized)];
 };
 
-const shufflePlayers = (arr: Player[]): Player[] => [...arr].sort(() => Math.random() - 0.5);
-
-// Build gender targets only from players WITH gender restrictions (not "0" marked)
-// This determines how many M/F/NB each team should have (excluding flexible players)
-const buildGenderTargets = (players: Player[]): Record<TeamColor, Record<Gender, number>> => {
-    const template = TEAM_COLORS_LIST.reduce((acc, color) => {
-        acc[color] = createGenderCount();
-        return acc;
-    }, {} as Record<TeamColor, Record<Gender, number>>);
-
-    const colorCount = TEAM_COLORS_LIST.length;
-    if (colorCount === 0) return template;
-
-    // Only count players WITHOUT noGenderRestriction for gender distribution
-    const genderRestrictedPlayers = players.filter(p => !p.noGenderRestriction);
-    
-    const genderTotals = genderRestrictedPlayers.reduce((acc, player) => {
-        acc[player.gender] = (acc[player.gender] ?? 0) + 1;
-        return acc;
-    }, createGenderCount());
-
-    GENDER_KEYS.forEach(gender => {
-        const total = genderTotals[gender];
-        if (total === 0) {
-            TEAM_COLORS_LIST.forEach(color => {
-                template[color][gender] = 0;
-            });
-            return;
-        }
-
-        const base = Math.floor(total / colorCount);
-        const remainder = total % colorCount;
-        TEAM_COLORS_LIST.forEach((color, idx) => {
-            template[color][gender] = base + (idx < remainder ? 1 : 0);
-        });
-    });
-
-    return template;
-};
-
-
 export const LotteryPhase: React.FC<{
   players: Player[]; // All registered players
   initialTeams: Team[];
   onComplete: (teams: Team[]) => void;
   isMuted: boolean;
-}> = ({ players, initialTeams, onComplete, isMuted }) => {
+  seed: string; // Published draw seed; each team's picks come from its own stream of it
+  isReplay?: boolean;
+  checkpoint?: LotteryCheckpoint | null; // progress saved before a reload, offered on the resume screen
+  onCheckpoint?: (checkpoint: LotteryCheckpoint | null) => void;
+  constraints?: DraftConstraint[]; // keep-apart / keep-together / pin rules from Setup
+  ratingSpread?: number | null; // keep team average ratings within this gap
+}> = ({ players, initialTeams, onComplete, isMuted, seed, isReplay = false, checkpoint = null, onCheckpoint, constraints = [], ratingSpread = null }) => {
   // Logical pools
   const [unassignedPlayers, setUnassignedPlayers] = useState<Player[]>(players);
   const [teams, setTeams] = useState<Team[]>(initialTeams);
@@ -76,7 +35,7 @@ export const LotteryPhase: React.FC<{
 
   // Animation State
   const [currentTeamColor, setCurrentTeamColor] = useState<TeamColor | null>(null);
-    const [teamQueue, setTeamQueue] = useState<TeamColor[]>(TEAM_COLORS_LIST);
+    const [teamQueue, setTeamQueue] = useState<TeamColor[]>(() => initialTeams.map(t => t.color));
   const [phase, setPhase] = useState<'IDLE' | 'FIRST_TEAM_INTRO' | 'DRAFTING' | 'SUMMARY' | 'NEXT_TEAM_PREVIEW' | 'LAST_TEAM_ASSIGN' | 'FINAL_RECAP'>('IDLE');
   const [lastTeamInfo, setLastTeamInfo] = useState<{ color: TeamColor; members: Player[] } | null>(null);
   const [introTeamColor, setIntroTeamColor] = useState<TeamColor | null>(null);
@@ -91,7 +50,18 @@ export const LotteryPhase: React.FC<{
   const [nextTeamColor, setNextTeamColor] = useState<TeamColor | null>(null);
   const [completedTeams, setCompletedTeams] = useState<Team[]>([]);
 
-    const genderTargets = useMemo(() => buildGenderTargets(players), [players]);
+  // Only offer a checkpoint from this draw: same seed, same teams, and every drafted player still registered
+  const [resumeOffer, setResumeOffer] = useState<LotteryCheckpoint | null>(() => {
+    if (!checkpoint || checkpoint.seed !== seed) return null;
+    const sameTeams = checkpoint.teams.length === initialTeams.length
+      && checkpoint.teams.every((t, i) => t.color === initialTeams[i].color);
+    const rosterIds = new Set(players.map(p => p.id));
+    const drafted = checkpoint.teams.flatMap(t => t.members);
+    return sameTeams && drafted.length > 0 && drafted.every(m => rosterIds.has(m.id)) ? checkpoint : null;
+  });
+
+    const teamConfigs = useMemo(() => getTeamConfigMap(initialTeams), [initialTeams]);
+    const genderTargets = useMemo(() => buildGenderTargets(players, initialTeams.map(t => t.color)), [players, initialTeams]);
     
     // Count total flexible players
     const flexiblePlayerCount = useMemo(() => players.filter(p => p.noGenderRestriction).length, [players]);
@@ -124,77 +94,39 @@ export const LotteryPhase: React.FC<{
     setAssignedMap(map);
   }, [players, initialTeams]);
 
-  // --- Logic: Pick Players ---
-  // Flexible ("0" marked) players should go to teams that are SHORT on players
-  // to fill empty slots in matchups
-    const pickBatch = (pool: Player[], color: TeamColor, snapshotTeams: Team[]): Player[] => {
-        const targetByGender = genderTargets[color] || createGenderCount();
-        
-        // Calculate base team size from gender targets (without flexible)
-        const genderBasedSize = (Object.values(targetByGender) as number[]).reduce((sum, count) => sum + count, 0);
-        
-        const currentTeam = snapshotTeams.find(t => t.color === color);
-        const assignedMembers = currentTeam?.members ?? [];
-
-        // Count already assigned by gender (excluding flexible players)
-        const assignedCounts = assignedMembers.reduce((acc, member) => {
-            if (!member.noGenderRestriction) {
-                acc[member.gender] = (acc[member.gender] ?? 0) + 1;
-            }
-            return acc;
-        }, createGenderCount());
-
-        const usedIds = new Set<string>();
-        let batch: Player[] = [];
-
-        // First, pick gender-restricted players to meet gender targets
-        const neededCounts = GENDER_KEYS.reduce((acc, gender) => {
-            acc[gender] = Math.max((targetByGender[gender] ?? 0) - (assignedCounts[gender] ?? 0), 0);
-            return acc;
-        }, createGenderCount());
-
-        GENDER_KEYS.forEach(gender => {
-            const needed = neededCounts[gender];
-            if (needed <= 0) return;
-            // Only pick non-flexible players for gender slots
-            const available = pool.filter(p => p.gender === gender && !usedIds.has(p.id) && !p.noGenderRestriction);
-            const picks = shufflePlayers(available).slice(0, needed);
-            picks.forEach(player => {
-                usedIds.add(player.id);
-                assignedCounts[gender] = (assignedCounts[gender] ?? 0) + 1;
-            });
-            batch = batch.concat(picks);
-        });
+  // Each team draws from its own stream of the seed, so START, AUTO and skip all pick the same players
+  const pickBatch = (pool: Player[], color: TeamColor, snapshotTeams: Team[]): Player[] =>
+    pickDraftBatch(pool, color, snapshotTeams, genderTargets, deriveRandom(seed, 'lottery', color), { constraints, ratingSpread });
 
-        // Calculate how many flexible players THIS team should get
-        // Flexible players go to teams that will be SHORT (缺人)
-        // We need to figure out if this team needs flexible players to match the max team size
-        
-        // Calculate what each team's gender-based size is
-        const teamGenderSizes = TEAM_COLORS_LIST.map(c => {
-            const target = genderTargets[c] || createGenderCount();
-            return (Object.values(target) as number[]).reduce((sum, count) => sum + count, 0);
-        });
-        const maxGenderBasedSize = Math.max(...teamGenderSizes);
-        
-        // This team's shortage compared to max
-        const thisTeamShortage = maxGenderBasedSize - genderBasedSize;
-        
-        // How many flexible players are available?
-        const flexibleInPool = pool.filter(p => p.noGenderRestriction && !usedIds.has(p.id));
-        
-        // Assign flexible players to fill the shortage
-        if (thisTeamShortage > 0 && flexibleInPool.length > 0) {
-            const flexibleNeeded = Math.min(thisTeamShortage, flexibleInPool.length);
-            const flexiblePicks = shufflePlayers(flexibleInPool).slice(0, flexibleNeeded);
-            flexiblePicks.forEach(player => {
-                usedIds.add(player.id);
-            });
-            batch = batch.concat(flexiblePicks);
-        }
+  const saveCheckpoint = (snapshot: Team[]) => {
+    onCheckpoint?.({ seed, teams: snapshot, savedAt: new Date().toISOString() });
+  };
+
+  const resumeDraft = () => {
+    if (!resumeOffer) return;
+    const restoredTeams = resumeOffer.teams;
+    const map: Record<string, TeamColor> = {};
+    restoredTeams.forEach(t => t.members.forEach(m => { map[m.id] = t.color; }));
+    const remaining = players.filter(p => !map[p.id]);
+    setTeams(restoredTeams);
+    setAssignedMap(map);
+    setUnassignedPlayers(remaining);
+    setCompletedTeams(restoredTeams.filter(t => t.members.length > 0));
+    setResumeOffer(null);
+
+    const remainingColors = teamQueue.filter(c => restoredTeams.find(t => t.color === c)?.members.length === 0);
+    if (remaining.length === 0 || remainingColors.length === 0) {
+      setPhase('FINAL_RECAP');
+    } else {
+      setNextTeamColor(remainingColors[0]);
+      setPhase('NEXT_TEAM_PREVIEW');
+    }
+  };
 
-        return batch;
-    };
+  const restartDraft = () => {
+    onCheckpoint?.(null);
+    setResumeOffer(null);
+  };
 
   const startNextTeam = () => {
     if (unassignedPlayers.length === 0) {
@@ -316,7 +248,7 @@ export const LotteryPhase: React.FC<{
               
               // Randomize how many to show (creates more dynamic flickering)
               const flickerCount = Math.max(1, Math.floor(neededDecoys * (0.5 + Math.random() * 0.5)));
-              const shuffled = [...available].sort(() => Math.random() - 0.5);
+              const shuffled = shuffle<Player>(available);
               const nextDecoys = shuffled.slice(0, flickerCount).map(p => p.id);
               
               setDecoyIds(nextDecoys);
@@ -375,7 +307,7 @@ export const LotteryPhase: React.FC<{
                 if (remainingAfterThis > 1) {
                   const lockedIds = new Set(draftQueue.slice(0, currentLockIndex).map(p => p.id));
                   const available = unassignedPlayers.filter(p => !lockedIds.has(p.id));
-                  const shuffled = [...available].sort(() => Math.random() - 0.5);
+                  const shuffled = shuffle<Player>(available);
                   setDecoyIds(shuffled.slice(0, remainingAfterThis).map(p => p.id));
                   await new Promise(r => setTimeout(r, 300));
                 }
@@ -439,6 +371,7 @@ export const LotteryPhase: React.FC<{
     if (unassignedPlayers.length === 0) {
       // Show final recap before completing
       setTeams(newTeams);
+      saveCheckpoint(newTeams);
       setPhase('FINAL_RECAP');
     } else {
       // Find next team color for preview
@@ -452,6 +385,7 @@ export const LotteryPhase: React.FC<{
         // Auto-assign all remaining players to the last team
         newTeams = newTeams.map(t => t.color === lastTeamColor ? { ...t, members: remainingPlayers } : t);
         setTeams(newTeams);
+        saveCheckpoint(newTeams);
         
         // Update visual map so Purple tiles light up on the grid
         setAssignedMap(prev => {
@@ -484,6 +418,7 @@ export const LotteryPhase: React.FC<{
         }, 1200);
       } else if (remainingColors.length > 1) {
         setTeams(newTeams);
+        saveCheckpoint(newTeams);
         setNextTeamColor(remainingColors[0]);
         setCurrentTeamColor(null);
         setLockedPlayers([]);
@@ -491,6 +426,7 @@ export const LotteryPhase: React.FC<{
         // User will click BEGIN SELECTION to proceed
       } else {
         setTeams(newTeams);
+        saveCheckpoint(newTeams);
         setCurrentTeamColor(null);
         setLockedPlayers([]);
         setPhase('IDLE');
@@ -546,17 +482,9 @@ export const LotteryPhase: React.FC<{
   };
 
   const quickFinish = () => {
-      let currentPool = [...unassignedPlayers];
-      let currentTeams = [...teams];
-      const remainingColors = teamQueue.filter(c => currentTeams.find(t => t.color === c)?.members.length === 0);
-      remainingColors.forEach((color, index) => {
-         const isLast = index === remainingColors.length - 1;
-         const winners = isLast ? currentPool : pickBatch(currentPool, color, currentTeams);
-         currentTeams = currentTeams.map(t => t.color === color ? { ...t, members: winners } : t);
-         const winnerIds = new Set(winners.map(w => w.id));
-         currentPool = currentPool.filter(p => !winnerIds.has(p.id));
-      });
+      const currentTeams = runDraft(players, teams, color => deriveRandom(seed, 'lottery', color), teamQueue, { constraints, ratingSpread });
       setTeams(currentTeams);
+      saveCheckpoint(currentTeams);
       setUnassignedPlayers([]);
       
       // Update assigned map for all players
@@ -572,6 +500,24 @@ export const LotteryPhase: React.FC<{
       setPhase('FINAL_RECAP');
   };
 
+  // Draft rules the finished teams do not follow, shown on the recap
+  const constraintViolations = useMemo(
+    () => phase === 'FINAL_RECAP' ? findConstraintViolations(teams, constraints) : [],
+    [phase, teams, constraints]
+  );
+
+  const teamRatings = useMemo(() => phase === 'FINAL_RECAP' ? getTeamAverageRatings(teams) : null, [phase, teams]);
+
+  // Head count per department on each team, largest first; null when nobody has a department
+  const departmentMix = useMemo(() => {
+    if (phase !== 'FINAL_RECAP' || !players.some(p => p.department)) return null;
+    return Object.fromEntries(teams.map(team => {
+      const counts = new Map<string, number>();
+      team.members.forEach(m => { if (m.department) counts.set(m.department, (counts.get(m.department) ?? 0) + 1); });
+      return [team.color, [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))];
+    })) as Record<TeamColor, [string, number][]>;
+  }, [phase, teams, players]);
+
   // Sort players for the grid (stable order)
   const sortedPlayers = useMemo(() => {
       return [...players].sort((a, b) => a.name.localeCompare(b.name));
@@ -789,7 +735,7 @@ export const LotteryPhase: React.FC<{
                         }
                         
                         if (isAssigned) {
-                            const config = TEAM_CONFIG[teamColor];
+                            const config = teamConfigs[teamColor];
                             
                             if (isCurrentTeam) {
                               // Current drafting team - full color, normal size
@@ -816,7 +762,7 @@ export const LotteryPhase: React.FC<{
                             }
                         } else if (isDecoy && currentTeamColor) {
                             // Flickering candidates - use current team color
-                            const teamConfig = TEAM_CONFIG[currentTeamColor];
+                            const teamConfig = teamConfigs[currentTeamColor];
                             bgStyle = { 
                               backgroundColor: teamConfig.hex,
                               boxShadow: `0 0 30px ${teamConfig.hex}, 0 0 60px ${teamConfig.hex}80`
@@ -891,14 +837,18 @@ export const LotteryPhase: React.FC<{
                <div className="text-white font-display text-4xl tracking-widest drop-shadow-md">
                    <span className="text-squid-pink">{unassignedPlayers.length}</span><span className="text-gray-500 mx-2">/</span>{players.length}
                </div>
+               <div className="text-gray-500 text-[10px] font-mono tracking-[0.2em] mt-1">
+                   SEED <span className="text-white tracking-[0.3em]">{seed}</span>
+                   {isReplay && <span className="ml-2 px-1 border border-squid-pink text-squid-pink">REPLAY</span>}
+               </div>
             </div>
 
             <div className="flex items-center gap-4 pointer-events-auto">
                {phase === 'DRAFTING' && currentTeamColor ? (
-                   <div className="flex items-center gap-4 px-8 py-3 bg-black/80 backdrop-blur border-l-4 border-r-4 rounded-sm" style={{ borderColor: TEAM_CONFIG[currentTeamColor].hex }}>
+                   <div className="flex items-center gap-4 px-8 py-3 bg-black/80 backdrop-blur border-l-4 border-r-4 rounded-sm" style={{ borderColor: teamConfigs[currentTeamColor].hex }}>
                       <div className="flex flex-col items-end">
                           <span className="text-[10px] text-gray-400 uppercase tracking-widest mb-1">RECRUITING</span>
-                          <span className="text-3xl font-display uppercase leading-none" style={{ color: TEAM_CONFIG[currentTeamColor].hex }}>
+                          <span className="text-3xl font-display uppercase leading-none" style={{ color: teamConfigs[currentTeamColor].hex }}>
                              {currentTeamColor}
                           </span>
                       </div>
@@ -933,7 +883,7 @@ export const LotteryPhase: React.FC<{
                 <div className="w-full py-6 flex flex-col items-center relative">
                     <div 
                       className="w-20 h-20 rotate-45 flex items-center justify-center border-4 shadow-[0_0_40px_currentColor] mb-4"
-                      style={{ backgroundColor: TEAM_CONFIG[currentTeamColor].hex, borderColor: 'white', color: TEAM_CONFIG[currentTeamColor].hex }}
+                      style={{ backgroundColor: teamConfigs[currentTeamColor].hex, borderColor: 'white', color: teamConfigs[currentTeamColor].hex }}
                     >
                       <span className="-rotate-45 text-white font-display text-2xl uppercase">
                         {currentTeamColor.charAt(0)}
@@ -941,7 +891,7 @@ export const LotteryPhase: React.FC<{
                     </div>
                     <h1 
                       className="font-display text-4xl md:text-5xl uppercase tracking-[0.3em]"
-                      style={{ color: TEAM_CONFIG[currentTeamColor].hex }}
+                      style={{ color: teamConfigs[currentTeamColor].hex }}
                     >
                       TEAM {currentTeamColor}
                     </h1>
@@ -960,7 +910,7 @@ export const LotteryPhase: React.FC<{
                                 {/* Player Number Badge */}
                                 <div 
                                   className="w-12 h-12 rotate-45 flex-shrink-0 flex items-center justify-center border-2"
-                                  style={{ backgroundColor: TEAM_CONFIG[currentTeamColor].hex, borderColor: 'rgba(255,255,255,0.5)' }}
+                                  style={{ backgroundColor: teamConfigs[currentTeamColor].hex, borderColor: 'rgba(255,255,255,0.5)' }}
                                 >
                                   <span className="-rotate-45 text-white font-mono text-sm font-bold">
                                     {String(sortedPlayers.findIndex(sp => sp.id === p.id) + 1).padStart(3, '0')}
@@ -987,10 +937,10 @@ export const LotteryPhase: React.FC<{
                        onClick={confirmTeam} 
                        className="px-16 py-4 text-xl border-2 bg-transparent hover:text-black transition-all"
                        style={{ 
-                         borderColor: TEAM_CONFIG[currentTeamColor].hex, 
-                         color: TEAM_CONFIG[currentTeamColor].hex,
+                         borderColor: teamConfigs[currentTeamColor].hex, 
+                         color: teamConfigs[currentTeamColor].hex,
                        }}
-                       onMouseEnter={(e) => e.currentTarget.style.backgroundColor = TEAM_CONFIG[currentTeamColor].hex}
+                       onMouseEnter={(e) => e.currentTarget.style.backgroundColor = teamConfigs[currentTeamColor].hex}
                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
                      >
                         CONFIRM TEAM
@@ -1015,13 +965,13 @@ export const LotteryPhase: React.FC<{
                <div 
                  className="absolute w-[800px] h-[800px] rounded-full animate-radial-pulse"
                  style={{
-                   background: `radial-gradient(circle, ${TEAM_CONFIG[introTeamColor].hex}40 0%, transparent 70%)`,
+                   background: `radial-gradient(circle, ${teamConfigs[introTeamColor].hex}40 0%, transparent 70%)`,
                  }}
                />
                <div 
                  className="absolute w-[600px] h-[600px] rounded-full animate-radial-pulse"
                  style={{
-                   background: `radial-gradient(circle, ${TEAM_CONFIG[introTeamColor].hex}30 0%, transparent 60%)`,
+                   background: `radial-gradient(circle, ${teamConfigs[introTeamColor].hex}30 0%, transparent 60%)`,
                    animationDelay: '0.5s',
                  }}
                />
@@ -1032,7 +982,7 @@ export const LotteryPhase: React.FC<{
                    key={`beam-${i}`}
                    className="absolute h-full w-1 animate-light-beam opacity-60"
                    style={{
-                     background: `linear-gradient(to top, transparent, ${TEAM_CONFIG[introTeamColor].hex}, transparent)`,
+                     background: `linear-gradient(to top, transparent, ${teamConfigs[introTeamColor].hex}, transparent)`,
                      left: `${20 + i * 15}%`,
                      animationDelay: `${0.1 * i}s`,
                      filter: 'blur(4px)',
@@ -1047,13 +997,13 @@ export const LotteryPhase: React.FC<{
                      key={i}
                      className="absolute w-2 h-2 rotate-45 animate-particle-float"
                      style={{
-                       backgroundColor: TEAM_CONFIG[introTeamColor].hex,
+                       backgroundColor: teamConfigs[introTeamColor].hex,
                        left: `${5 + (i * 4.5)}%`,
                        bottom: '-20px',
                        animationDelay: `${i * 0.15}s`,
                        animationDuration: `${2.5 + Math.random() * 2}s`,
                        opacity: 0.8,
-                       boxShadow: `0 0 10px ${TEAM_CONFIG[introTeamColor].hex}`,
+                       boxShadow: `0 0 10px ${teamConfigs[introTeamColor].hex}`,
                      }}
                    />
                  ))}
@@ -1063,7 +1013,7 @@ export const LotteryPhase: React.FC<{
                <div 
                  className="absolute w-96 h-96 rounded-full animate-tile-rotate"
                  style={{
-                   background: `conic-gradient(from 0deg, transparent 0%, ${TEAM_CONFIG[introTeamColor].hex}50 10%, transparent 20%, transparent 50%, ${TEAM_CONFIG[introTeamColor].hex}50 60%, transparent 70%)`,
+                   background: `conic-gradient(from 0deg, transparent 0%, ${teamConfigs[introTeamColor].hex}50 10%, transparent 20%, transparent 50%, ${teamConfigs[introTeamColor].hex}50 60%, transparent 70%)`,
                    filter: 'blur(8px)',
                  }}
                />
@@ -1072,7 +1022,7 @@ export const LotteryPhase: React.FC<{
                <div 
                  className="absolute w-80 h-80 rounded-full"
                  style={{
-                   background: `conic-gradient(from 180deg, transparent 0%, ${TEAM_CONFIG[introTeamColor].hex}30 15%, transparent 30%, transparent 50%, ${TEAM_CONFIG[introTeamColor].hex}30 65%, transparent 80%)`,
+                   background: `conic-gradient(from 180deg, transparent 0%, ${teamConfigs[introTeamColor].hex}30 15%, transparent 30%, transparent 50%, ${teamConfigs[introTeamColor].hex}30 65%, transparent 80%)`,
                    filter: 'blur(6px)',
                    animation: 'tileRotate 15s linear infinite reverse',
                  }}
@@ -1084,8 +1034,8 @@ export const LotteryPhase: React.FC<{
                  <div 
                    className="mb-8 px-12 py-3 border-t border-b animate-banner-unfurl"
                    style={{ 
-                     borderColor: `${TEAM_CONFIG[introTeamColor].hex}80`,
-                     background: `linear-gradient(90deg, transparent, ${TEAM_CONFIG[introTeamColor].hex}20, transparent)`,
+                     borderColor: `${teamConfigs[introTeamColor].hex}80`,
+                     background: `linear-gradient(90deg, transparent, ${teamConfigs[introTeamColor].hex}20, transparent)`,
                      animationDelay: '0.3s',
                      animationFillMode: 'backwards'
                    }}
@@ -1099,7 +1049,7 @@ export const LotteryPhase: React.FC<{
                      key={`trail-${i}`}
                      className="absolute h-3 animate-trail-effect"
                      style={{
-                       background: `linear-gradient(to left, ${TEAM_CONFIG[introTeamColor].hex}, transparent)`,
+                       background: `linear-gradient(to left, ${teamConfigs[introTeamColor].hex}, transparent)`,
                        top: '50%',
                        marginTop: '-6px',
                        animationDelay: `${i * 0.1}s`,
@@ -1115,14 +1065,14 @@ export const LotteryPhase: React.FC<{
                    {/* Pulsing Glow Behind */}
                    <div 
                      className="absolute inset-0 -m-8 animate-emblem-glow"
-                     style={{ color: TEAM_CONFIG[introTeamColor].hex, animationDelay: '1s' }}
+                     style={{ color: teamConfigs[introTeamColor].hex, animationDelay: '1s' }}
                    />
                    
                    {/* Outer Decorative Frame */}
                    <div 
                      className="absolute -inset-6 border-2 rotate-45 animate-fade-in"
                      style={{ 
-                       borderColor: `${TEAM_CONFIG[introTeamColor].hex}40`,
+                       borderColor: `${teamConfigs[introTeamColor].hex}40`,
                        animationDelay: '1s',
                        animationFillMode: 'backwards'
                      }}
@@ -1130,7 +1080,7 @@ export const LotteryPhase: React.FC<{
                    <div 
                      className="absolute -inset-10 border rotate-45 animate-fade-in"
                      style={{ 
-                       borderColor: `${TEAM_CONFIG[introTeamColor].hex}20`,
+                       borderColor: `${teamConfigs[introTeamColor].hex}20`,
                        animationDelay: '1.2s',
                        animationFillMode: 'backwards'
                      }}
@@ -1140,11 +1090,11 @@ export const LotteryPhase: React.FC<{
                    <div 
                      className="w-56 h-56 flex items-center justify-center border-4 animate-fly-in-right"
                      style={{ 
-                       backgroundColor: TEAM_CONFIG[introTeamColor].hex, 
+                       backgroundColor: teamConfigs[introTeamColor].hex, 
                        borderColor: 'white', 
                        boxShadow: `
-                         0 0 60px ${TEAM_CONFIG[introTeamColor].hex}, 
-                         0 0 120px ${TEAM_CONFIG[introTeamColor].hex}80,
+                         0 0 60px ${teamConfigs[introTeamColor].hex}, 
+                         0 0 120px ${teamConfigs[introTeamColor].hex}80,
                          inset 0 0 60px rgba(255,255,255,0.2)
                        `
                      }}
@@ -1181,8 +1131,8 @@ export const LotteryPhase: React.FC<{
                        key={`corner-${i}`}
                        className="absolute w-4 h-4 rotate-45 animate-fade-in"
                        style={{
-                         backgroundColor: TEAM_CONFIG[introTeamColor].hex,
-                         boxShadow: `0 0 15px ${TEAM_CONFIG[introTeamColor].hex}`,
+                         backgroundColor: teamConfigs[introTeamColor].hex,
+                         boxShadow: `0 0 15px ${teamConfigs[introTeamColor].hex}`,
                          top: y < 0 ? '-24px' : 'auto',
                          bottom: y > 0 ? '-24px' : 'auto',
                          left: x < 0 ? '-24px' : 'auto',
@@ -1201,9 +1151,9 @@ export const LotteryPhase: React.FC<{
                  >
                    {/* Decorative Line */}
                    <div className="flex items-center gap-4 w-full max-w-md">
-                     <div className="flex-1 h-px" style={{ background: `linear-gradient(to right, transparent, ${TEAM_CONFIG[introTeamColor].hex})` }} />
-                     <div className="w-2 h-2 rotate-45" style={{ backgroundColor: TEAM_CONFIG[introTeamColor].hex }} />
-                     <div className="flex-1 h-px" style={{ background: `linear-gradient(to left, transparent, ${TEAM_CONFIG[introTeamColor].hex})` }} />
+                     <div className="flex-1 h-px" style={{ background: `linear-gradient(to right, transparent, ${teamConfigs[introTeamColor].hex})` }} />
+                     <div className="w-2 h-2 rotate-45" style={{ backgroundColor: teamConfigs[introTeamColor].hex }} />
+                     <div className="flex-1 h-px" style={{ background: `linear-gradient(to left, transparent, ${teamConfigs[introTeamColor].hex})` }} />
                    </div>
                    
                    {/* Loading indicator */}
@@ -1214,7 +1164,7 @@ export const LotteryPhase: React.FC<{
                            key={i}
                            className="w-2 h-2 rounded-full animate-pulse"
                            style={{ 
-                             backgroundColor: TEAM_CONFIG[introTeamColor].hex,
+                             backgroundColor: teamConfigs[introTeamColor].hex,
                              animationDelay: `${i * 0.2}s`
                            }}
                          />
@@ -1227,7 +1177,7 @@ export const LotteryPhase: React.FC<{
                            key={i}
                            className="w-2 h-2 rounded-full animate-pulse"
                            style={{ 
-                             backgroundColor: TEAM_CONFIG[introTeamColor].hex,
+                             backgroundColor: teamConfigs[introTeamColor].hex,
                              animationDelay: `${0.6 + i * 0.2}s`
                            }}
                          />
@@ -1246,7 +1196,7 @@ export const LotteryPhase: React.FC<{
                        key={`dot-${i}`}
                        className="w-1.5 h-1.5 rotate-45"
                        style={{
-                         backgroundColor: i === 2 ? TEAM_CONFIG[introTeamColor].hex : `${TEAM_CONFIG[introTeamColor].hex}40`,
+                         backgroundColor: i === 2 ? teamConfigs[introTeamColor].hex : `${teamConfigs[introTeamColor].hex}40`,
                        }}
                      />
                    ))}
@@ -1264,13 +1214,13 @@ export const LotteryPhase: React.FC<{
              <div 
                className="absolute w-[800px] h-[800px] rounded-full animate-radial-pulse"
                style={{
-                 background: `radial-gradient(circle, ${TEAM_CONFIG[nextTeamColor].hex}40 0%, transparent 70%)`,
+                 background: `radial-gradient(circle, ${teamConfigs[nextTeamColor].hex}40 0%, transparent 70%)`,
                }}
              />
              <div 
                className="absolute w-[600px] h-[600px] rounded-full animate-radial-pulse"
                style={{
-                 background: `radial-gradient(circle, ${TEAM_CONFIG[nextTeamColor].hex}30 0%, transparent 60%)`,
+                 background: `radial-gradient(circle, ${teamConfigs[nextTeamColor].hex}30 0%, transparent 60%)`,
                  animationDelay: '0.5s',
                }}
              />
@@ -1281,7 +1231,7 @@ export const LotteryPhase: React.FC<{
                  key={`beam-${i}`}
                  className="absolute h-full w-1 animate-light-beam opacity-60"
                  style={{
-                   background: `linear-gradient(to top, transparent, ${TEAM_CONFIG[nextTeamColor].hex}, transparent)`,
+                   background: `linear-gradient(to top, transparent, ${teamConfigs[nextTeamColor].hex}, transparent)`,
                    left: `${20 + i * 15}%`,
                    animationDelay: `${0.1 * i}s`,
                    filter: 'blur(4px)',
@@ -1296,13 +1246,13 @@ export const LotteryPhase: React.FC<{
                    key={i}
                    className="absolute w-2 h-2 rotate-45 animate-particle-float"
                    style={{
-                     backgroundColor: TEAM_CONFIG[nextTeamColor].hex,
+                     backgroundColor: teamConfigs[nextTeamColor].hex,
                      left: `${5 + (i * 4.5)}%`,
                      bottom: '-20px',
                      animationDelay: `${i * 0.15}s`,
                      animationDuration: `${2.5 + Math.random() * 2}s`,
                      opacity: 0.8,
-                     boxShadow: `0 0 10px ${TEAM_CONFIG[nextTeamColor].hex}`,
+                     boxShadow: `0 0 10px ${teamConfigs[nextTeamColor].hex}`,
                    }}
                  />
                ))}
@@ -1312,7 +1262,7 @@ export const LotteryPhase: React.FC<{
              <div 
                className="absolute w-96 h-96 rounded-full animate-tile-rotate"
                style={{
-                 background: `conic-gradient(from 0deg, transparent 0%, ${TEAM_CONFIG[nextTeamColor].hex}50 10%, transparent 20%, transparent 50%, ${TEAM_CONFIG[nextTeamColor].hex}50 60%, transparent 70%)`,
+                 background: `conic-gradient(from 0deg, transparent 0%, ${teamConfigs[nextTeamColor].hex}50 10%, transparent 20%, transparent 50%, ${teamConfigs[nextTeamColor].hex}50 60%, transparent 70%)`,
                  filter: 'blur(8px)',
                }}
              />
@@ -1321,7 +1271,7 @@ export const LotteryPhase: React.FC<{
              <div 
                className="absolute w-80 h-80 rounded-full"
                style={{
-                 background: `conic-gradient(from 180deg, transparent 0%, ${TEAM_CONFIG[nextTeamColor].hex}30 15%, transparent 30%, transparent 50%, ${TEAM_CONFIG[nextTeamColor].hex}30 65%, transparent 80%)`,
+                 background: `conic-gradient(from 180deg, transparent 0%, ${teamConfigs[nextTeamColor].hex}30 15%, transparent 30%, transparent 50%, ${teamConfigs[nextTeamColor].hex}30 65%, transparent 80%)`,
                  filter: 'blur(6px)',
                  animation: 'tileRotate 15s linear infinite reverse',
                }}
@@ -1333,8 +1283,8 @@ export const LotteryPhase: React.FC<{
                <div 
                  className="mb-8 px-12 py-3 border-t border-b animate-banner-unfurl"
                  style={{ 
-                   borderColor: `${TEAM_CONFIG[nextTeamColor].hex}80`,
-                   background: `linear-gradient(90deg, transparent, ${TEAM_CONFIG[nextTeamColor].hex}20, transparent)`,
+                   borderColor: `${teamConfigs[nextTeamColor].hex}80`,
+                   background: `linear-gradient(90deg, transparent, ${teamConfigs[nextTeamColor].hex}20, transparent)`,
                    animationDelay: '0.3s',
                    animationFillMode: 'backwards'
                  }}
@@ -1348,14 +1298,14 @@ export const LotteryPhase: React.FC<{
                  {/* Pulsing Glow Behind */}
                  <div 
                    className="absolute inset-0 -m-8 animate-emblem-glow"
-                   style={{ color: TEAM_CONFIG[nextTeamColor].hex }}
+                   style={{ color: teamConfigs[nextTeamColor].hex }}
                  />
                  
                  {/* Outer Decorative Frame */}
                  <div 
                    className="absolute -inset-6 border-2 rotate-45 animate-fade-in"
                    style={{ 
-                     borderColor: `${TEAM_CONFIG[nextTeamColor].hex}40`,
+                     borderColor: `${teamConfigs[nextTeamColor].hex}40`,
                      animationDelay: '0.8s',
                      animationFillMode: 'backwards'
                    }}
@@ -1363,7 +1313,7 @@ export const LotteryPhase: React.FC<{
                  <div 
                    className="absolute -inset-10 border rotate-45 animate-fade-in"
                    style={{ 
-                     borderColor: `${TEAM_CONFIG[nextTeamColor].hex}20`,
+                     borderColor: `${teamConfigs[nextTeamColor].hex}20`,
                      animationDelay: '1s',
                      animationFillMode: 'backwards'
                    }}
@@ -1373,11 +1323,11 @@ export const LotteryPhase: React.FC<{
                  <div 
                    className="w-56 h-56 flex items-center justify-center border-4 animate-emblem-reveal"
                    style={{ 
-                     backgroundColor: TEAM_CONFIG[nextTeamColor].hex, 
+                     backgroundColor: teamConfigs[nextTeamColor].hex, 
                      borderColor: 'white', 
                      boxShadow: `
-                       0 0 60px ${TEAM_CONFIG[nextTeamColor].hex}, 
-                       0 0 120px ${TEAM_CONFIG[nextTeamColor].hex}80,
+                       0 0 60px ${teamConfigs[nextTeamColor].hex}, 
+                       0 0 120px ${teamConfigs[nextTeamColor].hex}80,
                        inset 0 0 60px rgba(255,255,255,0.2)
                      `
                    }}
@@ -1414,8 +1364,8 @@ export const LotteryPhase: React.FC<{
                      key={`corner-${i}`}
                      className="absolute w-4 h-4 rotate-45 animate-fade-in"
                      style={{
-                       backgroundColor: TEAM_CONFIG[nextTeamColor].hex,
-                       boxShadow: `0 0 15px ${TEAM_CONFIG[nextTeamColor].hex}`,
+                       backgroundColor: teamConfigs[nextTeamColor].hex,
+                       boxShadow: `0 0 15px ${teamConfigs[nextTeamColor].hex}`,
                        top: y < 0 ? '-24px' : 'auto',
                        bottom: y > 0 ? '-24px' : 'auto',
                        left: x < 0 ? '-24px' : 'auto',
@@ -1434,22 +1384,22 @@ export const LotteryPhase: React.FC<{
                >
                  {/* Decorative Line */}
                  <div className="flex items-center gap-4 w-full max-w-md">
-                   <div className="flex-1 h-px" style={{ background: `linear-gradient(to right, transparent, ${TEAM_CONFIG[nextTeamColor].hex})` }} />
-                   <div className="w-2 h-2 rotate-45" style={{ backgroundColor: TEAM_CONFIG[nextTeamColor].hex }} />
-                   <div className="flex-1 h-px" style={{ background: `linear-gradient(to left, transparent, ${TEAM_CONFIG[nextTeamColor].hex})` }} />
+                   <div className="flex-1 h-px" style={{ background: `linear-gradient(to right, transparent, ${teamConfigs[nextTeamColor].hex})` }} />
+                   <div className="w-2 h-2 rotate-45" style={{ backgroundColor: teamConfigs[nextTeamColor].hex }} />
+                   <div className="flex-1 h-px" style={{ background: `linear-gradient(to left, transparent, ${teamConfigs[nextTeamColor].hex})` }} />
                  </div>
                  
                  {/* Stats */}
                  <div className="flex items-center gap-6 text-gray-400 text-sm uppercase tracking-widest">
                    <div className="flex flex-col items-center">
-                     <span className="text-3xl font-display" style={{ color: TEAM_CONFIG[nextTeamColor].hex }}>
+                     <span className="text-3xl font-display" style={{ color: teamConfigs[nextTeamColor].hex }}>
                        {unassignedPlayers.length}
                      </span>
                      <span className="text-xs text-gray-500">SURVIVORS</span>
                    </div>
-                   <div className="w-px h-12" style={{ backgroundColor: `${TEAM_CONFIG[nextTeamColor].hex}40` }} />
+                   <div className="w-px h-12" style={{ backgroundColor: `${teamConfigs[nextTeamColor].hex}40` }} />
                    <div className="flex flex-col items-center">
-                     <span className="text-3xl font-display" style={{ color: TEAM_CONFIG[nextTeamColor].hex }}>
+                     <span className="text-3xl font-display" style={{ color: teamConfigs[nextTeamColor].hex }}>
                        {(Object.values(genderTargets[nextTeamColor] || {}) as number[]).reduce((a, b) => a + b, 0)}
                      </span>
                      <span className="text-xs text-gray-500">TO DRAFT</span>
@@ -1462,13 +1412,13 @@ export const LotteryPhase: React.FC<{
                  onClick={initiateNextTeam} 
                  className="mt-10 py-5 px-20 text-xl font-display uppercase tracking-[0.3em] transition-all duration-300 border-2 bg-transparent text-white relative overflow-hidden group animate-fade-in"
                  style={{ 
-                   borderColor: TEAM_CONFIG[nextTeamColor].hex,
+                   borderColor: teamConfigs[nextTeamColor].hex,
                    animationDelay: '1.2s',
                    animationFillMode: 'backwards'
                  }}
                  onMouseEnter={(e) => {
-                   e.currentTarget.style.backgroundColor = TEAM_CONFIG[nextTeamColor].hex;
-                   e.currentTarget.style.boxShadow = `0 0 60px ${TEAM_CONFIG[nextTeamColor].hex}, 0 0 100px ${TEAM_CONFIG[nextTeamColor].hex}60`;
+                   e.currentTarget.style.backgroundColor = teamConfigs[nextTeamColor].hex;
+                   e.currentTarget.style.boxShadow = `0 0 60px ${teamConfigs[nextTeamColor].hex}, 0 0 100px ${teamConfigs[nextTeamColor].hex}60`;
                    e.currentTarget.style.transform = 'scale(1.05)';
                  }}
                  onMouseLeave={(e) => {
@@ -1496,6 +1446,7 @@ export const LotteryPhase: React.FC<{
                    const winners = pickBatch(unassignedPlayers, nextTeamColor, teams);
                    const newTeams = teams.map(t => t.color === nextTeamColor ? { ...t, members: winners } : t);
                    setTeams(newTeams);
+                   saveCheckpoint(newTeams);
                    
                    const winnerIds = new Set(winners.map(w => w.id));
                    const remaining = unassignedPlayers.filter(p => !winnerIds.has(p.id));
@@ -1519,6 +1470,7 @@ export const LotteryPhase: React.FC<{
                      const lastColor = remainingColors[0];
                      const finalTeams = newTeams.map(t => t.color === lastColor ? { ...t, members: remaining } : t);
                      setTeams(finalTeams);
+                     saveCheckpoint(finalTeams);
                      setUnassignedPlayers([]);
                      setAssignedMap(prev => {
                        const updated = { ...prev };
@@ -1548,7 +1500,7 @@ export const LotteryPhase: React.FC<{
                      key={`dot-${i}`}
                      className="w-1.5 h-1.5 rotate-45"
                      style={{
-                       backgroundColor: i === 2 ? TEAM_CONFIG[nextTeamColor].hex : `${TEAM_CONFIG[nextTeamColor].hex}40`,
+                       backgroundColor: i === 2 ? teamConfigs[nextTeamColor].hex : `${teamConfigs[nextTeamColor].hex}40`,
                      }}
                    />
                  ))}
@@ -1568,7 +1520,7 @@ export const LotteryPhase: React.FC<{
                       {/* Pink Team Emblem */}
                       <div 
                         className="w-16 h-16 rotate-45 flex items-center justify-center border-4 shadow-[0_0_30px_currentColor]"
-                        style={{ backgroundColor: TEAM_CONFIG[currentTeamColor].hex, borderColor: 'white', color: TEAM_CONFIG[currentTeamColor].hex }}
+                        style={{ backgroundColor: teamConfigs[currentTeamColor].hex, borderColor: 'white', color: teamConfigs[currentTeamColor].hex }}
                       >
                         <span className="-rotate-45 text-white font-display text-xl uppercase">
                           {currentTeamColor.charAt(0)}
@@ -1580,7 +1532,7 @@ export const LotteryPhase: React.FC<{
                       {/* Purple Team Emblem */}
                       <div 
                         className="w-16 h-16 rotate-45 flex items-center justify-center border-4 shadow-[0_0_30px_currentColor]"
-                        style={{ backgroundColor: TEAM_CONFIG[lastTeamInfo.color].hex, borderColor: 'white', color: TEAM_CONFIG[lastTeamInfo.color].hex }}
+                        style={{ backgroundColor: teamConfigs[lastTeamInfo.color].hex, borderColor: 'white', color: teamConfigs[lastTeamInfo.color].hex }}
                       >
                         <span className="-rotate-45 text-white font-display text-xl uppercase">
                           {lastTeamInfo.color.charAt(0)}
@@ -1601,11 +1553,11 @@ export const LotteryPhase: React.FC<{
                       <div>
                         <div 
                           className="flex items-center gap-3 mb-4 pb-2 border-b"
-                          style={{ borderColor: `${TEAM_CONFIG[currentTeamColor].hex}40` }}
+                          style={{ borderColor: `${teamConfigs[currentTeamColor].hex}40` }}
                         >
                           <span 
                             className="font-display text-xl uppercase tracking-wider"
-                            style={{ color: TEAM_CONFIG[currentTeamColor].hex }}
+                            style={{ color: teamConfigs[currentTeamColor].hex }}
                           >
                             Team {currentTeamColor}
                           </span>
@@ -1622,7 +1574,7 @@ export const LotteryPhase: React.FC<{
                             >
                               <div 
                                 className="w-10 h-10 rotate-45 flex-shrink-0 flex items-center justify-center border-2"
-                                style={{ backgroundColor: TEAM_CONFIG[currentTeamColor].hex, borderColor: 'rgba(255,255,255,0.5)' }}
+                                style={{ backgroundColor: teamConfigs[currentTeamColor].hex, borderColor: 'rgba(255,255,255,0.5)' }}
                               >
                                 <span className="-rotate-45 text-white font-mono text-xs font-bold">
                                   {String(sortedPlayers.findIndex(sp => sp.id === p.id) + 1).padStart(3, '0')}
@@ -1645,11 +1597,11 @@ export const LotteryPhase: React.FC<{
                       <div>
                         <div 
                           className="flex items-center gap-3 mb-4 pb-2 border-b"
-                          style={{ borderColor: `${TEAM_CONFIG[lastTeamInfo.color].hex}40` }}
+                          style={{ borderColor: `${teamConfigs[lastTeamInfo.color].hex}40` }}
                         >
                           <span 
                             className="font-display text-xl uppercase tracking-wider"
-                            style={{ color: TEAM_CONFIG[lastTeamInfo.color].hex }}
+                            style={{ color: teamConfigs[lastTeamInfo.color].hex }}
                           >
                             Team {lastTeamInfo.color}
                           </span>
@@ -1666,7 +1618,7 @@ export const LotteryPhase: React.FC<{
                             >
                               <div 
                                 className="w-10 h-10 rotate-45 flex-shrink-0 flex items-center justify-center border-2"
-                                style={{ backgroundColor: TEAM_CONFIG[lastTeamInfo.color].hex, borderColor: 'rgba(255,255,255,0.5)' }}
+                                style={{ backgroundColor: teamConfigs[lastTeamInfo.color].hex, borderColor: 'rgba(255,255,255,0.5)' }}
                               >
                                 <span className="-rotate-45 text-white font-mono text-xs font-bold">
                                   {String(sortedPlayers.findIndex(sp => sp.id === p.id) + 1).padStart(3, '0')}
@@ -1705,6 +1657,56 @@ export const LotteryPhase: React.FC<{
        )}
 
        {/* FINAL RECAP */}
+       {resumeOffer && (
+          <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/95 backdrop-blur-md overflow-auto py-8">
+             <div className="w-full max-w-4xl px-6 flex flex-col items-center">
+               <div className="flex items-center gap-4 mb-2 animate-fade-in">
+                 <div className="h-px w-16 bg-gradient-to-r from-transparent to-squid-pink"></div>
+                 <h1 className="font-display text-3xl md:text-4xl text-white uppercase tracking-[0.3em]">
+                   Draw Interrupted
+                 </h1>
+                 <div className="h-px w-16 bg-gradient-to-l from-transparent to-squid-pink"></div>
+               </div>
+               <p className="text-gray-500 font-mono text-xs tracking-widest mb-8">
+                 SAVED {new Date(resumeOffer.savedAt).toLocaleTimeString()} · SEED {resumeOffer.seed}
+               </p>
+
+               <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-3 mb-10">
+                 {resumeOffer.teams.map(team => (
+                   <div
+                     key={team.color}
+                     className={`flex items-center gap-3 px-4 py-3 rounded border ${team.members.length > 0 ? 'border-white/10 bg-white/5' : 'border-dashed border-white/10 opacity-50'}`}
+                   >
+                     <div className="w-3 h-3 rotate-45 shrink-0" style={{ backgroundColor: teamConfigs[team.color].hex }} />
+                     <span className="font-display uppercase tracking-wider" style={{ color: teamConfigs[team.color].hex }}>
+                       {team.color}
+                     </span>
+                     <span className="ml-auto text-xs font-mono text-gray-400 truncate">
+                       {team.members.length > 0 ? `${team.members.length} REVEALED` : 'WAITING'}
+                     </span>
+                   </div>
+                 ))}
+               </div>
+
+               <div className="flex flex-col md:flex-row gap-4">
+                 <Button
+                   onClick={resumeDraft}
+                   className="px-12 py-4 text-lg border-2 border-squid-pink bg-squid-pink/10 hover:bg-squid-pink text-white transition-all"
+                 >
+                   RESUME DRAW
+                 </Button>
+                 <Button
+                   variant="secondary"
+                   onClick={() => window.confirm("Discard the revealed teams and restart the draw?") && restartDraft()}
+                   className="px-8 py-4"
+                 >
+                   RESTART
+                 </Button>
+               </div>
+             </div>
+          </div>
+       )}
+
        {phase === 'FINAL_RECAP' && (
           <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/98 backdrop-blur-md overflow-auto py-8">
              <div className="w-full max-w-6xl px-6 flex flex-col items-center">
@@ -1729,11 +1731,11 @@ export const LotteryPhase: React.FC<{
                      {/* Team Header */}
                      <div 
                        className="px-4 py-3 flex items-center gap-3 border-b border-white/10"
-                       style={{ backgroundColor: `${TEAM_CONFIG[team.color].hex}20` }}
+                       style={{ backgroundColor: `${teamConfigs[team.color].hex}20` }}
                      >
                        <div 
                          className="w-8 h-8 rotate-45 flex items-center justify-center"
-                         style={{ backgroundColor: TEAM_CONFIG[team.color].hex }}
+                         style={{ backgroundColor: teamConfigs[team.color].hex }}
                        >
                          <span className="-rotate-45 text-white font-bold text-sm">
                            {team.members.length}
@@ -1741,10 +1743,15 @@ export const LotteryPhase: React.FC<{
                        </div>
                        <span 
                          className="font-display text-xl uppercase tracking-wider"
-                         style={{ color: TEAM_CONFIG[team.color].hex }}
+                         style={{ color: teamConfigs[team.color].hex }}
                        >
                          {team.color}
                        </span>
+                       {teamRatings && (
+                         <span className="ml-auto text-xs font-mono text-gray-400" title="Average rating">
+                           ★ {teamRatings[team.color].toFixed(2)}
+                         </span>
+                       )}
                      </div>
                      
                      {/* Team Members - Name Focused */}
@@ -1756,7 +1763,7 @@ export const LotteryPhase: React.FC<{
                          >
                            <span 
                              className="text-xs font-mono w-8 text-center"
-                             style={{ color: TEAM_CONFIG[team.color].hex }}
+                             style={{ color: teamConfigs[team.color].hex }}
                            >
                              {String(sortedPlayers.findIndex(sp => sp.id === member.id) + 1).padStart(3, '0')}
                            </span>
@@ -1769,10 +1776,34 @@ export const LotteryPhase: React.FC<{
                          </div>
                        ))}
                      </div>
+
+                     {/* Department mix */}
+                     {departmentMix && departmentMix[team.color].length > 0 && (
+                       <div className="px-4 py-2 border-t border-white/10 flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-mono text-gray-400">
+                         <span className="text-gray-500 tracking-widest">{departmentMix[team.color].length} DEPT{departmentMix[team.color].length === 1 ? '' : 'S'}</span>
+                         {departmentMix[team.color].map(([department, count]) => (
+                           <span key={department}>{department} <span className="text-white">{count}</span></span>
+                         ))}
+                       </div>
+                     )}
                    </div>
                  ))}
                </div>
                
+               {/* Rules the draw could not follow */}
+               {constraintViolations.length > 0 && (
+                 <div className="w-full mb-8 p-4 border border-yellow-500/40 bg-yellow-900/10 font-mono text-xs text-yellow-200 space-y-1">
+                   <p className="text-yellow-400 tracking-widest mb-2">{constraintViolations.length} DRAFT RULE{constraintViolations.length === 1 ? '' : 'S'} NOT MET</p>
+                   {constraintViolations.map((problem, i) => (
+                     <p key={i}>
+                       <span className="text-gray-400 mr-2">{CONSTRAINT_LABELS[problem.constraint.kind]}{problem.constraint.hard ? '' : ' (SOFT)'}</span>
+                       {problem.message}
+                       {problem.reason && <span className="text-gray-500"> {problem.reason}</span>}
+                     </p>
+                   ))}
+                 </div>
+               )}
+
                {/* Footer Stats */}
                <div className="flex items-center gap-8 mb-8 text-gray-500 text-sm">
                  <span>{teams.filter(t => t.members.length > 0).length} Teams</span>
@@ -1,17 +1,26 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Team, TeamColor, Matchup } from '../types';
-import { TEAM_CONFIG } from '../constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Team, Matchup, DrawRecord, GameDefinition, MatchOrderSettings } from '../types';
 import { Button } from './Button';
 import { downloadData } from '../utils';
+import { getGame } from '../services/gameCatalog';
+import { getPlayCounts, getPlaySpread } from '../services/playTime';
+import { MAX_ROUNDS } from '../services/matchupRounds';
+import { HeadToHeadMatrix } from './HeadToHeadMatrix';
 import rollingSound from '../assets/Random.mp3';
 
 export const PlayingOrderPhase: React.FC<{ 
   teams: Team[]; 
   matchups: Matchup[];
+  drawRecord: DrawRecord;
+  games?: GameDefinition[];
+  onChangeMatchOrder?: (settings: MatchOrderSettings) => void;
   onProceed: () => void;
-}> = ({ teams, matchups, onProceed }) => {
+}> = ({ teams, matchups, drawRecord, games = [], onChangeMatchOrder, onProceed }) => {
   const [revealIndex, setRevealIndex] = useState(-1);
+  // Round shown on the board; null shows every round
+  const [roundFilter, setRoundFilter] = useState<number | null>(null);
+  const [showHeadToHead, setShowHeadToHead] = useState(false);
   const [rollingText, setRollingText] = useState<Record<string, string>>({});
   
   // Sounds
@@ -91,8 +100,23 @@ export const PlayingOrderPhase: React.FC<{
     return () => clearInterval(interval);
   }, [teams]);
 
+  // GAME # column plus one column per team
+  const gridStyle = { gridTemplateColumns: `repeat(${teams.length + 1}, minmax(0, 1fr))` };
+
+  const playCounts = useMemo(() => getPlayCounts(teams, matchups), [teams, matchups]);
+  const playSpread = getPlaySpread(playCounts);
+  const isBalanced = Boolean(drawRecord.balancePlayTime);
+  // Balancing was asked for but no row count keeps everyone within one game
+  const balanceUnmet = isBalanced && playSpread > 1;
+  const emptySeats = matchups.reduce((sum, m) => sum + m.players.filter(p => !p.player).length, 0);
+  const roundCount = Math.max(1, ...matchups.map(m => m.round ?? 1));
+
+  useEffect(() => {
+    if (roundFilter !== null && roundFilter > roundCount) setRoundFilter(null);
+  }, [roundFilter, roundCount]);
+
   const handleExportMatchups = () => {
-      const exportData = { teams, matchups };
+      const exportData = { teams, matchups, draw: drawRecord, catalog: games };
       downloadData(exportData, `squid-results-${new Date().toISOString().slice(0, 10)}.json`);
   };
 
@@ -102,23 +126,63 @@ export const PlayingOrderPhase: React.FC<{
     <div className="w-full max-w-7xl mx-auto p-4 md:p-8 animate-fade-in pb-20 mt-12 flex flex-col items-center">
         <div className="w-full flex justify-between items-center mb-6 bg-black/80 p-4 border-l-4 border-squid-pink backdrop-blur-md sticky top-0 z-50 shadow-2xl">
             <h2 className="text-3xl font-display text-white uppercase tracking-widest">
-                <span className="text-squid-pink mr-2">MATCH</span>  ORDER</h2>
+                <span className="text-squid-pink mr-2">MATCH</span>  ORDER
+                <span className="ml-4 text-[10px] font-mono text-gray-500 tracking-[0.2em] align-middle">SEED {drawRecord.seed}</span></h2>
             <div className="flex gap-4">
+                 {onChangeMatchOrder && (
+                     <label className="flex items-center gap-2 font-mono text-[10px] tracking-widest text-gray-400">
+                         ROUNDS
+                         <select
+                             value={drawRecord.rounds ?? 1}
+                             onChange={(e) => onChangeMatchOrder({ rounds: Number(e.target.value) })}
+                             className="bg-squid-dark border border-gray-700 px-2 py-2 text-white focus:border-squid-pink focus:outline-none"
+                             title="Play the roster several times over; later rounds avoid repeat head-to-heads and swap early and late players"
+                         >
+                             {Array.from({ length: MAX_ROUNDS }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}</option>)}
+                         </select>
+                     </label>
+                 )}
+                 {onChangeMatchOrder && (
+                     <Button
+                         onClick={() => onChangeMatchOrder({ balancePlayTime: !isBalanced })}
+                         variant="secondary"
+                         className={`text-xs py-2 px-4 ${balanceUnmet ? 'border-yellow-400 text-yellow-300' : isBalanced ? 'border-squid-pink text-squid-pink' : ''}`}
+                         title="Sets the number of games and has short teams repeat their least-played players, so every team fields someone in every game and everyone plays within one game of each other"
+                     >
+                         EQUAL PLAY TIME {balanceUnmet ? 'NOT POSSIBLE' : isBalanced ? 'ON' : 'OFF'}
+                     </Button>
+                 )}
+                 <Button onClick={() => setShowHeadToHead(true)} variant="secondary" className="text-xs py-2 px-4">HEAD-TO-HEAD</Button>
                  <Button onClick={handleExportMatchups} variant="secondary" className="text-xs py-2 px-4">DOWNLOAD</Button>
                  <Button onClick={onProceed} className="text-xs py-2 px-4 shadow-[0_0_15px_rgba(237,27,118,0.5)]">SCOREBOARD</Button>
             </div>
         </div>
 
+        {/* Round tabs */}
+        {roundCount > 1 && (
+            <div className="w-full flex flex-wrap gap-2 mb-4 font-mono text-[10px] tracking-widest">
+                {[null, ...Array.from({ length: roundCount }, (_, i) => i + 1)].map(round => (
+                    <button
+                        key={round ?? 'all'}
+                        onClick={() => setRoundFilter(round)}
+                        className={`px-3 py-1 border ${roundFilter === round ? 'border-squid-pink text-white bg-squid-pink/20' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                    >
+                        {round === null ? 'ALL ROUNDS' : `ROUND ${round}`}
+                    </button>
+                ))}
+            </div>
+        )}
+
         {/* The Board */}
         <div className="w-full overflow-x-auto custom-scrollbar">
             <div className="min-w-[800px] border-4 border-gray-800 bg-black shadow-[0_0_30px_rgba(0,0,0,0.8)]">
                 {/* Header Row */}
-                <div className="grid grid-cols-7 bg-gray-900 border-b-2 border-gray-700">
+                <div className="grid bg-gray-900 border-b-2 border-gray-700" style={gridStyle}>
                     <div className="p-4 flex items-center justify-center border-r border-gray-800 font-display text-gray-500">
                         GAME #
                     </div>
-                    {Object.values(TeamColor).map(color => (
-                        <div key={color} className={`p-4 flex items-center justify-center border-r border-gray-800 last:border-0 ${TEAM_CONFIG[color].bg} text-white font-display uppercase tracking-wider`}>
+                    {teams.map(({ color, bg }) => (
+                        <div key={color} className={`p-4 flex items-center justify-center border-r border-gray-800 last:border-0 ${bg} text-white font-display uppercase tracking-wider`}>
                              {color}
                         </div>
                     ))}
@@ -128,22 +192,38 @@ export const PlayingOrderPhase: React.FC<{
                 {matchups.map((matchup, index) => {
                     const isRolling = index > revealIndex;
                     const isJustLocked = index === revealIndex;
+                    const game = getGame(games, matchup.gameId);
+                    if (roundFilter !== null && (matchup.round ?? 1) !== roundFilter) return null;
+                    const isRoundStart = roundCount > 1 && roundFilter === null && matchup.round !== matchups[index - 1]?.round;
 
                     return (
                         <div 
                             key={matchup.id} 
+                            style={gridStyle}
                             className={`
-                                grid grid-cols-7 border-b border-gray-800 transition-colors duration-300
+                                grid border-b border-gray-800 transition-colors duration-300
                                 ${isJustLocked ? 'bg-white/10' : index % 2 === 0 ? 'bg-squid-card' : 'bg-black'}
                             `}
                         >
-                            {/* Game Number */}
-                            <div className="p-4 flex items-center justify-center border-r border-gray-800 font-mono text-squid-pink font-bold text-xl">
+                            {/* Round banner, spanning the whole row */}
+                            {isRoundStart && (
+                                <div className="p-2 border-b border-gray-700 bg-gray-900 text-center font-display text-squid-pink tracking-[0.3em]" style={{ gridColumn: '1 / -1' }}>
+                                    ROUND {matchup.round}
+                                </div>
+                            )}
+
+                            {/* Game Number (and catalog game name) */}
+                            <div className="p-4 flex flex-col items-center justify-center border-r border-gray-800 font-mono text-squid-pink font-bold text-xl">
                                 {matchup.id.toString().padStart(2, '0')}
+                                {game && (
+                                    <span className="text-[10px] text-gray-400 font-normal uppercase tracking-wider truncate w-full text-center">
+                                        {game.name}
+                                    </span>
+                                )}
                             </div>
 
                             {/* Player Cells */}
-                            {Object.values(TeamColor).map(color => {
+                            {teams.map(({ color, bg }) => {
                                 const playerObj = matchup.players.find(p => p.color === color);
                                 const playerName = playerObj?.player?.name;
                                 const playerGender = playerObj?.player?.gender;
@@ -177,7 +257,7 @@ export const PlayingOrderPhase: React.FC<{
                                         
                                         {/* Status Line for filled slots */}
                                         {!isRolling && playerName && (
-                                            <div className={`absolute bottom-0 left-0 h-0.5 w-full ${TEAM_CONFIG[color].bg} opacity-50`}></div>
+                                            <div className={`absolute bottom-0 left-0 h-0.5 w-full ${bg} opacity-50`}></div>
                                         )}
                                     </div>
                                 );
@@ -188,9 +268,42 @@ export const PlayingOrderPhase: React.FC<{
             </div>
         </div>
         
-        {/* Footer info */}
-        <div className="mt-8 text-center font-mono text-gray-500 text-xs">
+        {/* Play time per player */}
+        <div className="w-full mt-8 bg-squid-card p-6 border-t-4 border-gray-800 font-mono text-xs">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h3 className="font-display">PLAY TIME</h3>
+                <span className={`text-[10px] tracking-widest ${playSpread > 1 ? 'text-yellow-300' : 'text-gray-500'}`}>
+                    {playCounts.length > 0 && `${Math.min(...playCounts.map(c => c.games))}–${Math.max(...playCounts.map(c => c.games))} GAMES EACH`}
+                </span>
+            </div>
+            {balanceUnmet && (
+                <p className="mb-4 p-2 border-l-2 border-yellow-400 bg-yellow-900/10 text-yellow-200">
+                    Play time is not equal: team sizes are too far apart{(drawRecord.rounds ?? 1) > 1 ? ' over this many rounds' : ''}, or the game catalog fixes the number of games.
+                    Every team still fields someone in every game, so some players play {playSpread} games more than others.
+                </p>
+            )}
+            {!isBalanced && emptySeats > 0 && (
+                <p className="mb-4 p-2 border-l-2 border-yellow-400 bg-yellow-900/10 text-yellow-200">
+                    {emptySeats} seat{emptySeats === 1 ? ' is' : 's are'} empty, so some teams sit games out. Turn on EQUAL PLAY TIME to have every team field someone in every game.
+                </p>
+            )}
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${teams.length}, minmax(0, 1fr))` }}>
+                {teams.map(team => (
+                    <ul key={team.color} className="space-y-1">
+                        <li className="text-[10px] uppercase tracking-widest mb-2" style={{ color: team.hex }}>{team.color}</li>
+                        {playCounts.filter(c => c.color === team.color).map(({ player, games: played }) => (
+                            <li key={player.id} className="flex justify-between gap-2">
+                                <span className="truncate text-gray-300">{player.name}</span>
+                                <span className={played > 1 ? 'text-squid-pink' : played === 0 ? 'text-gray-700' : 'text-gray-500'}>×{played}</span>
+                            </li>
+                        ))}
+                    </ul>
+                ))}
+            </div>
         </div>
+        {showHeadToHead && (
+            <HeadToHeadMatrix teams={teams} matchups={matchups} onClose={() => setShowHeadToHead(false)} />
+        )}
     </div>
   );
 };
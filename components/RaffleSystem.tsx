@@ -1,37 +1,39 @@
 ﻿import React, { useState, useEffect, useRef, useMemo, useLayoutEffect, useCallback } from 'react';
-import { Player, Team, TeamColor } from '../types';
-import { TEAM_CONFIG, Icons } from '../constants';
+import { Player, Team } from '../types';
+import { Icons } from '../constants';
 import { Button } from './Button';
+import { deriveRandom, canonicalOrder, shuffle } from '../services/random';
+import { getSession, updateSession } from '../services/sessionStore';
+import { AudienceRaffle } from '../services/audienceChannel';
 
 const HUD_TOP_OFFSET = 80;
-const WINNER_COLOR_HEX = TEAM_CONFIG[TeamColor.Pink].hex;
-const LOCAL_STORAGE_RAFFLE_WINNERS = 'squid-raffle-winners';
+const WINNER_COLOR_HEX = '#ed1b76'; // Classic Squid Pink
 
 type RaffleSystemProps = {
   teams: Team[];
   onBack: () => void;
+  seed: string;
+  drawIndex: number; // Draws made so far with this seed; draw N always uses stream N
+  onDraw?: () => void;
   isMuted?: boolean;
   rollDurationMs?: number;
+  audience?: AudienceRaffle; // audience screen: mirror the host's raffle, no controls
+  onAudienceChange?: (raffle: AudienceRaffle) => void;
 };
 
 const getStoredWinnerIds = (): string[] => {
   if (typeof window === 'undefined') {
     return [];
   }
-  try {
-    const raw = localStorage.getItem(LOCAL_STORAGE_RAFFLE_WINNERS);
-    return raw ? JSON.parse(raw) : [];
-  } catch {
-    return [];
-  }
+  return getSession().raffleWinners;
 };
 
-export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMuted = false, rollDurationMs }) => {
+export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, seed, drawIndex, onDraw, isMuted = false, rollDurationMs, audience, onAudienceChange }) => {
   const players = useMemo(() => teams.flatMap(team => team.members), [teams]);
   const rollDuration = Math.max(500, rollDurationMs ?? 6800);
 
   const [winnerIds, setWinnerIds] = useState<string[]>(() => getStoredWinnerIds());
-  const winnerIdSet = useMemo(() => new Set(winnerIds), [winnerIds]);
+  const winnerIdSet = useMemo(() => new Set(audience ? audience.winnerIds : winnerIds), [audience, winnerIds]);
 
   // Keep stored winners in sync with the current roster
   useEffect(() => {
@@ -39,10 +41,10 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
   }, [players]);
 
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(LOCAL_STORAGE_RAFFLE_WINNERS, JSON.stringify(winnerIds));
+    if (typeof window !== 'undefined' && !audience) {
+      updateSession({ raffleWinners: winnerIds });
     }
-  }, [winnerIds]);
+  }, [winnerIds, audience]);
 
   const pool = useMemo(() => players.filter(player => !winnerIdSet.has(player.id)), [players, winnerIdSet]);
   const winners = useMemo(() => players.filter(player => winnerIdSet.has(player.id)), [players, winnerIdSet]);
@@ -51,6 +53,24 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
   const [rollingCandidate, setRollingCandidate] = useState<Player | null>(null);
   const [drawnPlayer, setDrawnPlayer] = useState<Player | null>(null);
 
+  // The audience screen shows the host's draw instead of its own
+  const findPlayer = (id: string | null) => players.find(player => player.id === id) ?? null;
+  const shownRolling = audience ? audience.isRolling : isRolling;
+  const shownCandidate = audience ? findPlayer(audience.rollingId) : rollingCandidate;
+  const shownDrawn = audience ? findPlayer(audience.drawnId) : drawnPlayer;
+
+  useEffect(() => {
+    if (audience) return;
+    onAudienceChange?.({
+      seed,
+      drawIndex,
+      winnerIds,
+      rollingId: rollingCandidate?.id ?? null,
+      drawnId: drawnPlayer?.id ?? null,
+      isRolling
+    });
+  }, [audience, onAudienceChange, seed, drawIndex, winnerIds, rollingCandidate, drawnPlayer, isRolling]);
+
   const tickAudioRef = useRef<HTMLAudioElement | null>(null);
   const boomAudioRef = useRef<HTMLAudioElement | null>(null);
   const rollingAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -78,18 +98,15 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
       rollingAudioRef.current.play().catch(() => {});
     }
 
-    const winnerIndex = Math.floor(Math.random() * pool.length);
-    const finalWinner = pool[winnerIndex];
+    const drawPool = canonicalOrder(pool);
+    const drawRng = deriveRandom(seed, 'raffle', drawIndex);
+    const finalWinner = drawPool[Math.floor(drawRng() * drawPool.length)];
+    onDraw?.();
 
     const duration = rollDuration;
     const startTime = Date.now();
-    const rollingOrder = [...pool];
-
-    // Simple Fisher-Yates shuffle so the sweep order feels fresh every draw
-    for (let i = rollingOrder.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [rollingOrder[i], rollingOrder[j]] = [rollingOrder[j], rollingOrder[i]];
-    }
+    // Sweep order is purely visual, so it stays unseeded and feels fresh every draw
+    const rollingOrder = shuffle(pool);
 
     const tickInterval = 80;
     const sequenceLength = Math.max(
@@ -321,8 +338,8 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
           <div ref={gridRef} className="absolute top-0 left-0">
             {tileLayout.positions.map(({ player, index, x, y }) => {
               const isWinner = winners.some(w => w.id === player.id);
-              const isRollingHighlight = rollingCandidate?.id === player.id;
-              const isDrawn = drawnPlayer?.id === player.id;
+              const isRollingHighlight = shownCandidate?.id === player.id;
+              const isDrawn = shownDrawn?.id === player.id;
 
               let bgStyle: React.CSSProperties = { backgroundColor: '#2e2e2e' };
               let nameClass = 'text-[#00fff2]';
@@ -347,7 +364,7 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
                 shadowClass = 'shadow-[0_0_50px_rgba(255,255,255,0.8)]';
                 scale = 'scale(1.2)';
                 zIndex = 'z-50';
-              } else if (isRolling) {
+              } else if (shownRolling) {
                 opacity = 'opacity-30';
               }
 
@@ -387,6 +404,9 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
             <span className="text-gray-500 mx-2">/</span>
             {players.length}
           </div>
+          <div className="text-gray-500 text-[10px] font-mono tracking-[0.2em] mt-1">
+            SEED <span className="text-white tracking-[0.3em]">{seed}</span> · DRAW #{drawIndex + 1}
+          </div>
         </div>
 
         <div className="flex items-center gap-4 pointer-events-auto">
@@ -397,7 +417,7 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
             </span>
           </div>
 
-          {pool.length > 0 ? (
+          {audience ? null : pool.length > 0 ? (
             <Button
               onClick={startDraw}
               disabled={isRolling || !!drawnPlayer}
@@ -420,19 +440,21 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
         </div>
       </div>
 
-      <div className="fixed bottom-5 right-5 flex gap-2 z-50">
-        <Button onClick={handleBack} variant="secondary" className="bg-black/80 border-gray-700 text-xs">
-          Back to Scoreboard
-        </Button>
-        <button
-          onClick={resetView}
-          className="px-4 py-2 bg-[#333] text-white border border-[#555] hover:bg-[#444] font-bold text-xs uppercase tracking-wider"
-        >
-          Reset View
-        </button>
-      </div>
+      {!audience && (
+        <div className="fixed bottom-5 right-5 flex gap-2 z-50">
+          <Button onClick={handleBack} variant="secondary" className="bg-black/80 border-gray-700 text-xs">
+            Back to Scoreboard
+          </Button>
+          <button
+            onClick={resetView}
+            className="px-4 py-2 bg-[#333] text-white border border-[#555] hover:bg-[#444] font-bold text-xs uppercase tracking-wider"
+          >
+            Reset View
+          </button>
+        </div>
+      )}
 
-      {drawnPlayer && (
+      {shownDrawn && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
           <div className="relative w-full max-w-2xl bg-gradient-to-b from-gray-900 to-black border-2 border-squid-pink rounded-lg shadow-[0_0_100px_rgba(237,27,118,0.4)] overflow-hidden flex flex-col items-center animate-slam">
             <div className="w-full py-8 flex flex-col items-center bg-white/5 border-b border-white/10">
@@ -446,29 +468,31 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack, isMut
 
             <div className="flex flex-col items-center py-10 px-6 text-center">
               <h1 className="font-display text-5xl md:text-7xl text-white uppercase tracking-wider drop-shadow-[0_0_20px_rgba(255,255,255,0.5)] animate-scale-in">
-                {drawnPlayer.name}
+                {shownDrawn.name}
               </h1>
               <div className="mt-4 flex items-center gap-3">
                 <span className="px-3 py-1 bg-white/10 rounded text-xs text-gray-400 uppercase tracking-widest border border-white/10">
-                  {drawnPlayer.gender === 'M' ? 'Male' : drawnPlayer.gender === 'F' ? 'Female' : 'Non-Binary'}
+                  {shownDrawn.gender === 'M' ? 'Male' : shownDrawn.gender === 'F' ? 'Female' : 'Non-Binary'}
                 </span>
               </div>
             </div>
 
-            <div className="w-full grid grid-cols-2 gap-px bg-gray-800 border-t border-gray-700">
-              <button
-                onClick={handleKeepInPool}
-                className="py-6 bg-gray-900 hover:bg-gray-800 text-gray-400 hover:text-white transition-colors uppercase tracking-widest text-sm font-bold flex flex-col items-center gap-1 group"
-              >
-                <span>KEEP</span>
-              </button>
-              <button
-                onClick={handleRemoveFromPool}
-                className="py-6 bg-squid-pink hover:bg-pink-600 text-white transition-colors uppercase tracking-widest text-lg font-bold shadow-[inset_0_0_20px_rgba(0,0,0,0.2)] flex flex-col items-center gap-1"
-              >
-                <span>REMOVE</span>
-              </button>
-            </div>
+            {!audience && (
+              <div className="w-full grid grid-cols-2 gap-px bg-gray-800 border-t border-gray-700">
+                <button
+                  onClick={handleKeepInPool}
+                  className="py-6 bg-gray-900 hover:bg-gray-800 text-gray-400 hover:text-white transition-colors uppercase tracking-widest text-sm font-bold flex flex-col items-center gap-1 group"
+                >
+                  <span>KEEP</span>
+                </button>
+                <button
+                  onClick={handleRemoveFromPool}
+                  className="py-6 bg-squid-pink hover:bg-pink-600 text-white transition-colors uppercase tracking-widest text-lg font-bold shadow-[inset_0_0_20px_rgba(0,0,0,0.2)] flex flex-col items-center gap-1"
+                >
+                  <span>REMOVE</span>
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1,7 +1,6 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Team } from '../types';
 import { Button } from './Button';
-import { TEAM_CONFIG } from '../constants';
 
 interface RaffleSystemProps {
   teams: Team[];
@@ -139,7 +138,7 @@ export const RaffleSystem: React.FC<RaffleSystemProps> = ({ teams, onBack }) =>
                 <div className="text-sm font-mono tracking-[0.5em] text-gray-400">SELECTED SUBJECT</div>
                 <div
                   className="text-4xl md:text-6xl font-display tracking-[0.2em]"
-                  style={{ color: TEAM_CONFIG[displayedPlayer.teamColor].hex }}
+                  style={{ color: teams.find(t => t.color === displayedPlayer.teamColor)?.hex }}
                 >
                   {displayedPlayer.name}
                 </div>
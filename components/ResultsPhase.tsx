@@ -1,13 +1,19 @@
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Team, TeamColor, Matchup, Player } from '../types';
-import { TEAM_CONFIG } from '../constants';
+import { Team, TeamColor, Matchup, Player, DrawRecord, ScoreEvent, GameResult, ScoringRules, ScoringPreset, GameDefinition, EventSchedule, Bracket } from '../types';
 import { Button } from './Button';
-import { downloadData, getAverageScore, formatAverageScore } from '../utils';
+import { downloadData, formatAverageScore } from '../utils';
 import { Scoreboard } from './Scoreboard';
-
-const renumberMatchups = (list: Matchup[]): Matchup[] =>
-   list.map((matchup, index) => ({ ...matchup, id: index + 1 }));
+import { GameResultEditor } from './GameResultEditor';
+import { ScoringRulesEditor } from './ScoringRulesEditor';
+import { ScheduleView } from './ScheduleView';
+import { KnockoutBracket } from './KnockoutBracket';
+import { RosterAdjustDialog } from './RosterAdjustDialog';
+import { getGamePointsByTeam } from '../services/gameResults';
+import { DEFAULT_SCORING_RULES, getRankingScore, getRankingLabel, getGameMultiplier } from '../services/scoringRules';
+import { generateMatchups, sanitizeMatchups } from '../services/matchupEngine';
+import { RosterAdjustment, getActiveTeams, getPlayedMatchupIds } from '../services/rosterAdjust';
+import { getGame } from '../services/gameCatalog';
 
 const cloneTeams = (teams: Team[]): Team[] =>
    teams.map(team => ({
@@ -15,6 +21,82 @@ const cloneTeams = (teams: Team[]): Team[] =>
       members: team.members.map(member => ({ ...member })),
    }));
 
+// Points each team took from every recorded game, one row per Matchup row
+const GameBreakdown: React.FC<{
+   matchups: Matchup[];
+   teams: Team[];
+   results: GameResult[];
+   rules: ScoringRules;
+   games: GameDefinition[];
+   onEdit?: (matchupId: number) => void;
+}> = ({ matchups, teams, results, rules, games, onEdit }) => {
+   const byMatchup = new Map<number, GameResult>(results.map(result => [result.matchupId, result]));
+   const totals: Record<TeamColor, number> = {};
+   results.forEach(result => {
+      Object.entries(getGamePointsByTeam(result, rules)).forEach(([color, points]) => {
+         totals[color] = (totals[color] ?? 0) + points;
+      });
+   });
+
+   return (
+      <div className="overflow-x-auto border-x border-b border-gray-800 bg-black/40 custom-scrollbar">
+         <table className="w-full min-w-[800px] border-collapse text-xs font-mono">
+            <thead>
+               <tr>
+                  <th className="p-2 border-r border-b border-gray-800 w-16 text-center text-gray-500">#</th>
+                  {teams.map(({ color, hex }) => (
+                     <th key={color} className="p-2 border-r border-b border-gray-800 text-center uppercase tracking-wider" style={{ color: hex }}>
+                        {color}
+                     </th>
+                  ))}
+                  <th className="p-2 border-b border-gray-800 w-32 text-center text-gray-500">RESULT</th>
+               </tr>
+            </thead>
+            <tbody>
+               {matchups.map(m => {
+                  const result = byMatchup.get(m.id);
+                  const points = result ? getGamePointsByTeam(result, rules) : null;
+                  const multiplier = getGameMultiplier(m.id, rules);
+                  const game = getGame(games, m.gameId);
+                  return (
+                     <tr key={m.id} className="border-b border-gray-900 hover:bg-white/5">
+                        <td className="p-2 border-r border-gray-800/50 text-center text-squid-pink font-bold">
+                           {m.id}
+                           {multiplier !== 1 && <span className="ml-1 text-[10px] text-yellow-400">×{multiplier}</span>}
+                           {game && <span className="block text-[10px] font-normal text-gray-500 truncate">{game.name}</span>}
+                        </td>
+                        {teams.map(({ color }) => (
+                           <td key={color} className="p-2 border-r border-gray-800/50 text-center text-gray-300">
+                              {points ? points[color] ?? 0 : <span className="text-gray-700">-</span>}
+                           </td>
+                        ))}
+                        <td className="p-2 text-center">
+                           {onEdit && (
+                              <button
+                                 onClick={() => onEdit(m.id)}
+                                 className={`px-2 py-0.5 border rounded-sm transition-colors ${result ? 'border-gray-700 text-gray-300 hover:text-white' : 'border-squid-pink text-squid-pink hover:bg-squid-pink hover:text-black'}`}
+                                 title={result?.author ? `Recorded by ${result.author}` : undefined}
+                              >
+                                 {result ? 'EDIT' : 'ENTER'}
+                              </button>
+                           )}
+                        </td>
+                     </tr>
+                  );
+               })}
+               <tr className="bg-white/[0.04] text-white font-bold">
+                  <td className="p-2 border-r border-gray-800/50 text-center text-gray-500">Σ</td>
+                  {teams.map(({ color }) => (
+                     <td key={color} className="p-2 border-r border-gray-800/50 text-center text-yellow-400">{totals[color] ?? 0}</td>
+                  ))}
+                  <td className="p-2 text-center text-gray-500">{results.length}/{matchups.length} GAMES</td>
+               </tr>
+            </tbody>
+         </table>
+      </div>
+   );
+};
+
 interface FloatingPadProps {
    value: string;
    position: { top: number; left: number };
@@ -23,9 +105,58 @@ interface FloatingPadProps {
    onClose: () => void;
    padRef: React.RefObject<HTMLDivElement>;
    label?: string;
+   presets?: ScoringPreset[];
+   onPreset?: (preset: ScoringPreset) => void;
 }
 
-const FloatingNumberPad: React.FC<FloatingPadProps> = ({ value, position, onInput, onSave, onClose, padRef, label }) => {
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+// Most recent score entries first; undone entries are not shown
+const ScoreLogPanel: React.FC<{ log: ScoreEvent[]; teams: Team[] }> = ({ log, teams }) => {
+   const playerNames = new Map(teams.flatMap(t => t.members).map(m => [m.id, m.name]));
+   const recent = log.slice(-30).reverse();
+
+   return (
+      <div className="border border-gray-800 bg-black/60 max-h-64 overflow-y-auto custom-scrollbar">
+         {recent.length === 0 ? (
+            <div className="p-4 text-center text-xs font-mono text-gray-600">No score entries yet.</div>
+         ) : (
+            <table className="w-full text-[11px] font-mono text-gray-300">
+               <thead>
+                  <tr className="text-gray-500 border-b border-gray-800">
+                     <th className="p-2 text-left">TIME</th>
+                     <th className="p-2 text-left">BY</th>
+                     <th className="p-2 text-left">GAME</th>
+                     <th className="p-2 text-left">TEAM</th>
+                     <th className="p-2 text-left">PLAYER</th>
+                     <th className="p-2 text-right">Δ</th>
+                  </tr>
+               </thead>
+               <tbody>
+                  {recent.map(event => {
+                     const team = teams.find(t => t.color === event.teamColor);
+                     return (
+                        <tr key={event.id} className="border-b border-gray-900 last:border-0">
+                           <td className="p-2 text-gray-500">{new Date(event.timestamp).toLocaleTimeString()}</td>
+                           <td className="p-2">{event.author || '—'}</td>
+                           <td className="p-2">{event.gameNumber ?? '—'}</td>
+                           <td className="p-2 uppercase" style={{ color: team?.hex }}>{event.teamColor}</td>
+                           <td className="p-2 truncate max-w-[160px]">
+                              {event.playerId ? playerNames.get(event.playerId) ?? '(removed)' : 'TEAM'}
+                              {event.reason && <span className="ml-1 text-gray-500">· {event.reason}</span>}
+                           </td>
+                           <td className={`p-2 text-right font-bold ${event.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatDelta(event.delta)}</td>
+                        </tr>
+                     );
+                  })}
+               </tbody>
+            </table>
+         )}
+      </div>
+   );
+};
+
+const FloatingNumberPad: React.FC<FloatingPadProps> = ({ value, position, onInput, onSave, onClose, padRef, label, presets = [], onPreset }) => {
    const keys = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
    const labels: Record<string, string> = { clear: 'CLR', back: 'DEL' };
 
@@ -56,6 +187,20 @@ const FloatingNumberPad: React.FC<FloatingPadProps> = ({ value, position, onInpu
                Close
             </button>
          </div>
+         {onPreset && presets.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-gray-800 flex flex-col gap-1">
+               {presets.map(preset => (
+                  <button
+                     key={preset.id}
+                     onClick={() => onPreset(preset)}
+                     className={`flex justify-between px-2 py-1 rounded border border-gray-800 text-[10px] font-mono hover:bg-white/10 ${preset.points < 0 ? 'text-red-400' : 'text-green-400'}`}
+                  >
+                     <span className="truncate text-gray-300">{preset.label}</span>
+                     <span>{formatDelta(preset.points)}</span>
+                  </button>
+               ))}
+            </div>
+         )}
       </div>
    );
 };
@@ -63,19 +208,58 @@ const FloatingNumberPad: React.FC<FloatingPadProps> = ({ value, position, onInpu
 export const ResultsPhase: React.FC<{ 
   teams: Team[]; 
   matchups: Matchup[];
+  drawRecord: DrawRecord;
   onReset: () => void;
   onViewMatchups: () => void; 
    onOpenRaffle: () => void;
-  updateTeamScore: (teamColor: TeamColor, delta: number) => void;
-  updatePlayerScore: (teamColor: TeamColor, playerId: string, delta: number) => void;
-  onLoadResults?: (teams: Team[], matchups: Matchup[]) => void;
-  onUpdateMatchups?: (matchups: Matchup[]) => void;
+  updateTeamScore: (teamColor: TeamColor, delta: number, gameNumber?: number | null) => void;
+  updatePlayerScore: (teamColor: TeamColor, playerId: string, delta: number, gameNumber?: number | null, reason?: string) => void;
+  onLoadResults?: (teams: Team[], matchups: unknown, draw?: DrawRecord, games?: GameResult[], rules?: ScoringRules, catalog?: unknown, bracket?: unknown) => void;
+  onUpdateMatchups?: (matchups: Matchup[], rerolls?: number) => void; // rerolls marks a new order
    onUpdateTeams?: (teams: Team[]) => void;
-}> = ({ teams, matchups, onReset, onViewMatchups, onOpenRaffle, updateTeamScore, updatePlayerScore, onLoadResults, onUpdateMatchups, onUpdateTeams }) => {
+   onRerollMatchups?: (teams: Team[], rerolls: number) => Matchup[];
+   scoreLog?: ScoreEvent[];
+   redoCount?: number;
+   onUndoScore?: () => void;
+   onRedoScore?: () => void;
+   scorekeeper?: string;
+   onChangeScorekeeper?: (name: string) => void;
+   gameResults?: GameResult[];
+   onSaveGameResult?: (result: GameResult) => void;
+   onClearGameResult?: (matchupId: number) => void;
+   scoringRules?: ScoringRules;
+   onChangeScoringRules?: (rules: ScoringRules) => void;
+   onChangeActiveGame?: (game: number | null) => void;
+   games?: GameDefinition[];
+   schedule?: EventSchedule | null;
+   onChangeSchedule?: (schedule: EventSchedule | null) => void;
+   bracket?: Bracket | null;
+   onChangeBracket?: (bracket: Bracket | null) => void;
+}> = ({ teams, matchups, drawRecord, onReset, onViewMatchups, onOpenRaffle, updateTeamScore, updatePlayerScore, onLoadResults, onUpdateMatchups, onUpdateTeams, onRerollMatchups, scoreLog = [], redoCount = 0, onUndoScore, onRedoScore, scorekeeper = '', onChangeScorekeeper, gameResults = [], onSaveGameResult, onClearGameResult, scoringRules = DEFAULT_SCORING_RULES, onChangeScoringRules, onChangeActiveGame, games = [], schedule = null, onChangeSchedule, bracket = null, onChangeBracket }) => {
    const fileInputRef = useRef<HTMLInputElement>(null);
 
+   // Game the next score entries belong to (null = not tied to a game)
+   const [activeGame, setActiveGame] = useState<number | null>(null);
+   // The audience screen shows the game being scored as "now playing"
+   useEffect(() => {
+      onChangeActiveGame?.(activeGame);
+   }, [activeGame, onChangeActiveGame]);
+   const [showScoreLog, setShowScoreLog] = useState(false);
+   // Matchup row whose result is being entered
+   const [editingGameId, setEditingGameId] = useState<number | null>(null);
+   const editingMatchup = matchups.find(m => m.id === editingGameId) ?? null;
+   const [showRulesEditor, setShowRulesEditor] = useState(false);
+   const [showRosterAdjust, setShowRosterAdjust] = useState(false);
+   const [showSchedule, setShowSchedule] = useState(false);
+   const [showBracket, setShowBracket] = useState(false);
+   const canUndo = scoreLog.length > 0 && Boolean(onUndoScore);
+   const canRedo = redoCount > 0 && Boolean(onRedoScore);
+
    const [isEditingMatchOrder, setIsEditingMatchOrder] = useState(false);
    const [draftMatchups, setDraftMatchups] = useState<Matchup[]>(matchups);
+   // Reroll count behind a rerolled draft, null until the host rerolls. A rerolled draft is a new
+   // order whose rows reuse the old ids for different games; the count is only kept if it is saved
+   const [draftRerolls, setDraftRerolls] = useState<number | null>(null);
    const [dragSource, setDragSource] = useState<{ matchIndex: number; color: TeamColor } | null>(null);
    const [dragTarget, setDragTarget] = useState<{ matchIndex: number; color: TeamColor } | null>(null);
    const dragSourceRef = useRef<{ matchIndex: number; color: TeamColor } | null>(null);
@@ -90,12 +274,14 @@ export const ResultsPhase: React.FC<{
 
    const startMatchOrderEdit = () => {
       setDraftMatchups(matchups);
+      setDraftRerolls(null);
       setDraftTeams(cloneTeams(teams));
       setIsEditingMatchOrder(true);
    };
 
    const cancelMatchOrderEdit = () => {
       setDraftMatchups(matchups);
+      setDraftRerolls(null);
       setDraftTeams(cloneTeams(teams));
       setIsEditingMatchOrder(false);
       dragSourceRef.current = null;
@@ -103,21 +289,38 @@ export const ResultsPhase: React.FC<{
       setDragTarget(null);
    };
 
+   // Rows keep their ids when moved, so results and score entries stay with their game
    const handleSaveMatchOrder = () => {
-      const normalized = renumberMatchups(draftMatchups);
+      if (draftRerolls !== null && gameResults.length > 0
+         && !window.confirm(`The rerolled order replaces every game. Discard the ${gameResults.length} recorded game result${gameResults.length === 1 ? '' : 's'}?`)) {
+         return;
+      }
       if (onUpdateMatchups) {
-         onUpdateMatchups(normalized);
+         onUpdateMatchups(draftMatchups, draftRerolls ?? undefined);
       }
       if (onUpdateTeams) {
          onUpdateTeams(cloneTeams(draftTeams));
       }
-      setDraftMatchups(normalized);
+      setDraftRerolls(null);
       setIsEditingMatchOrder(false);
       dragSourceRef.current = null;
       setDragSource(null);
       setDragTarget(null);
    };
 
+   const rerollDraftMatchups = () => {
+      if (!window.confirm('Reroll the match order for the current teams? Manual swaps in this edit will be lost.')) return;
+      const nextRerolls = (draftRerolls ?? drawRecord.matchupRerolls) + 1;
+      setDraftMatchups(onRerollMatchups ? onRerollMatchups(draftTeams, nextRerolls) : generateMatchups({ teams: getActiveTeams(draftTeams) }).matchups);
+      setDraftRerolls(nextRerolls);
+   };
+
+   // Late arrivals and absences change the teams and the unplayed rows together
+   const applyRosterAdjustment = ({ teams: adjustedTeams, matchups: adjustedMatchups }: RosterAdjustment) => {
+      onUpdateTeams?.(adjustedTeams);
+      onUpdateMatchups?.(adjustedMatchups);
+   };
+
    const moveMatchupRow = (index: number, direction: 'up' | 'down') => {
       setDraftMatchups(prev => {
          const next = [...prev];
@@ -288,7 +491,7 @@ export const ResultsPhase: React.FC<{
    };
 
    const handleExportResults = () => {
-      const exportData = { teams, matchups };
+      const exportData = { teams, matchups, draw: drawRecord, games: gameResults, rules: scoringRules, catalog: games, bracket };
       downloadData(exportData, `squid-results-${new Date().toISOString().slice(0, 10)}.json`);
    };
 
@@ -304,11 +507,11 @@ export const ResultsPhase: React.FC<{
             
             // Handle both old format (direct array) and new format (object with teams and matchups)
             const loadedTeams = Array.isArray(data) ? data : data.teams;
-            const loadedMatchups = data.matchups || [];
+            const loadedMatchups = sanitizeMatchups(data.matchups, loadedTeams);
 
             // If a callback is provided, use it to fully reload teams (preferred approach)
             if (onLoadResults) {
-               onLoadResults(loadedTeams, loadedMatchups);
+               onLoadResults(loadedTeams, data.matchups, data.draw, data.games, data.rules, data.catalog, data.bracket);
             } else {
                // Fallback: Update all team scores incrementally
                loadedTeams.forEach((loadedTeam: Team) => {
@@ -330,11 +533,10 @@ export const ResultsPhase: React.FC<{
                      });
                   }
                });
-            }
-
-            // Optionally restore matchups if available
-            if (loadedMatchups.length > 0) {
-               localStorage.setItem('squid-matchups-data', JSON.stringify(loadedMatchups));
+               // Optionally restore matchups if available
+               if (loadedMatchups.length > 0) {
+                  onUpdateMatchups?.(loadedMatchups);
+               }
             }
 
             alert('Results loaded successfully!' + (loadedMatchups.length > 0 ? ' Match order restored.' : ''));
@@ -481,10 +683,18 @@ export const ResultsPhase: React.FC<{
       const numericValue = Math.max(0, parseInt(activePad.value || '0', 10) || 0);
       const delta = numericValue - (player.score || 0);
       if (delta !== 0) {
-         updatePlayerScore(activePad.teamColor, activePad.playerId, delta);
+         updatePlayerScore(activePad.teamColor, activePad.playerId, delta, activeGame);
       }
       closePad();
-   }, [activePad, closePad, teams, updatePlayerScore]);
+   }, [activePad, closePad, teams, updatePlayerScore, activeGame]);
+
+   // Bonus/penalty presets are added to the player's current score, not typed over it; a penalty
+   // comes off the shown total, game points included, and stops at zero
+   const applyPreset = useCallback((preset: ScoringPreset) => {
+      if (!activePad) return;
+      updatePlayerScore(activePad.teamColor, activePad.playerId, preset.points, activeGame, preset.label);
+      closePad();
+   }, [activePad, closePad, updatePlayerScore, activeGame]);
 
    const refreshPadPosition = useCallback(() => {
       setActivePad(prev => {
@@ -532,6 +742,25 @@ export const ResultsPhase: React.FC<{
       };
    }, [activePad, closePad, commitPadValue, getInputKey, refreshPadPosition]);
 
+   // Ctrl/Cmd+Z undoes the last score entry, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it
+   useEffect(() => {
+      const handleUndoKeys = (event: KeyboardEvent) => {
+         if (activePad || !(event.ctrlKey || event.metaKey)) return;
+         const target = event.target as HTMLElement | null;
+         if (target && (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || (target.tagName === 'INPUT' && !(target as HTMLInputElement).readOnly))) return;
+         const key = event.key.toLowerCase();
+         if (key === 'z' && !event.shiftKey) {
+            event.preventDefault();
+            if (canUndo) onUndoScore?.();
+         } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+            event.preventDefault();
+            if (canRedo) onRedoScore?.();
+         }
+      };
+      document.addEventListener('keydown', handleUndoKeys);
+      return () => document.removeEventListener('keydown', handleUndoKeys);
+   }, [activePad, canUndo, canRedo, onUndoScore, onRedoScore]);
+
    const activePlayer = activePad
       ? teams.find(t => t.color === activePad.teamColor)?.members.find(m => m.id === activePad.playerId) || null
       : null;
@@ -552,7 +781,12 @@ export const ResultsPhase: React.FC<{
                className={`${isScoreboardPinned ? 'fixed left-1/2 -translate-x-1/2 w-full max-w-7xl px-4 md:px-6 z-40 backdrop-blur-md' : '-mx-4 md:-mx-6 px-4 md:px-6'} pt-6 pb-4`}
                style={isScoreboardPinned ? { top: `${PIN_OFFSET}px` } : undefined}
             >
-               <Scoreboard teams={teams} condensed={isScoreboardPinned} />
+               <Scoreboard
+                  teams={teams}
+                  condensed={isScoreboardPinned}
+                  rules={scoringRules}
+                  onChangeRanking={onChangeScoringRules ? (ranking) => onChangeScoringRules({ ...scoringRules, ranking }) : undefined}
+               />
             </div>
          </div>
 
@@ -570,11 +804,82 @@ export const ResultsPhase: React.FC<{
               accept=".json"
               onChange={handleLoadResults}
            />
+           {onUpdateTeams && onUpdateMatchups && (
+              <Button onClick={() => setShowRosterAdjust(true)} disabled={isEditingMatchOrder} variant="secondary" className="px-4 py-2 text-xs">ADJUST ROSTER</Button>
+           )}
+           {onChangeSchedule && (
+              <Button onClick={() => setShowSchedule(true)} disabled={matchups.length === 0} variant="secondary" className="px-4 py-2 text-xs">SCHEDULE</Button>
+           )}
+           {onChangeBracket && (
+              <Button onClick={() => setShowBracket(true)} variant="secondary" className="px-4 py-2 text-xs">KNOCKOUT</Button>
+           )}
            <Button onClick={() => fileInputRef.current?.click()} variant="secondary" className="px-4 py-2 text-xs">LOAD RESULTS</Button>
            <Button onClick={handleExportResults} variant="secondary" className="px-4 py-2 text-xs">EXPORT RESULTS</Button>
         </div>
       </div>
 
+      {/* SCORE ENTRY: who is scoring, for which game, and undo/redo */}
+      <div className="-mt-6 mb-8 relative z-20">
+         <div className="flex flex-wrap items-center gap-3 bg-black/50 border border-gray-800 p-3 text-[10px] font-mono text-gray-400 tracking-widest">
+            <label className="flex items-center gap-2">
+               SCOREKEEPER
+               <input
+                  type="text"
+                  value={scorekeeper}
+                  onChange={(e) => onChangeScorekeeper?.(e.target.value)}
+                  placeholder="Name"
+                  className="w-32 bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+               />
+            </label>
+            <label className="flex items-center gap-2">
+               GAME
+               <select
+                  value={activeGame ?? ''}
+                  onChange={(e) => setActiveGame(e.target.value ? Number(e.target.value) : null)}
+                  className="bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+               >
+                  <option value="">—</option>
+                  {matchups.map(m => (
+                     <option key={m.id} value={m.id}>#{m.id}{getGame(games, m.gameId) ? ` ${getGame(games, m.gameId)!.name}` : ''}</option>
+                  ))}
+               </select>
+            </label>
+            <div className="flex items-center gap-2 ml-auto">
+               <button
+                  onClick={onUndoScore}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+               >
+                  ↶ UNDO
+               </button>
+               <button
+                  onClick={onRedoScore}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+               >
+                  REDO ↷
+               </button>
+               <button
+                  onClick={() => setShowScoreLog(prev => !prev)}
+                  className={`px-3 py-1 border transition-colors ${showScoreLog ? 'border-squid-pink text-squid-pink' : 'border-gray-700 text-gray-300 hover:text-white'}`}
+               >
+                  LOG ({scoreLog.length})
+               </button>
+               {onChangeScoringRules && (
+                  <button
+                     onClick={() => setShowRulesEditor(true)}
+                     className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors"
+                  >
+                     RULES
+                  </button>
+               )}
+            </div>
+         </div>
+         {showScoreLog && <ScoreLogPanel log={scoreLog} teams={teams} />}
+      </div>
+
       {/* INLINE MATCHUPS TABLE (Always Visible) */}
         <div className="mb-12 relative z-10 animate-slide-up">
            <div className="bg-squid-card border-x border-t border-gray-800 p-2 flex justify-between items-center bg-gray-900/50">
@@ -597,6 +902,12 @@ export const ResultsPhase: React.FC<{
                         >
                            SAVE
                         </button>
+                        <button
+                           onClick={rerollDraftMatchups}
+                           className="px-2 py-0.5 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors rounded-sm"
+                        >
+                           REROLL
+                        </button>
                         <button
                            onClick={cancelMatchOrderEdit}
                            className="px-2 py-0.5 border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors rounded-sm"
@@ -620,8 +931,8 @@ export const ResultsPhase: React.FC<{
                  <thead>
                     <tr>
                        <th className="p-3 border-r border-b border-gray-800 w-16 text-center text-xs font-mono text-gray-500">#</th>
-                       {Object.values(TeamColor).map(c => (
-                          <th key={c} className={`p-3 border-r border-b border-gray-800 w-1/6 text-center font-display text-xs uppercase tracking-wider text-white ${TEAM_CONFIG[c].bg}`}>
+                       {teams.map(({ color: c, bg }) => (
+                          <th key={c} className={`p-3 border-r border-b border-gray-800 text-center font-display text-xs uppercase tracking-wider text-white ${bg}`}>
                              {c}
                           </th>
                        ))}
@@ -632,7 +943,10 @@ export const ResultsPhase: React.FC<{
                        <tr key={m.id} className={`hover:bg-white/5 transition-colors ${idx % 2 === 0 ? 'bg-white/[0.02]' : ''}`}>
                           <td className="p-3 border-r border-gray-800/50 text-center font-mono text-squid-pink font-bold text-xs">
                              <div className="flex items-center justify-center gap-2">
-                                <span>{m.id}</span>
+                                <span>
+                                   {m.id}
+                                   {getGame(games, m.gameId) && <span className="block text-[10px] font-normal text-gray-500">{getGame(games, m.gameId)!.name}</span>}
+                                </span>
                                 {isEditingMatchOrder && (
                                    <div className="flex flex-col gap-0.5 text-gray-400">
                                       <button
@@ -655,7 +969,7 @@ export const ResultsPhase: React.FC<{
                                 )}
                              </div>
                           </td>
-                          {Object.values(TeamColor).map(c => {
+                          {teams.map(({ color: c }) => {
                               const player = m.players.find(p => p.color === c)?.player;
                               const isDragOrigin = dragSource && dragSource.matchIndex === idx && dragSource.color === c;
                               const isDragHover = dragTarget && dragTarget.matchIndex === idx && dragTarget.color === c;
@@ -707,13 +1021,31 @@ export const ResultsPhase: React.FC<{
               </table>
            </div>
       </div>
+
+      {/* PER-GAME RESULTS */}
+      {matchups.length > 0 && (
+         <div className="mb-12 relative z-10">
+            <div className="bg-squid-card border-x border-t border-gray-800 p-2 flex justify-between items-center bg-gray-900/50">
+               <span className="text-xs font-mono text-squid-pink tracking-widest uppercase">GAME BREAKDOWN</span>
+               <span className="text-[10px] text-gray-500 font-mono">POINTS PER TEAM FROM RECORDED GAMES</span>
+            </div>
+            <GameBreakdown
+               matchups={matchups}
+               teams={teams}
+               results={gameResults}
+               rules={scoringRules}
+               games={games}
+               onEdit={onSaveGameResult ? setEditingGameId : undefined}
+            />
+         </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 relative z-10">
         {teams.map(team => (
           <div key={team.color} className="bg-squid-card border border-gray-800 rounded relative overflow-hidden group hover:border-gray-600 transition-colors">
-            <div className={`absolute top-0 left-0 w-full h-1 ${TEAM_CONFIG[team.color].bg}`}></div>
+            <div className={`absolute top-0 left-0 w-full h-1 ${team.bg}`}></div>
             <div className="p-4 flex justify-between items-center bg-black/20">
-              <h3 className="font-display text-xl uppercase tracking-wider" style={{ color: TEAM_CONFIG[team.color].hex }}>
+              <h3 className="font-display text-xl uppercase tracking-wider" style={{ color: team.hex }}>
                 {team.color} TEAM
               </h3>
               <div className="flex gap-1">
@@ -724,22 +1056,25 @@ export const ResultsPhase: React.FC<{
             </div>
             <div className="p-4 min-h-[150px]">
               <div className="mb-4 text-center">
-                 <span className="text-xs text-gray-500 font-mono">AVG SCORE</span>
-                 <div className="text-2xl font-display" style={{ color: TEAM_CONFIG[team.color].hex }}>
-                    {formatAverageScore(getAverageScore(team))}
+                 <span className="text-xs text-gray-500 font-mono uppercase">{getRankingLabel(scoringRules)}</span>
+                 <div className="text-2xl font-display" style={{ color: team.hex }}>
+                    {formatAverageScore(getRankingScore(team, scoringRules))}
                  </div>
                  <div className="text-[10px] text-gray-600 font-mono mt-1">Total: {team.score || 0}</div>
               </div>
               <ul className="space-y-2">
                 {team.members.map(member => (
                   <li key={member.id} className="flex justify-between items-center text-sm font-mono border-b border-gray-800/50 pb-1 last:border-0">
-                    <span className="text-gray-300 truncate flex-1 min-w-0 pr-2">{member.name}</span>
+                    <span className={`truncate flex-1 min-w-0 pr-2 ${member.absent ? 'text-gray-600' : 'text-gray-300'}`}>
+                      {member.name}
+                      {member.absent && <span className="ml-1 text-[10px] text-gray-500">(LEFT)</span>}
+                    </span>
                     <div className="flex items-center gap-2 shrink-0">
                       
                       {/* Player Score Controls */}
                                  <div className="flex items-center border border-gray-700 rounded bg-black/40">
                           <button 
-                             onClick={() => updatePlayerScore(team.color, member.id, -1)}
+                             onClick={() => updatePlayerScore(team.color, member.id, -1, activeGame)}
                              className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 hover:bg-white/10 text-xs transition-colors"
                           >
                             -
@@ -760,7 +1095,7 @@ export const ResultsPhase: React.FC<{
                                        />
 
                           <button 
-                             onClick={() => updatePlayerScore(team.color, member.id, 1)}
+                             onClick={() => updatePlayerScore(team.color, member.id, 1, activeGame)}
                              className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-green-500 hover:bg-white/10 text-xs transition-colors"
                           >
                             +
@@ -779,6 +1114,56 @@ export const ResultsPhase: React.FC<{
           </div>
         ))}
       </div>
+         {showRulesEditor && onChangeScoringRules && (
+            <ScoringRulesEditor
+               rules={scoringRules}
+               matchups={matchups}
+               games={games}
+               onSave={(rules) => { onChangeScoringRules(rules); setShowRulesEditor(false); }}
+               onClose={() => setShowRulesEditor(false)}
+            />
+         )}
+         {showRosterAdjust && (
+            <RosterAdjustDialog
+               teams={teams}
+               matchups={matchups}
+               played={getPlayedMatchupIds(gameResults, scoreLog)}
+               onApply={applyRosterAdjustment}
+               onClose={() => setShowRosterAdjust(false)}
+            />
+         )}
+         {showSchedule && onChangeSchedule && (
+            <ScheduleView
+               teams={teams}
+               matchups={matchups}
+               games={games}
+               schedule={schedule}
+               onChange={onChangeSchedule}
+               onClose={() => setShowSchedule(false)}
+            />
+         )}
+         {showBracket && onChangeBracket && (
+            <KnockoutBracket
+               teams={teams}
+               rules={scoringRules}
+               bracket={bracket}
+               onChange={onChangeBracket}
+               onClose={() => setShowBracket(false)}
+            />
+         )}
+         {editingMatchup && onSaveGameResult && (
+            <GameResultEditor
+               matchup={editingMatchup}
+               teams={teams}
+               existing={gameResults.find(r => r.matchupId === editingMatchup.id) ?? null}
+               author={scorekeeper}
+               rules={scoringRules}
+               game={getGame(games, editingMatchup.gameId)}
+               onSave={(result) => { onSaveGameResult(result); setEditingGameId(null); }}
+               onClear={(matchupId) => { onClearGameResult?.(matchupId); setEditingGameId(null); }}
+               onClose={() => setEditingGameId(null)}
+            />
+         )}
          {activePad && (
             <FloatingNumberPad
                value={activePad.value}
@@ -788,6 +1173,8 @@ export const ResultsPhase: React.FC<{
                onClose={closePad}
                padRef={keypadRef}
                label={activePlayer ? `${activePlayer.name} • ${activePad.teamColor}` : undefined}
+               presets={scoringRules.presets}
+               onPreset={applyPreset}
             />
          )}
     </div>
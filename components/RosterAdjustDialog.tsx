@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Gender, Matchup, Team, TeamColor } from '../types';
+import { RosterAdjustment, addLateArrival, returnPlayer, suggestTeamForArrival, withdrawPlayer } from '../services/rosterAdjust';
+
+const GENDERS: Gender[] = [Gender.Male, Gender.Female, Gender.NonBinary];
+
+const toggleClass = (active: boolean) =>
+  `px-2 py-1 border ${active ? 'border-squid-pink text-white bg-squid-pink/20' : 'border-gray-700 text-gray-500 hover:text-white'}`;
+
+// Late arrivals and early leavers once the games are under way. Every change is applied at once;
+// games that already have a result or score keep their line-up.
+export const RosterAdjustDialog: React.FC<{
+  teams: Team[];
+  matchups: Matchup[];
+  played: Set<number>;
+  onApply: (adjustment: RosterAdjustment) => void;
+  onClose: () => void;
+}> = ({ teams, matchups, played, onApply, onClose }) => {
+  const [name, setName] = useState('');
+  const [gender, setGender] = useState<Gender>(Gender.Male);
+  const [flexible, setFlexible] = useState(false);
+  const [helper, setHelper] = useState(false);
+  const [team, setTeam] = useState<TeamColor | ''>('');
+
+  const suggested = suggestTeamForArrival(teams, gender);
+  const target = team || suggested;
+
+  const addArrival = () => {
+    if (!name.trim() || !target) return;
+    onApply(addLateArrival(teams, matchups, {
+      id: uuidv4(),
+      name: name.trim(),
+      gender,
+      score: 0,
+      noGenderRestriction: flexible,
+      isHelper: helper
+    }, target, played));
+    setName('');
+    setTeam('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">ADJUST</span>ROSTER
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar space-y-6">
+          {/* Late arrival */}
+          <div className="space-y-3 font-mono text-[10px] tracking-widest">
+            <span className="text-squid-pink">LATE ARRIVAL</span>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addArrival()}
+                placeholder="Name"
+                className="flex-1 min-w-[160px] bg-squid-dark border border-gray-700 px-2 py-1 text-sm text-white tracking-normal focus:border-squid-pink focus:outline-none"
+              />
+              {GENDERS.map(option => (
+                <button key={option} onClick={() => setGender(option)} className={toggleClass(gender === option)}>{option}</button>
+              ))}
+              <button onClick={() => setFlexible(prev => !prev)} className={toggleClass(flexible)} title="Can play in either gender's games">0</button>
+              <button onClick={() => setHelper(prev => !prev)} className={toggleClass(helper)} title="Helper">H</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-gray-400">
+              JOINS
+              <select
+                value={target ?? ''}
+                onChange={(e) => setTeam(e.target.value)}
+                className="bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+              >
+                {teams.map(t => (
+                  <option key={t.color} value={t.color}>{t.color}{t.color === suggested ? ' (SUGGESTED)' : ''}</option>
+                ))}
+              </select>
+              <span className="text-gray-600 tracking-normal">Suggested: the team with the fewest {gender} players present.</span>
+              <button
+                onClick={addArrival}
+                disabled={!name.trim() || !target}
+                className="ml-auto px-3 py-1 border border-squid-pink text-white hover:bg-squid-pink/20 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                ADD PLAYER
+              </button>
+            </div>
+          </div>
+
+          {/* Present / absent */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {teams.map(t => (
+              <div key={t.color} className="border border-gray-800 bg-black/40">
+                <div className="px-3 py-2 border-b border-gray-800 flex justify-between font-mono text-[10px] tracking-widest">
+                  <span className="uppercase" style={{ color: t.hex }}>{t.color}</span>
+                  <span className="text-gray-500">{t.members.filter(m => !m.absent).length}/{t.members.length} PRESENT</span>
+                </div>
+                <ul className="p-2 space-y-1">
+                  {t.members.map(member => (
+                    <li key={member.id} className="flex items-center gap-2 text-xs font-mono">
+                      <span className={`flex-1 truncate ${member.absent ? 'text-gray-600 line-through' : 'text-gray-300'}`}>{member.name}</span>
+                      <span className="text-[10px] text-gray-500">{member.gender}</span>
+                      <button
+                        onClick={() => onApply(member.absent
+                          ? returnPlayer(teams, matchups, member.id, played)
+                          : withdrawPlayer(teams, matchups, member.id, played))}
+                        className={`w-16 px-1 py-0.5 text-[10px] border ${member.absent ? 'border-green-700 text-green-400 hover:text-white' : 'border-gray-700 text-gray-400 hover:text-red-400'}`}
+                      >
+                        {member.absent ? 'BACK' : 'ABSENT'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-[10px] font-mono text-gray-500">
+            Absent players keep their points and stay on their team; teammates later in the match order move up into their remaining games.
+            Games with a result or score ({played.size}) are left as they were.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { Player } from '../types';
+import { Button } from './Button';
+import {
+  DELIMITERS, IMPORT_FIELDS, Delimiter, ImportField,
+  detectDelimiter, parseDelimitedRows, detectHeader, guessColumnMapping, buildImportRows
+} from '../services/rosterImport';
+
+const PREVIEW_ROWS = 50;
+
+// Spreadsheet roster import: paste or load CSV/TSV, check the detected layout and column mapping
+// against a preview, then import the rows that validate.
+export const RosterImportWizard: React.FC<{
+  initialText?: string;
+  fileName?: string;
+  onImport: (players: Player[]) => void;
+  onClose: () => void;
+}> = ({ initialText = '', fileName, onImport, onClose }) => {
+  const [text, setText] = useState(initialText);
+  // null = follow detection; set once the host overrides it
+  const [delimiterOverride, setDelimiterOverride] = useState<Delimiter | null>(null);
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+  const [mappingOverride, setMappingOverride] = useState<ImportField[] | null>(null);
+
+  const delimiter = delimiterOverride ?? detectDelimiter(text);
+  const parsed = useMemo(() => parseDelimitedRows(text, delimiter), [text, delimiter]);
+  const table = useMemo(() => parsed.map(row => row.cells), [parsed]);
+  const hasHeader = headerOverride ?? detectHeader(table);
+  const detectedMapping = useMemo(() => guessColumnMapping(table, hasHeader), [table, hasHeader]);
+  const mapping = mappingOverride && mappingOverride.length === detectedMapping.length ? mappingOverride : detectedMapping;
+  const rows = useMemo(() => buildImportRows(parsed, hasHeader, mapping), [parsed, hasHeader, mapping]);
+
+  const validPlayers = rows.flatMap(row => row.player ? [row.player] : []);
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const warningCount = rows.filter(row => row.errors.length === 0 && row.warnings.length > 0).length;
+
+  const changeText = (value: string) => {
+    setText(value);
+    setDelimiterOverride(null);
+    setHeaderOverride(null);
+    setMappingOverride(null);
+  };
+
+  const setColumnField = (index: number, field: ImportField) => {
+    // Each field comes from one column; mapping it again moves it
+    setMappingOverride(mapping.map((current, i) => {
+      if (i === index) return field;
+      return current === field && field !== 'ignore' ? 'ignore' : current;
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">ROSTER</span>IMPORT
+            {fileName && <span className="ml-3 text-xs font-mono text-gray-500 normal-case tracking-normal">{fileName}</span>}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-4">
+          <textarea
+            value={text}
+            onChange={(e) => changeText(e.target.value)}
+            placeholder={'Paste rows from Excel or Sheets, or CSV text:\nName, Gender, Marker\nKim Ji-hoon, M, 0\nLee Seo-yeon, F, H'}
+            rows={text ? 4 : 8}
+            className="w-full bg-squid-dark border border-gray-700 p-3 text-white font-mono text-xs focus:border-squid-pink focus:outline-none"
+          />
+
+          <div className="flex flex-wrap items-center gap-3 font-mono text-xs text-gray-400 tracking-widest">
+            <span>SEPARATOR</span>
+            {DELIMITERS.map(option => (
+              <button
+                key={option.label}
+                onClick={() => { setDelimiterOverride(option.value); setMappingOverride(null); }}
+                className={`px-3 py-1 border transition-colors ${delimiter === option.value ? 'border-squid-pink text-white' : 'border-gray-700 hover:text-white'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <label className="flex items-center gap-2 ml-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => { setHeaderOverride(e.target.checked); setMappingOverride(null); }}
+                className="accent-squid-pink"
+              />
+              FIRST ROW IS A HEADER
+            </label>
+          </div>
+
+          {table.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+                <div className="bg-black/50 border border-gray-800 p-3">
+                  <div className="text-gray-500 tracking-widest">ROWS</div>
+                  <div className="text-white text-xl">{rows.length}</div>
+                </div>
+                <div className="bg-black/50 border border-green-700 p-3">
+                  <div className="text-gray-500 tracking-widest">READY</div>
+                  <div className="text-green-400 text-xl">{validPlayers.length}</div>
+                </div>
+                <div className={`bg-black/50 border p-3 ${warningCount > 0 ? 'border-yellow-600' : 'border-gray-800'}`}>
+                  <div className="text-gray-500 tracking-widest">WARNINGS</div>
+                  <div className="text-yellow-400 text-xl">{warningCount}</div>
+                </div>
+                <div className={`bg-black/50 border p-3 ${errorCount > 0 ? 'border-red-600' : 'border-gray-800'}`}>
+                  <div className="text-gray-500 tracking-widest">SKIPPED</div>
+                  <div className={`text-xl ${errorCount > 0 ? 'text-red-400' : 'text-gray-400'}`}>{errorCount}</div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-800">
+                <table className="w-full font-mono text-xs text-gray-300">
+                  <thead>
+                    <tr className="border-b border-gray-800 bg-black/40">
+                      <th className="p-2 text-left text-gray-500">ROW</th>
+                      {mapping.map((field, index) => (
+                        <th key={index} className="p-2 text-left">
+                          <select
+                            value={field}
+                            onChange={(e) => setColumnField(index, e.target.value as ImportField)}
+                            className={`bg-squid-dark border px-1 py-0.5 text-[10px] focus:outline-none ${field === 'ignore' ? 'border-gray-800 text-gray-600' : 'border-squid-pink text-white'}`}
+                          >
+                            {IMPORT_FIELDS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                          {hasHeader && <div className="mt-1 text-[10px] text-gray-500 truncate max-w-[140px]">{table[0][index]}</div>}
+                        </th>
+                      ))}
+                      <th className="p-2 text-left text-gray-500">RESULT</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_ROWS).map(row => (
+                      <tr key={row.line} className={`border-b border-gray-900 ${row.errors.length > 0 ? 'bg-red-900/20' : ''}`}>
+                        <td className="p-2 text-gray-500">{row.line}</td>
+                        {mapping.map((field, index) => (
+                          <td key={index} className={`p-2 truncate max-w-[160px] ${field === 'ignore' ? 'text-gray-600' : ''}`}>{row.cells[index] ?? ''}</td>
+                        ))}
+                        <td className="p-2">
+                          {row.player ? (
+                            <span className="text-green-400">
+                              {row.player.gender}
+                              {row.player.noGenderRestriction && ' · 0'}
+                              {row.player.isHelper && ' · H'}
+                              {row.player.rating !== undefined && ` · ★${row.player.rating}`}
+                              {row.player.department && ` · ${row.player.department}`}
+                            </span>
+                          ) : null}
+                          {[...row.errors, ...row.warnings].map(message => (
+                            <div key={message} className={row.errors.includes(message) ? 'text-red-400' : 'text-yellow-400'}>{message}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length > PREVIEW_ROWS && (
+                  <div className="p-2 text-center text-[10px] font-mono text-gray-500">
+                    Showing {PREVIEW_ROWS} of {rows.length} rows; all valid rows are imported.
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-800">
+          <Button variant="secondary" onClick={onClose} className="text-xs py-2 px-4">CANCEL</Button>
+          <Button onClick={() => onImport(validPlayers)} disabled={validPlayers.length === 0} className="text-xs py-2 px-4">
+            IMPORT {validPlayers.length} PLAYER{validPlayers.length === 1 ? '' : 'S'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Button } from './Button';
+
+// Shown instead of the lottery when a reload restored the Lottery phase without the roster it was drawn from
+export const RosterRecovery: React.FC<{
+  rosterCount: number;
+  missingCount: number; // drafted players that are not in the saved roster
+  onRecover: () => void;
+  onBackToSetup: () => void;
+}> = ({ rosterCount, missingCount, onRecover, onBackToSetup }) => (
+  <div className="w-full max-w-xl mx-auto p-6 animate-fade-in">
+    <div className="bg-squid-card border-2 border-squid-pink p-8 shadow-[0_0_40px_rgba(237,27,118,0.3)] text-center">
+      <h2 className="text-3xl font-display text-white uppercase tracking-widest mb-4">
+        <span className="text-squid-pink mr-2">ROSTER</span>MISSING
+      </h2>
+      <p className="font-mono text-sm text-gray-400 mb-8">
+        {rosterCount === 0
+          ? 'The lottery was restored, but the saved roster is empty.'
+          : `The saved roster does not match the lottery: ${missingCount} drafted player${missingCount === 1 ? ' is' : 's are'} missing from it.`}
+        {missingCount > 0
+          ? ' The drafted players can be added back to the roster to continue the draw.'
+          : ' Go back to Setup to register or import the players again.'}
+      </p>
+      <div className="flex flex-col md:flex-row gap-4 justify-center">
+        {missingCount > 0 && (
+          <Button onClick={onRecover}>RECOVER {missingCount} DRAFTED</Button>
+        )}
+        <Button variant="secondary" onClick={onBackToSetup}>BACK TO SETUP</Button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { Player, Gender } from '../types';
+
+type RosterFilter = 'all' | Gender | 'flexible' | 'helper';
+type RosterSort = 'added' | 'name' | 'gender' | 'rating' | 'department';
+
+const FILTERS: { value: RosterFilter; label: string }[] = [
+  { value: 'all', label: 'ALL' },
+  { value: Gender.Male, label: 'M' },
+  { value: Gender.Female, label: 'F' },
+  { value: Gender.NonBinary, label: 'NB' },
+  { value: 'flexible', label: '0' },
+  { value: 'helper', label: 'H' }
+];
+
+const GENDERS = [Gender.Male, Gender.Female, Gender.NonBinary];
+
+const genderClass = (gender: Gender) =>
+  gender === Gender.Male ? 'text-blue-400' : gender === Gender.Female ? 'text-pink-400' : 'text-purple-400';
+
+const matchesFilter = (player: Player, filter: RosterFilter) => {
+  if (filter === 'all') return true;
+  if (filter === 'flexible') return Boolean(player.noGenderRestriction);
+  if (filter === 'helper') return Boolean(player.isHelper);
+  return player.gender === filter;
+};
+
+// Registered players with in-place editing of name, gender and the "0" / "H" markers,
+// plus filtering, sorting and bulk changes on the selected rows.
+export const RosterTable: React.FC<{
+  players: Player[];
+  onChange: (players: Player[]) => void;
+}> = ({ players, onChange }) => {
+  const [filter, setFilter] = useState<RosterFilter>('all');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<RosterSort>('added');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Name or department being typed for one player; committed on blur or Enter
+  const [textDraft, setTextDraft] = useState<{ id: string; field: 'name' | 'department'; value: string } | null>(null);
+
+  const counts = useMemo(() => ({
+    [Gender.Male]: players.filter(p => p.gender === Gender.Male).length,
+    [Gender.Female]: players.filter(p => p.gender === Gender.Female).length,
+    [Gender.NonBinary]: players.filter(p => p.gender === Gender.NonBinary).length,
+    flexible: players.filter(p => p.noGenderRestriction).length,
+    helper: players.filter(p => p.isHelper).length
+  }), [players]);
+
+  const departments = useMemo(
+    () => [...new Set<string>(players.flatMap(p => p.department ? [p.department] : []))].sort((a, b) => a.localeCompare(b)),
+    [players]
+  );
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const list = players.filter(p => matchesFilter(p, filter)
+      && (!query || p.name.toLowerCase().includes(query) || Boolean(p.department?.toLowerCase().includes(query))));
+    if (sort === 'name') return [...list].sort((a, b) => a.name.localeCompare(b.name));
+    if (sort === 'gender') return [...list].sort((a, b) => GENDERS.indexOf(a.gender) - GENDERS.indexOf(b.gender) || a.name.localeCompare(b.name));
+    if (sort === 'department') return [...list].sort((a, b) => (a.department ?? '\uffff').localeCompare(b.department ?? '\uffff') || a.name.localeCompare(b.name));
+    if (sort === 'rating') return [...list].sort((a, b) => (b.rating ?? -Infinity) - (a.rating ?? -Infinity) || a.name.localeCompare(b.name));
+    return list;
+  }, [players, filter, search, sort]);
+
+  // Selection only counts rows that still exist
+  const selectedIds = players.filter(p => selected.has(p.id)).map(p => p.id);
+  const allVisibleSelected = visible.length > 0 && visible.every(p => selected.has(p.id));
+
+  const updatePlayers = (ids: string[], patch: Partial<Player>) => {
+    const targets = new Set(ids);
+    onChange(players.map(p => targets.has(p.id) ? { ...p, ...patch } : p));
+  };
+
+  // An empty name is ignored; an empty department clears it
+  const commitText = () => {
+    if (!textDraft) return;
+    const value = textDraft.value.replace(/\s+/g, ' ').trim();
+    if (textDraft.field === 'name' && value) updatePlayers([textDraft.id], { name: value });
+    if (textDraft.field === 'department') updatePlayers([textDraft.id], { department: value || undefined });
+    setTextDraft(null);
+  };
+
+  const textInputProps = (p: Player, field: 'name' | 'department') => ({
+    value: textDraft?.id === p.id && textDraft.field === field ? textDraft.value : p[field] ?? '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setTextDraft({ id: p.id, field, value: e.target.value }),
+    onBlur: commitText,
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') commitText();
+      if (e.key === 'Escape') setTextDraft(null);
+    }
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visible.forEach(p => allVisibleSelected ? next.delete(p.id) : next.add(p.id));
+      return next;
+    });
+  };
+
+  const removeSelected = () => {
+    if (!window.confirm(`Eliminate ${selectedIds.length} selected player${selectedIds.length === 1 ? '' : 's'}?`)) return;
+    const targets = new Set(selectedIds);
+    onChange(players.filter(p => !targets.has(p.id)));
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="bg-squid-card p-6 border-t-4 border-gray-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="font-display">REGISTERED PLAYERS</h3>
+        <div className="flex flex-wrap gap-3 text-[10px] font-mono tracking-widest">
+          <span className="text-blue-400">M {counts[Gender.Male]}</span>
+          <span className="text-pink-400">F {counts[Gender.Female]}</span>
+          <span className="text-purple-400">NB {counts[Gender.NonBinary]}</span>
+          <span className="text-yellow-400" title="No gender restriction">FLEXIBLE (0) {counts.flexible}</span>
+          <span className="text-green-400" title="Helper role">HELPERS (H) {counts.helper}</span>
+          {departments.length > 0 && <span className="text-gray-400">DEPTS {departments.length}</span>}
+        </div>
+        <button
+          onClick={() => { onChange([]); setSelected(new Set()); }}
+          className="text-xs text-red-500 hover:text-red-400 font-mono tracking-wider hover:underline"
+        >
+          ELIMINATE ALL
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 font-mono text-[10px] tracking-widest">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`px-2 py-1 border ${filter === option.value ? 'border-squid-pink text-white' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name or department"
+          className="flex-1 min-w-[120px] bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+        />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as RosterSort)}
+          className="bg-squid-dark border border-gray-700 px-2 py-1 text-gray-300 focus:outline-none"
+          aria-label="Sort players"
+        >
+          <option value="added">SORT: ADDED</option>
+          <option value="name">SORT: NAME</option>
+          <option value="gender">SORT: GENDER</option>
+          <option value="rating">SORT: RATING</option>
+          <option value="department">SORT: DEPT</option>
+        </select>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 p-2 bg-squid-pink/10 border border-squid-pink/40 font-mono text-[10px] tracking-widest">
+          <span className="text-white mr-2">{selectedIds.length} SELECTED</span>
+          {GENDERS.map(g => (
+            <button key={g} onClick={() => updatePlayers(selectedIds, { gender: g })} className="px-2 py-1 border border-gray-700 text-gray-300 hover:text-white">
+              SET {g}
+            </button>
+          ))}
+          <button onClick={() => updatePlayers(selectedIds, { noGenderRestriction: true })} className="px-2 py-1 border border-gray-700 text-yellow-400">+0</button>
+          <button onClick={() => updatePlayers(selectedIds, { noGenderRestriction: false })} className="px-2 py-1 border border-gray-700 text-gray-400">−0</button>
+          <button onClick={() => updatePlayers(selectedIds, { isHelper: true })} className="px-2 py-1 border border-gray-700 text-green-400">+H</button>
+          <button onClick={() => updatePlayers(selectedIds, { isHelper: false })} className="px-2 py-1 border border-gray-700 text-gray-400">−H</button>
+          <button onClick={removeSelected} className="px-2 py-1 border border-red-800 text-red-400 hover:bg-red-900/40">ELIMINATE</button>
+          <button onClick={() => setSelected(new Set())} className="ml-auto px-2 py-1 text-gray-500 hover:text-white">CLEAR</button>
+        </div>
+      )}
+
+      <div className="max-h-80 overflow-y-auto pr-2 custom-scrollbar">
+        <table className="w-full text-xs font-mono">
+          <thead className="sticky top-0 bg-squid-card">
+            <tr className="text-gray-500 border-b border-gray-800 text-[10px]">
+              <th className="p-1 w-6">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-squid-pink" aria-label="Select all shown" />
+              </th>
+              <th className="p-1 text-left">NAME</th>
+              <th className="p-1 text-left">DEPT</th>
+              <th className="p-1">GENDER</th>
+              <th className="p-1" title="No gender restriction">0</th>
+              <th className="p-1" title="Helper">H</th>
+              <th className="p-1" title="Rating: higher is stronger, blank is unrated">★</th>
+              <th className="p-1 w-8"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(p => (
+              <tr key={p.id} className={`border-b border-gray-900 hover:bg-white/5 ${selected.has(p.id) ? 'bg-squid-pink/5' : ''}`}>
+                <td className="p-1 text-center">
+                  <input type="checkbox" checked={selected.has(p.id)} onChange={() => toggleSelected(p.id)} className="accent-squid-pink" aria-label={`Select ${p.name}`} />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="text"
+                    {...textInputProps(p, 'name')}
+                    className="w-full bg-transparent border-b border-transparent hover:border-gray-700 px-1 text-white focus:border-squid-pink focus:outline-none"
+                    aria-label={`Name of ${p.name}`}
+                  />
+                </td>
+                <td className="p-1">
+                  <input
+                    type="text"
+                    {...textInputProps(p, 'department')}
+                    list="roster-departments"
+                    placeholder="—"
+                    className="w-full min-w-[80px] bg-transparent border-b border-transparent hover:border-gray-700 px-1 text-gray-300 placeholder-gray-700 focus:border-squid-pink focus:outline-none"
+                    aria-label={`Department of ${p.name}`}
+                  />
+                </td>
+                <td className="p-1">
+                  <div className="flex justify-center gap-1">
+                    {GENDERS.map(g => (
+                      <button
+                        key={g}
+                        onClick={() => updatePlayers([p.id], { gender: g })}
+                        className={`px-1.5 py-0.5 text-[10px] font-bold border ${p.gender === g ? `border-current ${genderClass(g)}` : 'border-transparent text-gray-700 hover:text-gray-400'}`}
+                      >
+                        {g}
+                      </button>
+                    ))}
+                  </div>
+                </td>
+                <td className="p-1 text-center">
+                  <button
+                    onClick={() => updatePlayers([p.id], { noGenderRestriction: !p.noGenderRestriction })}
+                    className={`w-6 h-6 border text-[10px] font-bold ${p.noGenderRestriction ? 'border-yellow-400 text-yellow-400' : 'border-gray-800 text-gray-700 hover:text-gray-400'}`}
+                    aria-pressed={Boolean(p.noGenderRestriction)}
+                    aria-label={`Toggle flexible marker for ${p.name}`}
+                  >
+                    0
+                  </button>
+                </td>
+                <td className="p-1 text-center">
+                  <button
+                    onClick={() => updatePlayers([p.id], { isHelper: !p.isHelper })}
+                    className={`w-6 h-6 border text-[10px] font-bold ${p.isHelper ? 'border-green-400 text-green-400' : 'border-gray-800 text-gray-700 hover:text-gray-400'}`}
+                    aria-pressed={Boolean(p.isHelper)}
+                    aria-label={`Toggle helper marker for ${p.name}`}
+                  >
+                    H
+                  </button>
+                </td>
+                <td className="p-1 text-center">
+                  <input
+                    type="number"
+                    value={p.rating ?? ''}
+                    onChange={(e) => updatePlayers([p.id], { rating: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="w-12 bg-transparent border-b border-gray-800 text-center text-white focus:border-squid-pink focus:outline-none"
+                    aria-label={`Rating of ${p.name}`}
+                  />
+                </td>
+                <td className="p-1 text-center">
+                  <button
+                    onClick={() => onChange(players.filter(other => other.id !== p.id))}
+                    className="text-gray-600 hover:text-red-400"
+                    aria-label={`Eliminate ${p.name}`}
+                    title="Eliminate"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <datalist id="roster-departments">
+          {departments.map(d => <option key={d} value={d} />)}
+        </datalist>
+        {visible.length === 0 && (
+          <p className="py-6 text-center text-xs font-mono text-gray-600">No players match this filter.</p>
+        )}
+      </div>
+      {visible.length !== players.length && (
+        <p className="mt-2 text-[10px] font-mono text-gray-500">Showing {visible.length} of {players.length}.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Player, Gender, ParsedPlayer } from '../types';
+import { Button } from './Button';
+import { getAvailableParsers } from '../services/rosterParsers';
+import { getGeminiKey, isGeminiKeyRemembered, setGeminiKey } from '../services/geminiService';
+
+interface ReviewRow extends ParsedPlayer {
+  key: string;
+  include: boolean;
+}
+
+const GENDERS = [Gender.Male, Gender.Female, Gender.NonBinary];
+
+// "Paste messy text" mode: a parser pulls names out of free text, then the host reviews,
+// corrects and picks the rows to add.
+export const RosterTextParser: React.FC<{
+  onImport: (players: Player[]) => void;
+  onClose: () => void;
+}> = ({ onImport, onClose }) => {
+  const parsers = getAvailableParsers();
+  const [text, setText] = useState('');
+  const [parserId, setParserId] = useState(parsers[0].id);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const parser = parsers.find(p => p.id === parserId) ?? parsers[0];
+  const [apiKey, setApiKey] = useState(getGeminiKey);
+  const [rememberKey, setRememberKey] = useState(isGeminiKeyRemembered);
+
+  const updateApiKey = (key: string, remember: boolean) => {
+    setApiKey(key);
+    setRememberKey(remember);
+    setGeminiKey(key, remember);
+  };
+
+  const runParser = async () => {
+    setIsParsing(true);
+    setError(null);
+    try {
+      const result = await parser.parse(text);
+      setRows(result.players.map(p => ({ ...p, key: uuidv4(), include: true })));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateRow = (key: string, patch: Partial<ReviewRow>) =>
+    setRows(prev => prev && prev.map(row => row.key === key ? { ...row, ...patch } : row));
+
+  const included = (rows ?? []).filter(row => row.include && row.name.trim());
+
+  const handleImport = () => {
+    onImport(included.map(row => ({
+      id: uuidv4(),
+      name: row.name.replace(/\s+/g, ' ').trim(),
+      gender: row.gender,
+      score: 0,
+      noGenderRestriction: false,
+      isHelper: false
+    })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">PARSE</span>TEXT
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          {rows === null ? (
+            <>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={'Paste a sign-up thread, email or list, e.g.\n1. Kim Ji-hoon (M)\nLee Seo-yeon - F\nAlex Park they/them'}
+                rows={10}
+                className="w-full bg-squid-dark border border-gray-700 p-3 text-white font-mono text-xs focus:border-squid-pink focus:outline-none"
+              />
+              <div className="flex flex-wrap items-center gap-2 font-mono text-xs text-gray-400 tracking-widest">
+                <span>PARSER</span>
+                {parsers.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setParserId(option.id)}
+                    className={`px-3 py-1 border transition-colors ${parser.id === option.id ? 'border-squid-pink text-white' : 'border-gray-700 hover:text-white'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] font-mono text-gray-500">{parser.description}</p>
+              {parser.requiresApiKey && (
+                <div className="flex flex-wrap items-center gap-3 font-mono text-xs text-gray-400 tracking-widest">
+                  <label className="flex flex-1 items-center gap-2 min-w-[16rem]">
+                    API KEY
+                    <input
+                      type="password"
+                      value={apiKey}
+                      onChange={(e) => updateApiKey(e.target.value, rememberKey)}
+                      placeholder="Paste your Gemini API key"
+                      autoComplete="off"
+                      className="flex-1 bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px]">
+                    <input
+                      type="checkbox"
+                      checked={rememberKey}
+                      onChange={(e) => updateApiKey(apiKey, e.target.checked)}
+                      className="accent-squid-pink"
+                    />
+                    REMEMBER ON THIS DEVICE
+                  </label>
+                </div>
+              )}
+              {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+            </>
+          ) : rows.length === 0 ? (
+            <p className="py-12 text-center text-sm font-mono text-gray-500">No names found. Go back and try another parser or tidy the text.</p>
+          ) : (
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-800 text-[10px]">
+                  <th className="p-1 w-6"></th>
+                  <th className="p-1 text-left">NAME</th>
+                  <th className="p-1">GENDER</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className={`border-b border-gray-900 ${row.include ? '' : 'opacity-40'}`}>
+                    <td className="p-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        onChange={(e) => updateRow(row.key, { include: e.target.checked })}
+                        className="accent-squid-pink"
+                        aria-label={`Include ${row.name}`}
+                      />
+                    </td>
+                    <td className="p-1">
+                      <input
+                        type="text"
+                        value={row.name}
+                        onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                        className="w-full bg-transparent border-b border-gray-800 px-1 text-white focus:border-squid-pink focus:outline-none"
+                      />
+                    </td>
+                    <td className="p-1">
+                      <div className="flex justify-center items-center gap-1">
+                        {GENDERS.map(g => (
+                          <button
+                            key={g}
+                            onClick={() => updateRow(row.key, { gender: g, genderStated: true })}
+                            className={`px-1.5 py-0.5 text-[10px] font-bold border ${row.gender === g ? 'border-squid-pink text-white' : 'border-transparent text-gray-600 hover:text-gray-300'}`}
+                          >
+                            {g}
+                          </button>
+                        ))}
+                        {row.genderStated === false && <span className="ml-1 text-yellow-400 text-[10px]" title="Gender was not in the text">?</span>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3 p-4 border-t border-gray-800">
+          {rows === null ? (
+            <>
+              <Button variant="secondary" onClick={onClose} className="text-xs py-2 px-4">CANCEL</Button>
+              <Button onClick={runParser} disabled={!text.trim() || isParsing || (parser.requiresApiKey && !apiKey.trim())} className="text-xs py-2 px-4">
+                {isParsing ? 'PARSING...' : 'PARSE'}
+              </Button>
+            </>
+          ) : (
+            <>
+              {rows.some(row => row.genderStated === false) && (
+                <span className="mr-auto text-[10px] font-mono text-yellow-400">? = gender not stated, defaulted to NB</span>
+              )}
+              <Button variant="secondary" onClick={() => setRows(null)} className="text-xs py-2 px-4">BACK</Button>
+              <Button onClick={handleImport} disabled={included.length === 0} className="text-xs py-2 px-4">
+                ADD {included.length} PLAYER{included.length === 1 ? '' : 'S'}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EventSchedule, GameDefinition, Matchup, ScheduledGame, Team } from '../types';
+import { downloadData } from '../utils';
+import { getGameLabel } from '../services/gameCatalog';
+import { buildSchedule, getScheduleBasis, getStationStatus } from '../services/stationScheduler';
+
+const formatClock = (iso: string | number) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const toTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+// Today at HH:MM
+const fromTimeInput = (value: string): string => {
+  const [hours, minutes] = value.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date.toISOString();
+};
+
+// Next full five minutes from now
+const defaultStart = () => {
+  const date = new Date();
+  date.setMinutes(Math.ceil((date.getMinutes() + 1) / 5) * 5, 0, 0);
+  return date.toISOString();
+};
+
+const numberField = 'w-14 bg-squid-dark border border-gray-700 px-2 py-1 text-white text-center focus:border-squid-pink focus:outline-none';
+
+// Several stations playing at once: build the timetable, follow it on a running clock and export it
+export const ScheduleView: React.FC<{
+  teams: Team[];
+  matchups: Matchup[];
+  games: GameDefinition[];
+  schedule: EventSchedule | null;
+  onChange: (schedule: EventSchedule | null) => void;
+  onClose: () => void;
+}> = ({ teams, matchups, games, schedule, onChange, onClose }) => {
+  const [stations, setStations] = useState(schedule?.stations ?? 2);
+  const [startsAt, setStartsAt] = useState(schedule?.startsAt ?? defaultStart());
+  const [restMinutes, setRestMinutes] = useState(schedule?.restMinutes ?? 10);
+  const [defaultMinutes, setDefaultMinutes] = useState(schedule?.defaultMinutes ?? 10);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const byId = useMemo(() => new Map(matchups.map(m => [m.id, m])), [matchups]);
+  const isStale = Boolean(schedule && schedule.basis !== getScheduleBasis(matchups, games, schedule.defaultMinutes));
+  const status = schedule ? getStationStatus(schedule, now) : [];
+  const startTimes: string[] = schedule ? Array.from(new Set(schedule.slots.map(s => s.start))) : [];
+  const usesDefault = matchups.some(m => !games.find(g => g.id === m.gameId)?.durationMinutes);
+
+  const build = () => {
+    if (schedule && !window.confirm('Replace the current schedule?')) return;
+    onChange(buildSchedule(matchups, games, { stations, startsAt, restMinutes, defaultMinutes }));
+  };
+
+  const label = (slot: ScheduledGame) => {
+    const matchup = byId.get(slot.matchupId);
+    return matchup ? `#${matchup.id} ${getGameLabel(matchup, games)}` : `#${slot.matchupId}`;
+  };
+
+  const handleExport = () => {
+    if (!schedule) return;
+    const rows = schedule.slots.map(slot => ({
+      station: slot.station + 1,
+      start: slot.start,
+      end: slot.end,
+      game: label(slot),
+      players: (byId.get(slot.matchupId)?.players ?? []).flatMap(p => p.player ? [{ team: p.color, name: p.player.name }] : [])
+    }));
+    downloadData({ schedule, rows }, `squid-schedule-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const renderSlot = (slot: ScheduledGame | null, caption: string) => {
+    const matchup = slot ? byId.get(slot.matchupId) : undefined;
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="text-[10px] tracking-widest text-gray-500">{caption}</div>
+        {slot ? (
+          <>
+            <div className="text-white truncate">{label(slot)}</div>
+            <div className="text-[10px] text-gray-400">{formatClock(slot.start)}–{formatClock(slot.end)}</div>
+            <div className="flex flex-wrap gap-x-2 text-[10px]">
+              {matchup?.players.filter(p => p.player).map(p => (
+                <span key={p.player!.id} style={{ color: teams.find(t => t.color === p.color)?.hex }}>{p.player!.name}</span>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="text-gray-700">—</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">EVENT</span>SCHEDULE
+          </h3>
+          <div className="flex items-center gap-6">
+            <span className="font-display text-2xl text-squid-pink tracking-widest">{new Date(now).toLocaleTimeString()}</span>
+            <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar space-y-6 font-mono text-xs">
+          {/* Settings */}
+          <div className="flex flex-wrap items-center gap-4 text-[10px] tracking-widest text-gray-400">
+            <label className="flex items-center gap-2">
+              STATIONS
+              <input type="number" min={1} value={stations} onChange={(e) => setStations(Math.max(1, parseInt(e.target.value, 10) || 1))} className={numberField} />
+            </label>
+            <label className="flex items-center gap-2">
+              START
+              <input
+                type="time"
+                value={toTimeInput(startsAt)}
+                onChange={(e) => e.target.value && setStartsAt(fromTimeInput(e.target.value))}
+                className="bg-squid-dark border border-gray-700 px-2 py-1 text-white focus:border-squid-pink focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-2" title="Least time between two games of the same player">
+              REST MIN
+              <input type="number" min={0} value={restMinutes} onChange={(e) => setRestMinutes(Math.max(0, parseInt(e.target.value, 10) || 0))} className={numberField} />
+            </label>
+            {usesDefault && (
+              <label className="flex items-center gap-2" title="Length of games without a duration in the game catalog">
+                GAME MIN
+                <input type="number" min={1} value={defaultMinutes} onChange={(e) => setDefaultMinutes(Math.max(1, parseInt(e.target.value, 10) || 1))} className={numberField} />
+              </label>
+            )}
+            <div className="flex gap-2 ml-auto">
+              <button onClick={build} disabled={matchups.length === 0} className="px-3 py-1 border border-squid-pink text-white hover:bg-squid-pink/20 disabled:opacity-30 disabled:cursor-not-allowed">
+                {schedule ? 'REBUILD' : 'BUILD'}
+              </button>
+              {schedule && (
+                <>
+                  <button onClick={handleExport} className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink">EXPORT</button>
+                  <button onClick={() => window.confirm('Clear the schedule?') && onChange(null)} className="px-3 py-1 border border-gray-700 text-gray-500 hover:text-red-400">CLEAR</button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {!schedule && (
+            <p className="text-gray-500">
+              No schedule yet. Each station takes the next game whose players are all free and have rested; no one is ever in two games at once.
+            </p>
+          )}
+
+          {isStale && (
+            <p className="p-2 border-l-2 border-yellow-400 bg-yellow-900/10 text-yellow-200">
+              The match order has changed since this schedule was built. Rebuild it to include the changes.
+            </p>
+          )}
+
+          {schedule && (
+            <>
+              {/* Now playing / up next */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {status.map(({ station, current, next }) => (
+                  <div key={station} className="border border-gray-800 bg-black/40 p-3">
+                    <div className="text-squid-pink tracking-widest mb-2">STATION {station + 1}</div>
+                    <div className="flex gap-3">
+                      {renderSlot(current, 'NOW PLAYING')}
+                      {renderSlot(next, 'UP NEXT')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Timetable */}
+              <div className="overflow-x-auto border border-gray-800">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="text-gray-500 text-[10px]">
+                      <th className="p-2 border-b border-r border-gray-800 w-20">START</th>
+                      {Array.from({ length: schedule.stations }, (_, station) => (
+                        <th key={station} className="p-2 border-b border-r border-gray-800">STATION {station + 1}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {startTimes.map(start => (
+                      <tr key={start} className="border-b border-gray-900">
+                        <td className="p-2 border-r border-gray-800 text-center text-squid-pink">{formatClock(start)}</td>
+                        {Array.from({ length: schedule.stations }, (_, station) => {
+                          const slot = schedule.slots.find(s => s.start === start && s.station === station);
+                          const isLive = slot && new Date(slot.start).getTime() <= now && now < new Date(slot.end).getTime();
+                          return (
+                            <td key={station} className={`p-2 border-r border-gray-800 ${isLive ? 'bg-squid-pink/10 text-white' : 'text-gray-300'}`}>
+                              {slot && (
+                                <>
+                                  <div className="truncate">{label(slot)}</div>
+                                  <div className="text-[10px] text-gray-500">until {formatClock(slot.end)}</div>
+                                </>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
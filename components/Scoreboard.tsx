@@ -1,14 +1,28 @@
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Team } from '../types';
-import { TEAM_CONFIG } from '../constants';
-import { getAverageScore, formatAverageScore } from '../utils';
-
-const getTotalScore = (team: Team): number => team.score || 0;
+import { Team, ScoringRules, TeamRanking } from '../types';
+import { formatAverageScore } from '../utils';
+import { DEFAULT_SCORING_RULES, getRankingScore, getRankingLabel, rankTeams } from '../services/scoringRules';
+
+const RANKING_CYCLE: TeamRanking[] = ['average', 'total', 'bestN'];
+
+// Static class names so Tailwind picks them up; one bar per team on large screens
+const LG_GRID_COLS: Record<number, string> = {
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+  5: 'lg:grid-cols-5',
+  6: 'lg:grid-cols-6',
+  7: 'lg:grid-cols-7',
+  8: 'lg:grid-cols-8',
+  9: 'lg:grid-cols-9',
+  10: 'lg:grid-cols-10'
+};
 
 interface ScoreboardProps {
   teams: Team[];
   condensed?: boolean;
+  rules?: ScoringRules;
+  onChangeRanking?: (ranking: TeamRanking) => void;
 }
 
 // --- VISUAL ASSETS ---
@@ -101,15 +115,16 @@ const ScoreboardFXStyles = () => (
   </style>
 );
 
-export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false }) => {
+export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false, rules = DEFAULT_SCORING_RULES, onChangeRanking }) => {
   const [displayScores, setDisplayScores] = useState<Record<string, number>>(() => {
     const initial: Record<string, number> = {};
     teams.forEach((team) => {
-      initial[team.color] = getAverageScore(team);
+      initial[team.color] = getRankingScore(team, rules);
     });
     return initial;
   });
-  const [showTotalScore, setShowTotalScore] = useState(false);
+  // Only the average has meaningful decimals
+  const isAverage = rules.ranking === 'average';
   const latestDisplayRef = useRef(displayScores);
 
   useEffect(() => {
@@ -119,7 +134,7 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
   useEffect(() => {
     if (typeof window === 'undefined' || teams.length === 0) return;
 
-    const getScoreValue = (team: Team) => showTotalScore ? getTotalScore(team) : getAverageScore(team);
+    const getScoreValue = (team: Team) => getRankingScore(team, rules);
 
     const startValues: Record<string, number> = {};
     const endValues: Record<string, number> = {};
@@ -158,10 +173,10 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
 
     raf = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(raf);
-  }, [teams, showTotalScore]);
+  }, [teams, rules]);
 
   // --- SCALING LOGIC ---
-  const getScoreValue = (team: Team) => showTotalScore ? getTotalScore(team) : getAverageScore(team);
+  const getScoreValue = (team: Team) => getRankingScore(team, rules);
   const scores = teams.map(team => getScoreValue(team));
   const currentMax = scores.length ? Math.max(...scores) : 0;
   const currentMin = scores.length ? Math.min(...scores) : 0;
@@ -186,13 +201,10 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
   
   const visualRange = Math.max(scaleMax - scaleMin, 1);
 
-  // Leader Logic
-  const sortedTeams = [...teams].sort((a, b) => getScoreValue(b) - getScoreValue(a));
-  const leader = sortedTeams[0];
-  const leaderScore = leader ? getScoreValue(leader) : 0;
-  const isTie =
-    sortedTeams.length > 1 &&
-    Math.abs(leaderScore - getScoreValue(sortedTeams[1])) < 0.001;
+  // Leader Logic: ranked by the chosen scoring rule
+  const { leaders } = rankTeams(teams, rules);
+  const leader = leaders[0];
+  const isTie = leaders.length > 1;
 
   // STATIC CASH PILE
   // A dense, aesthetically pleasing pile of money inside the sphere
@@ -326,7 +338,7 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
                  ) : (
                      <span 
                         className="text-2xl md:text-3xl font-display font-bold uppercase tracking-widest drop-shadow-md"
-                        style={{ color: TEAM_CONFIG[leader.color].hex, textShadow: `0 0 10px ${TEAM_CONFIG[leader.color].hex}40` }}
+                        style={{ color: leader.hex, textShadow: `0 0 10px ${leader.hex}40` }}
                      >
                         {leader.color}
                      </span>
@@ -340,15 +352,16 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
       {/* SCORE MODE TOGGLE BUTTON */}
       <div className="flex justify-center mb-4 relative z-10">
         <button
-          onClick={() => setShowTotalScore(!showTotalScore)}
-          className="px-6 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-600 hover:border-gray-500 text-gray-300 hover:text-white font-mono text-sm uppercase tracking-widest rounded transition-colors"
+          onClick={() => onChangeRanking?.(RANKING_CYCLE[(RANKING_CYCLE.indexOf(rules.ranking) + 1) % RANKING_CYCLE.length])}
+          disabled={!onChangeRanking}
+          className="px-6 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-600 hover:border-gray-500 text-gray-300 hover:text-white font-mono text-sm uppercase tracking-widest rounded transition-colors disabled:hover:bg-gray-800 disabled:cursor-default"
         >
-          {showTotalScore ? 'Total Score' : 'Avg Score'}
+          {getRankingLabel(rules)}
         </button>
       </div>
 
       {/* TEAM BARS */}
-      <div className={`grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 px-4 h-[350px] items-end relative z-10 ${condensed ? 'pt-2' : 'pt-10'}`}>
+      <div className={`grid grid-cols-2 md:grid-cols-3 ${LG_GRID_COLS[teams.length] ?? 'lg:grid-cols-6'} gap-4 px-4 h-[350px] items-end relative z-10 ${condensed ? 'pt-2' : 'pt-10'}`}>
         {teams.map((team) => {
            const score = getScoreValue(team);
            const animatedScore = displayScores[team.color] ?? score;
@@ -361,8 +374,8 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
              <div key={team.color} className="flex flex-col h-full justify-end group relative">
                <div
                  className="text-center font-display text-2xl mb-2 transition-all"
-                 style={{ color: TEAM_CONFIG[team.color].hex, textShadow: `0 0 18px ${TEAM_CONFIG[team.color].hex}` }}
-                 title={`${showTotalScore ? 'Total' : 'Average'}: ${showTotalScore ? animatedScore.toFixed(0) : formatAverageScore(animatedScore)}`}
+                 style={{ color: team.hex, textShadow: `0 0 18px ${team.hex}` }}
+                 title={`${getRankingLabel(rules)}: ${isAverage ? formatAverageScore(animatedScore) : animatedScore.toFixed(0)}`}
                >
                  {roundedScore}
                </div>
@@ -372,7 +385,7 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
                      <div
                        className="absolute inset-x-[-10px] bottom-0 top-auto h-full pointer-events-none opacity-40"
                        style={{
-                         background: `radial-gradient(circle at 50% 100%, ${TEAM_CONFIG[team.color].hex}55, transparent 60%)`,
+                         background: `radial-gradient(circle at 50% 100%, ${team.hex}55, transparent 60%)`,
                          filter: 'blur(20px)'
                        }}
                      />
@@ -380,8 +393,8 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
                        className="leader-beam absolute left-1/2 -translate-x-1/2 bottom-0 w-1.5 rounded-full"
                        style={{
                          height: `${heightPercent}%`,
-                         background: `linear-gradient(180deg, #fff, ${TEAM_CONFIG[team.color].hex})`,
-                         boxShadow: `0 0 15px ${TEAM_CONFIG[team.color].hex}`
+                         background: `linear-gradient(180deg, #fff, ${team.hex})`,
+                         boxShadow: `0 0 15px ${team.hex}`
                        }}
                      />
                    </>
@@ -389,14 +402,14 @@ export const Scoreboard: React.FC<ScoreboardProps> = ({ teams, condensed = false
                  <div className="w-full relative bg-gray-900/50 rounded-t-lg border-x border-t border-gray-700 overflow-hidden flex flex-col justify-end transition-all duration-1000" style={{ height: '100%' }}>
                    <div 
                       className="w-full transition-all duration-1000 ease-out relative"
-                      style={{ height: `${heightPercent}%`, backgroundColor: TEAM_CONFIG[team.color].hex }}
+                      style={{ height: `${heightPercent}%`, backgroundColor: team.hex }}
                    >
                       <div className="absolute inset-0 bg-white/12 bg-[linear-gradient(135deg,rgba(255,255,255,0.15)_25%,transparent_25%,transparent_50%,rgba(255,255,255,0.15)_50%,rgba(255,255,255,0.15)_75%,transparent_75%,transparent)] bg-[length:12px_12px]"></div>
                       <div className="absolute top-0 left-0 right-0 h-4 bg-white/40 blur-sm"></div>
                    </div>
                  </div>
                </div>
-                <div className={`mt-3 py-2 text-center text-xs font-bold uppercase tracking-widest ${TEAM_CONFIG[team.color].bg} text-white rounded-b-sm`}>
+                <div className={`mt-3 py-2 text-center text-xs font-bold uppercase tracking-widest ${team.bg} text-white rounded-b-sm`}>
                    {team.color.split(' ')[0]}
                 </div>
              </div>
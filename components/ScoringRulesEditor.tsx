@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { GameDefinition, Matchup, ScoringRules, TeamRanking } from '../types';
+import { Button } from './Button';
+import { RANKING_LABELS, sanitizeScoringRules } from '../services/scoringRules';
+import { getGameLabel } from '../services/gameCatalog';
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+const sectionTitle = 'text-xs font-mono text-squid-pink tracking-widest uppercase mb-2';
+const numberInput = 'bg-squid-dark border border-gray-700 px-2 py-1 text-center text-white font-mono focus:border-squid-pink focus:outline-none';
+
+// Host-facing editor for placement points, per-game multipliers, bonus/penalty presets and
+// the team ranking used by the Scoreboard. Changes apply on SAVE.
+export const ScoringRulesEditor: React.FC<{
+  rules: ScoringRules;
+  matchups: Matchup[];
+  games?: GameDefinition[];
+  onSave: (rules: ScoringRules) => void;
+  onClose: () => void;
+}> = ({ rules, matchups, games = [], onSave, onClose }) => {
+  const [draft, setDraft] = useState<ScoringRules>(rules);
+  const update = (patch: Partial<ScoringRules>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const setPlacement = (index: number, value: string) => {
+    update({ placementPoints: draft.placementPoints.map((p, i) => i === index ? Math.max(0, parseInt(value, 10) || 0) : p) });
+  };
+
+  const addPlacement = () => {
+    const last = draft.placementPoints[draft.placementPoints.length - 1];
+    update({ placementPoints: [...draft.placementPoints, last === undefined ? 10 : Math.max(0, last - 2)] });
+  };
+
+  const setMultiplier = (matchupId: number, value: string) => {
+    const factor = parseFloat(value);
+    const next = { ...draft.gameMultipliers };
+    if (!Number.isFinite(factor) || factor < 0 || factor === 1) delete next[matchupId];
+    else next[matchupId] = factor;
+    update({ gameMultipliers: next });
+  };
+
+  const updatePreset = (id: string, patch: { label?: string; points?: number }) => {
+    update({ presets: draft.presets.map(p => p.id === id ? { ...p, ...patch } : p) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-squid-card border-2 border-squid-pink shadow-[0_0_40px_rgba(237,27,118,0.3)]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h3 className="font-display text-2xl text-white uppercase tracking-widest">
+            <span className="text-squid-pink mr-2">SCORING</span>RULES
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white font-mono text-sm tracking-widest">CLOSE ✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+          <section>
+            <div className={sectionTitle}>Team Ranking</div>
+            <div className="flex flex-wrap items-center gap-2 font-mono text-xs">
+              {(Object.keys(RANKING_LABELS) as TeamRanking[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => update({ ranking: option })}
+                  className={`px-3 py-1 border uppercase tracking-widest ${draft.ranking === option ? 'border-squid-pink text-white bg-squid-pink/20' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                >
+                  {option === 'bestN' ? 'BEST N' : RANKING_LABELS[option]}
+                </button>
+              ))}
+              {draft.ranking === 'bestN' && (
+                <label className="flex items-center gap-2 text-gray-400 ml-2">
+                  N =
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.bestN}
+                    onChange={(e) => update({ bestN: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className={`w-16 ${numberInput}`}
+                  />
+                </label>
+              )}
+            </div>
+            <p className="mt-2 text-[10px] font-mono text-gray-500">
+              {draft.ranking === 'total' && 'Teams are ranked by the sum of all points.'}
+              {draft.ranking === 'average' && 'Teams are ranked by points per member, so team size does not matter.'}
+              {draft.ranking === 'bestN' && `Teams are ranked by their ${draft.bestN} highest-scoring members.`}
+            </p>
+          </section>
+
+          <section>
+            <div className={sectionTitle}>Placement Points</div>
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.placementPoints.map((points, index) => (
+                <label key={index} className="flex items-center gap-1 bg-black/40 border border-gray-800 px-2 py-1 text-xs font-mono text-gray-400">
+                  {ordinal(index + 1)}
+                  <input
+                    type="number"
+                    min={0}
+                    value={points}
+                    onChange={(e) => setPlacement(index, e.target.value)}
+                    className={`w-14 ${numberInput}`}
+                  />
+                </label>
+              ))}
+              <button onClick={addPlacement} className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink text-xs font-mono">
+                + PLACE
+              </button>
+              {draft.placementPoints.length > 0 && (
+                <button
+                  onClick={() => update({ placementPoints: draft.placementPoints.slice(0, -1) })}
+                  className="px-3 py-1 border border-gray-700 text-gray-300 hover:text-white text-xs font-mono"
+                >
+                  − PLACE
+                </button>
+              )}
+            </div>
+            <p className="mt-2 text-[10px] font-mono text-gray-500">
+              {draft.placementPoints.length === 0
+                ? 'No table set: a placement is worth one point per player beaten, plus one.'
+                : 'Placements below the last listed place score 0.'}
+            </p>
+          </section>
+
+          <section>
+            <div className={sectionTitle}>Game Multipliers</div>
+            {matchups.length === 0 ? (
+              <p className="text-[10px] font-mono text-gray-500">No games yet.</p>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                {matchups.map(m => (
+                  <label key={m.id} title={getGameLabel(m, games)} className="flex items-center gap-1 bg-black/40 border border-gray-800 px-2 py-1 text-xs font-mono text-gray-400">
+                    #{m.id} ×
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={draft.gameMultipliers[m.id] ?? 1}
+                      onChange={(e) => setMultiplier(m.id, e.target.value)}
+                      className={`w-14 ${numberInput}`}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="mt-2 text-[10px] font-mono text-gray-500">Scales the points recorded in each game's result.</p>
+          </section>
+
+          <section>
+            <div className={sectionTitle}>Bonuses &amp; Penalties</div>
+            <div className="space-y-2">
+              {draft.presets.map(preset => (
+                <div key={preset.id} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={preset.label}
+                    onChange={(e) => updatePreset(preset.id, { label: e.target.value })}
+                    placeholder="Fair play"
+                    className="flex-1 bg-squid-dark border border-gray-700 px-2 py-1 text-white text-sm focus:border-squid-pink focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    value={preset.points}
+                    onChange={(e) => updatePreset(preset.id, { points: parseInt(e.target.value, 10) || 0 })}
+                    className={`w-20 ${numberInput} ${preset.points < 0 ? 'text-red-400' : 'text-green-400'}`}
+                  />
+                  <button
+                    onClick={() => update({ presets: draft.presets.filter(p => p.id !== preset.id) })}
+                    className="px-2 text-gray-500 hover:text-red-400"
+                    aria-label={`Remove ${preset.label}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2 text-xs font-mono">
+                <button
+                  onClick={() => update({ presets: [...draft.presets, { id: uuidv4(), label: 'Bonus', points: 3 }] })}
+                  className="px-3 py-1 border border-gray-700 text-green-400 hover:border-green-500"
+                >
+                  + BONUS
+                </button>
+                <button
+                  onClick={() => update({ presets: [...draft.presets, { id: uuidv4(), label: 'Penalty', points: -2 }] })}
+                  className="px-3 py-1 border border-gray-700 text-red-400 hover:border-red-500"
+                >
+                  + PENALTY
+                </button>
+              </div>
+            </div>
+            <p className="mt-2 text-[10px] font-mono text-gray-500">Presets show up on the player score pad and are logged by name.</p>
+          </section>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-800">
+          <Button variant="secondary" onClick={onClose} className="text-xs py-2 px-4">CANCEL</Button>
+          <Button onClick={() => onSave(sanitizeScoringRules(draft))} className="text-xs py-2 px-4">SAVE RULES</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { TeamConfig } from '../types';
+import { DEFAULT_TEAM_PALETTE, FALLBACK_TEAM_STYLE, MIN_TEAMS, MAX_TEAMS, Icons } from '../constants';
+
+// Number of teams plus each team's name, hex and Tailwind class.
+// Names double as team keys (and seed streams), so they must be unique.
+export const TeamSetup: React.FC<{
+  palette: TeamConfig[];
+  onChange: (palette: TeamConfig[]) => void;
+  error: string | null;
+}> = ({ palette, onChange, error }) => {
+  const setTeamCount = (count: number) => {
+    const target = Math.min(MAX_TEAMS, Math.max(MIN_TEAMS, count));
+    if (target <= palette.length) {
+      onChange(palette.slice(0, target));
+      return;
+    }
+    const next = [...palette];
+    const usedNames = new Set(next.map(t => t.color.trim().toLowerCase()));
+    DEFAULT_TEAM_PALETTE.forEach(config => {
+      if (next.length < target && !usedNames.has(config.color.toLowerCase())) {
+        next.push({ ...config });
+        usedNames.add(config.color.toLowerCase());
+      }
+    });
+    while (next.length < target) {
+      next.push({ color: `Team ${next.length + 1}`, ...FALLBACK_TEAM_STYLE });
+    }
+    onChange(next);
+  };
+
+  const updateTeam = (index: number, patch: Partial<TeamConfig>) => {
+    onChange(palette.map((team, i) => i === index ? { ...team, ...patch } : team));
+  };
+
+  const resetPalette = () => {
+    onChange(DEFAULT_TEAM_PALETTE.slice(0, palette.length).map(config => ({ ...config })));
+  };
+
+  return (
+    <div className="bg-squid-card border border-gray-800 p-6 rounded-sm shadow-2xl relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-1 bg-squid-pink"></div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-2xl font-display flex items-center gap-2">
+          <Icons.Triangle className="w-5 h-5 text-squid-pink" /> TEAMS
+        </h2>
+        <div className="flex items-center gap-2 font-mono text-xs text-gray-400 tracking-widest">
+          <button
+            onClick={() => setTeamCount(palette.length - 1)}
+            disabled={palette.length <= MIN_TEAMS}
+            className="w-8 h-8 border border-gray-700 text-white hover:border-squid-pink disabled:opacity-30"
+            aria-label="Fewer teams"
+          >
+            −
+          </button>
+          <span className="w-16 text-center text-white">{palette.length} TEAMS</span>
+          <button
+            onClick={() => setTeamCount(palette.length + 1)}
+            disabled={palette.length >= MAX_TEAMS}
+            className="w-8 h-8 border border-gray-700 text-white hover:border-squid-pink disabled:opacity-30"
+            aria-label="More teams"
+          >
+            +
+          </button>
+          <button onClick={resetPalette} className="ml-2 px-3 py-1 border border-gray-700 text-gray-300 hover:text-white hover:border-squid-pink transition-colors">
+            DEFAULT COLORS
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {palette.map((team, index) => (
+          <div key={index} className="flex items-center gap-2 bg-squid-dark border border-gray-800 p-2">
+            <div className={`w-6 h-6 shrink-0 border border-white/30 ${team.bg}`} title={team.bg}></div>
+            <input
+              type="text"
+              value={team.color}
+              onChange={(e) => updateTeam(index, { color: e.target.value })}
+              onBlur={() => updateTeam(index, { color: team.color.trim() })}
+              className="flex-1 min-w-0 bg-transparent border-b border-gray-700 px-1 text-white font-display uppercase focus:border-squid-pink focus:outline-none"
+              aria-label={`Team ${index + 1} name`}
+            />
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(team.hex) ? team.hex : FALLBACK_TEAM_STYLE.hex}
+              onChange={(e) => updateTeam(index, { hex: e.target.value })}
+              className="w-8 h-6 bg-transparent border-0 cursor-pointer"
+              aria-label={`Team ${index + 1} color`}
+            />
+            <input
+              type="text"
+              value={team.bg}
+              onChange={(e) => updateTeam(index, { bg: e.target.value.trim() })}
+              className="w-28 bg-transparent border-b border-gray-700 px-1 text-gray-400 font-mono text-[10px] focus:border-squid-pink focus:outline-none"
+              aria-label={`Team ${index + 1} Tailwind class`}
+              placeholder="bg-red-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs font-mono text-red-400 tracking-wider">{error}</p>
+      )}
+    </div>
+  );
+};
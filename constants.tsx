@@ -1,14 +1,25 @@
-import { TeamColor } from './types';
+import { TeamConfig } from './types';
 import React from 'react';
 
-export const TEAM_CONFIG: Record<TeamColor, { hex: string; bg: string; text?: string }> = {
-  [TeamColor.Red]: { hex: '#ef4444', bg: 'bg-red-500' },
-  [TeamColor.Blue]: { hex: '#3b82f6', bg: 'bg-blue-500' },
-  [TeamColor.Green]: { hex: '#249f9c', bg: 'bg-teal-500' }, // Classic Squid Green
-  [TeamColor.Yellow]: { hex: '#eab308', bg: 'bg-yellow-500' },
-  [TeamColor.Pink]: { hex: '#ed1b76', bg: 'bg-pink-600' }, // Classic Squid Pink
-  [TeamColor.Purple]: { hex: '#a855f7', bg: 'bg-purple-500' },
-};
+export const MIN_TEAMS = 3;
+export const MAX_TEAMS = 10;
+export const DEFAULT_TEAM_COUNT = 6;
+
+// The first six are the original teams; the rest are offered when more teams are configured
+export const DEFAULT_TEAM_PALETTE: TeamConfig[] = [
+  { color: 'Red', hex: '#ef4444', bg: 'bg-red-500' },
+  { color: 'Blue', hex: '#3b82f6', bg: 'bg-blue-500' },
+  { color: 'Green', hex: '#249f9c', bg: 'bg-teal-500' }, // Classic Squid Green
+  { color: 'Yellow', hex: '#eab308', bg: 'bg-yellow-500' },
+  { color: 'Pink', hex: '#ed1b76', bg: 'bg-pink-600' }, // Classic Squid Pink
+  { color: 'Purple', hex: '#a855f7', bg: 'bg-purple-500' },
+  { color: 'Orange', hex: '#f97316', bg: 'bg-orange-500' },
+  { color: 'Cyan', hex: '#06b6d4', bg: 'bg-cyan-500' },
+  { color: 'Lime', hex: '#65a30d', bg: 'bg-lime-600' },
+  { color: 'Indigo', hex: '#6366f1', bg: 'bg-indigo-500' },
+];
+
+export const FALLBACK_TEAM_STYLE = { hex: '#6b7280', bg: 'bg-gray-500' };
 
 export const Icons = {
   Circle: ({ className }: { className?: string }) => (
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AudienceDisplay } from './components/AudienceDisplay';
+import { isAudienceWindow } from './services/audienceChannel';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isAudienceWindow() ? <AudienceDisplay /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,67 @@
+import { GameDefinition, Matchup, ScoringRules, Team } from '../types';
+
+// The host window drives a second, control-free window for the projector.
+// Both windows run from the same origin and talk over a BroadcastChannel; the host sends a full
+// snapshot when the scoreboard or the phase changes and whenever an audience window says hello.
+// Raffle ticks while rolling only carry the raffle state.
+
+const CHANNEL_NAME = 'squid-audience';
+const AUDIENCE_PARAM = 'audience';
+
+export type AudienceView = 'scoreboard' | 'raffle';
+
+// Raffle state as the audience should see it, mirrored tick by tick while rolling
+export interface AudienceRaffle {
+  seed: string;
+  drawIndex: number;
+  winnerIds: string[];
+  rollingId: string | null;
+  drawnId: string | null;
+  isRolling: boolean;
+}
+
+export interface AudienceSnapshot {
+  view: AudienceView;
+  teams: Team[];
+  matchups: Matchup[];
+  games: GameDefinition[];
+  currentGame: number | null;
+  rules: ScoringRules;
+  raffle: AudienceRaffle | null;
+}
+
+export type AudienceMessage =
+  | { type: 'hello' }
+  | { type: 'snapshot'; snapshot: AudienceSnapshot }
+  | { type: 'raffle'; raffle: AudienceRaffle | null };
+
+export interface AudienceChannel {
+  post: (message: AudienceMessage) => void;
+  close: () => void;
+}
+
+export const isAudienceSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined';
+
+export const isAudienceWindow = (): boolean =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has(AUDIENCE_PARAM);
+
+export const openAudienceWindow = () => {
+  const url = new URL(window.location.href);
+  url.search = `?${AUDIENCE_PARAM}`;
+  url.hash = '';
+  window.open(url.toString(), 'squid-audience');
+};
+
+// Returns null where BroadcastChannel is missing; the host then simply has no audience screen
+export const connectAudienceChannel = (onMessage: (message: AudienceMessage) => void): AudienceChannel | null => {
+  if (!isAudienceSupported()) return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<AudienceMessage>) => {
+    if (event.data && typeof event.data.type === 'string') onMessage(event.data);
+  };
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
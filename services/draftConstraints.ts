@@ -0,0 +1,150 @@
+import { DraftConstraint, DraftConstraintKind, Player, Team, TeamColor } from '../types';
+
+// Keep-apart groups, keep-together groups and pinned teams set up before the lottery.
+// pickBatch follows them while drafting; the checks here explain up front which ones cannot
+// be met, and afterwards which ones the finished teams broke.
+
+export const CONSTRAINT_LABELS: Record<DraftConstraintKind, string> = {
+  apart: 'KEEP APART',
+  together: 'KEEP TOGETHER',
+  pin: 'PIN TO TEAM'
+};
+
+export interface ConstraintProblem {
+  constraint: DraftConstraint;
+  message: string;
+  reason?: string; // why the draft could not follow the rule
+}
+
+const names = (ids: string[], byId: Map<string, Player>) =>
+  ids.map(id => byId.get(id)?.name ?? 'removed player').join(', ');
+
+export const getPinnedTeam = (constraints: DraftConstraint[], playerId: string): TeamColor | undefined =>
+  constraints.find(c => c.kind === 'pin' && c.team && c.playerIds.includes(playerId))?.team;
+
+// Players that must be on the same team as `playerId` (hard) or should be (soft)
+export const getPartnerIds = (constraints: DraftConstraint[], playerId: string, hard: boolean): string[] =>
+  constraints
+    .filter(c => c.kind === 'together' && c.hard === hard && c.playerIds.includes(playerId))
+    .flatMap(c => c.playerIds)
+    .filter(id => id !== playerId);
+
+// True when `playerId` shares a keep-apart group of the given strength with any of `teamIds`
+export const hasApartConflict = (constraints: DraftConstraint[], playerId: string, teamIds: Set<string>, hard: boolean): boolean =>
+  constraints.some(c =>
+    c.kind === 'apart' && c.hard === hard && c.playerIds.includes(playerId)
+    && c.playerIds.some(id => id !== playerId && teamIds.has(id))
+  );
+
+// Drop players who are no longer registered and pins to teams that no longer exist;
+// rules left with too few players are removed
+export const pruneConstraints = (constraints: DraftConstraint[], players: Player[], colors: TeamColor[]): DraftConstraint[] => {
+  const ids = new Set(players.map(p => p.id));
+  return constraints
+    .map(c => ({ ...c, playerIds: c.playerIds.filter(id => ids.has(id)) }))
+    .filter(c => c.kind === 'pin'
+      ? c.playerIds.length > 0 && Boolean(c.team) && colors.includes(c.team!)
+      : c.playerIds.length >= 2);
+};
+
+// Saved sessions and imported results are hand-editable JSON
+export const sanitizeConstraints = (raw: unknown): DraftConstraint[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: unknown): DraftConstraint[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const entry = item as Partial<Record<keyof DraftConstraint, unknown>>;
+    if (typeof entry.id !== 'string' || typeof entry.kind !== 'string' || !(entry.kind in CONSTRAINT_LABELS) || !Array.isArray(entry.playerIds)) return [];
+    const kind = entry.kind as DraftConstraintKind;
+    const playerIds = [...new Set<string>((entry.playerIds as unknown[]).filter((id): id is string => typeof id === 'string'))];
+    if (kind === 'pin') {
+      return typeof entry.team === 'string' ? [{ id: entry.id, kind: 'pin', playerIds, team: entry.team, hard: true }] : [];
+    }
+    return [{ id: entry.id, kind, playerIds, hard: entry.hard !== false }];
+  });
+};
+
+// Rules that cannot all be met whatever the draw, checked before the lottery
+export const findConstraintConflicts = (constraints: DraftConstraint[], players: Player[], colors: TeamColor[]): ConstraintProblem[] => {
+  const byId = new Map(players.map(p => [p.id, p]));
+  const problems: ConstraintProblem[] = [];
+
+  constraints.forEach((constraint, index) => {
+    const { kind, playerIds } = constraint;
+    if (kind === 'pin') {
+      if (constraint.team && !colors.includes(constraint.team)) {
+        problems.push({ constraint, message: `${names(playerIds, byId)} ${playerIds.length === 1 ? 'is' : 'are'} pinned to ${constraint.team}, which is not one of the teams.` });
+      }
+      playerIds.forEach(id => {
+        const otherPin = getPinnedTeam(constraints.slice(0, index), id);
+        if (otherPin && otherPin !== constraint.team) {
+          problems.push({ constraint, message: `${names([id], byId)} is pinned to both ${otherPin} and ${constraint.team}.` });
+        }
+      });
+      return;
+    }
+
+    const pins = [...new Set(playerIds.map(id => getPinnedTeam(constraints, id)).filter((c): c is TeamColor => Boolean(c)))];
+    if (kind === 'together' && pins.length > 1) {
+      problems.push({ constraint, message: `${names(playerIds, byId)} should play together but are pinned to ${pins.join(' and ')}.` });
+    }
+    if (kind === 'apart') {
+      if (playerIds.length > colors.length) {
+        problems.push({ constraint, message: `${playerIds.length} players cannot be kept apart with only ${colors.length} teams.` });
+      }
+      const pinnedTogether = pins.find(team => playerIds.filter(id => getPinnedTeam(constraints, id) === team).length > 1);
+      if (pinnedTogether) {
+        problems.push({ constraint, message: `${names(playerIds, byId)} should be kept apart but several are pinned to ${pinnedTogether}.` });
+      }
+      const clash = constraints.find(other =>
+        other.kind === 'together' && other.playerIds.filter(id => playerIds.includes(id)).length > 1
+      );
+      if (clash) {
+        problems.push({ constraint, message: `${names(clash.playerIds.filter(id => playerIds.includes(id)), byId)} are set to be both together and apart.` });
+      }
+    }
+  });
+
+  return problems;
+};
+
+// Rules the finished teams do not follow, with who ended up where and why
+export const findConstraintViolations = (teams: Team[], constraints: DraftConstraint[]): ConstraintProblem[] => {
+  const teamOf = new Map<string, TeamColor>();
+  const byId = new Map<string, Player>();
+  teams.forEach(team => team.members.forEach(m => { teamOf.set(m.id, team.color); byId.set(m.id, m); }));
+  const placed = (ids: string[]) => ids.filter(id => teamOf.has(id));
+  const conflicts = findConstraintConflicts(constraints, [...byId.values()], teams.map(t => t.color));
+  const problems: ConstraintProblem[] = [];
+  const report = (constraint: DraftConstraint, message: string) => problems.push({
+    constraint,
+    message,
+    reason: !constraint.hard
+      ? 'Soft rules give way to the gender balance.'
+      : conflicts.find(c => c.constraint === constraint)?.message
+        ?? 'No earlier team could take them without breaking another hard rule, and the last team takes everyone left.'
+  });
+
+  constraints.forEach(constraint => {
+    const ids = placed(constraint.playerIds);
+    if (constraint.kind === 'pin') {
+      const moved = ids.filter(id => teamOf.get(id) !== constraint.team);
+      if (moved.length > 0) {
+        report(constraint, `${names(moved, byId)} landed on ${teamOf.get(moved[0])} instead of ${constraint.team}.`);
+      }
+      return;
+    }
+    const byTeam = new Map<TeamColor, string[]>();
+    ids.forEach(id => byTeam.set(teamOf.get(id)!, [...(byTeam.get(teamOf.get(id)!) ?? []), id]));
+    if (constraint.kind === 'together' && byTeam.size > 1) {
+      const split = [...byTeam.entries()].map(([team, members]) => `${names(members, byId)} (${team})`).join(' / ');
+      report(constraint, `Split up: ${split}.`);
+    }
+    if (constraint.kind === 'apart') {
+      [...byTeam.entries()].filter(([, members]) => members.length > 1).forEach(([team, members]) => {
+        report(constraint, `${names(members, byId)} are all on ${team}.`);
+      });
+    }
+  });
+
+  return problems;
+};
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameDefinition, GameDivision, Matchup } from '../types';
+
+// The event's list of games. generateMatchups walks it in order to decide which players each
+// row needs; rows point back at their game by id so every screen can show its name.
+
+export const DIVISION_LABELS: Record<GameDivision, string> = {
+  male: 'MALE',
+  female: 'FEMALE',
+  mixed: 'MIXED'
+};
+
+export const createGame = (patch: Partial<GameDefinition> = {}): GameDefinition => ({
+  id: uuidv4(),
+  name: 'New game',
+  description: '',
+  division: 'mixed',
+  playersPerTeam: 1,
+  durationMinutes: 10,
+  scoring: 'rank',
+  ...patch
+});
+
+export const getGame = (games: GameDefinition[], gameId: string | undefined): GameDefinition | undefined =>
+  gameId ? games.find(g => g.id === gameId) : undefined;
+
+// "Tug of War", or "Game 3" for rows without a catalog game
+export const getGameLabel = (matchup: Matchup, games: GameDefinition[]): string =>
+  getGame(games, matchup.gameId)?.name ?? `Game ${matchup.id}`;
+
+const toCount = (value: unknown, fallback: number, min: number): number => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+// Saved sessions and imported catalogs are hand-editable JSON
+export const sanitizeGames = (raw: unknown): GameDefinition[] => {
+  // A bare list, or an exported catalog file that wraps it as { games: [...] }
+  const wrapped = typeof raw === 'object' && raw !== null && 'games' in raw ? raw.games : undefined;
+  const list: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+  const seen = new Set<string>();
+  return list.flatMap((item): GameDefinition[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const entry = item as Partial<Record<keyof GameDefinition, unknown>>;
+    if (typeof entry.name !== 'string' || !entry.name.trim()) return [];
+    const id = typeof entry.id === 'string' && entry.id && !seen.has(entry.id) ? entry.id : uuidv4();
+    seen.add(id);
+    return [{
+      id,
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : '',
+      division: typeof entry.division === 'string' && entry.division in DIVISION_LABELS ? entry.division as GameDivision : 'mixed',
+      playersPerTeam: toCount(entry.playersPerTeam, 1, 1),
+      durationMinutes: toCount(entry.durationMinutes, 10, 0),
+      scoring: entry.scoring === 'points' ? 'points' : 'rank'
+    }];
+  });
+};
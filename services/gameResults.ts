@@ -0,0 +1,43 @@
+import { Team, TeamColor, GameEntry, GameResult, ScoringRules } from '../types';
+import { getPlacementPoints, getGameMultiplier } from './scoringRules';
+
+// Per-game results recorded against Matchup rows. Points from games are added on top of the
+// score-log totals, worked out with the current scoring rules; clampScores runs after them.
+
+export const getEntryPoints = (result: GameResult, entry: GameEntry, rules: ScoringRules): number => {
+  const base = result.mode === 'points'
+    ? entry.points ?? 0
+    : entry.rank ? getPlacementPoints(entry.rank, result.entries.length, rules) : 0;
+  return Math.round(base * getGameMultiplier(result.matchupId, rules));
+};
+
+export const getGamePointsByTeam = (result: GameResult, rules: ScoringRules): Record<TeamColor, number> =>
+  result.entries.reduce((acc, entry) => {
+    acc[entry.color] = (acc[entry.color] ?? 0) + getEntryPoints(result, entry, rules);
+    return acc;
+  }, {} as Record<TeamColor, number>);
+
+const shiftScores = (teams: Team[], results: GameResult[], rules: ScoringRules, sign: 1 | -1): Team[] => {
+  if (results.length === 0) return teams;
+  const teamPoints: Record<string, number> = {};
+  const playerPoints: Record<string, number> = {};
+  results.forEach(result => {
+    result.entries.forEach(entry => {
+      const points = getEntryPoints(result, entry, rules);
+      teamPoints[entry.color] = (teamPoints[entry.color] ?? 0) + points;
+      playerPoints[entry.playerId] = (playerPoints[entry.playerId] ?? 0) + points;
+    });
+  });
+  return teams.map(team => ({
+    ...team,
+    score: (team.score || 0) + sign * (teamPoints[team.color] ?? 0),
+    members: team.members.map(m => ({ ...m, score: (m.score || 0) + sign * (playerPoints[m.id] ?? 0) }))
+  }));
+};
+
+export const applyGameResults = (teams: Team[], results: GameResult[], rules: ScoringRules): Team[] =>
+  shiftScores(teams, results, rules, 1);
+
+// Exported teams carry totals that already include their games; strip them before using as a base
+export const removeGameResults = (teams: Team[], results: GameResult[], rules: ScoringRules): Team[] =>
+  shiftScores(teams, results, rules, -1);
@@ -1,15 +1,53 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ParsedPlayerResponse } from '../types';
+import { Gender, ParsedPlayerResponse } from '../types';
+
+// The host types their own Gemini API key in the roster parser. It stays in memory for this tab,
+// or in this browser's localStorage if they ask to remember it; it is never part of the build.
+const LOCAL_STORAGE_GEMINI_KEY = 'squid-gemini-key';
+
+let geminiKey = (() => {
+  try {
+    return localStorage.getItem(LOCAL_STORAGE_GEMINI_KEY) ?? '';
+  } catch {
+    return '';
+  }
+})();
+
+export const getGeminiKey = (): string => geminiKey;
+
+export const hasGeminiKey = (): boolean => Boolean(geminiKey);
+
+// An empty key forgets the stored one as well
+export const setGeminiKey = (key: string, remember: boolean) => {
+  geminiKey = key.trim();
+  try {
+    if (geminiKey && remember) localStorage.setItem(LOCAL_STORAGE_GEMINI_KEY, geminiKey);
+    else localStorage.removeItem(LOCAL_STORAGE_GEMINI_KEY);
+  } catch {
+    // Private browsing: the key still works for this tab
+  }
+};
+
+export const isGeminiKeyRemembered = (): boolean => {
+  try {
+    return Boolean(localStorage.getItem(LOCAL_STORAGE_GEMINI_KEY));
+  } catch {
+    return false;
+  }
+};
+
+const GENDERS = Object.values(Gender) as string[];
 
 export const parseNamesWithGemini = async (rawText: string): Promise<ParsedPlayerResponse | null> => {
-  if (!process.env.API_KEY) {
+  if (!geminiKey) {
     console.error("API Key not found");
     return null;
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
   try {
+    // Loaded on first use so sessions that never use Gemini don't load the SDK
+    const { GoogleGenAI, Type } = await import("@google/genai");
+    const ai = new GoogleGenAI({ apiKey: geminiKey });
+
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: `Extract a list of names and their genders from the following text. 
@@ -42,7 +80,18 @@ export const parseNamesWithGemini = async (rawText: string): Promise<ParsedPlaye
     });
 
     if (response.text) {
-      return JSON.parse(response.text) as ParsedPlayerResponse;
+      const parsed: unknown = JSON.parse(response.text);
+      // The schema is a request, not a guarantee
+      const list = typeof parsed === 'object' && parsed !== null && 'players' in parsed ? parsed.players : undefined;
+      const players: unknown[] = Array.isArray(list) ? list : [];
+      return {
+        players: players.flatMap(item => {
+          if (typeof item !== 'object' || item === null) return [];
+          const { name, gender } = item as { name?: unknown; gender?: unknown };
+          if (typeof name !== 'string' || !name.trim()) return [];
+          return [{ name: name.trim(), gender: typeof gender === 'string' && GENDERS.includes(gender) ? gender as Gender : Gender.NonBinary }];
+        })
+      };
     }
     return null;
 
@@ -0,0 +1,198 @@
+import { Bracket, BracketFormat, BracketMatch, BracketSource, TeamColor } from '../types';
+
+// Team-vs-team knockout for the finale. The bracket only stores its structure and the winners
+// the host entered; who plays whom is worked out from the seeds each time, so changing an
+// early result re-routes everything after it. Empty first-round slots are byes that advance
+// the other team on their own.
+
+// Opening pairs for a bracket of `size` slots so the top seeds meet as late as possible:
+// 1v8, 4v5, 2v7, 3v6 for eight
+const seedOrder = (size: number): number[] => {
+  let order = [0];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap(seed => [seed, next - 1 - seed]);
+  }
+  return order;
+};
+
+const fromMatch = (matchId: string, take: 'winner' | 'loser'): BracketSource => ({ matchId, take });
+
+const createMatch = (id: string, side: BracketMatch['side'], round: number, sources: [BracketSource, BracketSource]): BracketMatch =>
+  ({ id, side, round, sources, winner: null });
+
+export const createBracket = (seeds: TeamColor[], format: BracketFormat): Bracket => {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(Math.max(2, seeds.length))));
+  const winnersRounds = Math.log2(size);
+  const order = seedOrder(size);
+  const matches: BracketMatch[] = [];
+
+  for (let round = 1; round <= winnersRounds; round++) {
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      matches.push(createMatch(`W${round}-${i + 1}`, 'winners', round, round === 1
+        ? [{ seed: order[2 * i] }, { seed: order[2 * i + 1] }]
+        : [fromMatch(`W${round - 1}-${2 * i + 1}`, 'winner'), fromMatch(`W${round - 1}-${2 * i + 2}`, 'winner')]));
+    }
+  }
+
+  if (format === 'double') {
+    // Losers bracket: odd rounds pair up the survivors, even rounds take in the teams just
+    // knocked out of the next winners round, in reverse order to put off rematches
+    const losersRounds = 2 * (winnersRounds - 1);
+    for (let round = 1; round <= losersRounds; round++) {
+      const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+      for (let i = 0; i < count; i++) {
+        let sources: [BracketSource, BracketSource];
+        if (round === 1) {
+          sources = [fromMatch(`W1-${2 * i + 1}`, 'loser'), fromMatch(`W1-${2 * i + 2}`, 'loser')];
+        } else if (round % 2 === 0) {
+          sources = [fromMatch(`L${round - 1}-${i + 1}`, 'winner'), fromMatch(`W${round / 2 + 1}-${count - i}`, 'loser')];
+        } else {
+          sources = [fromMatch(`L${round - 1}-${2 * i + 1}`, 'winner'), fromMatch(`L${round - 1}-${2 * i + 2}`, 'winner')];
+        }
+        matches.push(createMatch(`L${round}-${i + 1}`, 'losers', round, sources));
+      }
+    }
+    const losersChampion = losersRounds > 0 ? fromMatch(`L${losersRounds}-1`, 'winner') : fromMatch('W1-1', 'loser');
+    matches.push(createMatch('GF-1', 'final', 1, [fromMatch(`W${winnersRounds}-1`, 'winner'), losersChampion]));
+    // Only played when the losers-bracket team wins the first final
+    matches.push(createMatch('GF-2', 'final', 2, [fromMatch('GF-1', 'winner'), fromMatch('GF-1', 'loser')]));
+  }
+
+  return { format, seeds, matches, createdAt: new Date().toISOString() };
+};
+
+// pending: waiting on an earlier match; ready: both teams known, no winner yet;
+// bye: decided without playing; skipped: the bracket reset that was not needed
+export type BracketMatchStatus = 'pending' | 'ready' | 'decided' | 'bye' | 'skipped';
+
+export interface ResolvedMatch {
+  match: BracketMatch;
+  teams: [TeamColor | null, TeamColor | null];
+  pending: [boolean, boolean]; // slot still waits on an earlier match
+  status: BracketMatchStatus;
+  winner: TeamColor | null;
+  loser: TeamColor | null;
+}
+
+export interface ResolvedBracket {
+  matches: ResolvedMatch[];
+  champion: TeamColor | null;
+}
+
+export const resolveBracket = (bracket: Bracket): ResolvedBracket => {
+  const byId = new Map<string, ResolvedMatch>();
+
+  const resolveSource = (source: BracketSource): { team: TeamColor | null; pending: boolean } => {
+    if ('seed' in source) return { team: bracket.seeds[source.seed] ?? null, pending: false };
+    const earlier = byId.get(source.matchId);
+    if (!earlier || earlier.status === 'pending' || earlier.status === 'ready') return { team: null, pending: true };
+    return { team: source.take === 'winner' ? earlier.winner : earlier.loser, pending: false };
+  };
+
+  const matches = bracket.matches.map(match => {
+    const [a, b] = match.sources.map(resolveSource);
+    const teams: [TeamColor | null, TeamColor | null] = [a.team, b.team];
+    const pending: [boolean, boolean] = [a.pending, b.pending];
+    let status: BracketMatchStatus;
+    let winner: TeamColor | null = null;
+    let loser: TeamColor | null = null;
+
+    const firstFinal = match.id === 'GF-2' ? byId.get('GF-1') : undefined;
+    if (firstFinal && firstFinal.status === 'decided' && firstFinal.winner === firstFinal.teams[0]) {
+      status = 'skipped';
+    } else if (a.pending || b.pending) {
+      status = 'pending';
+    } else if (a.team && b.team) {
+      if (match.winner && teams.includes(match.winner)) {
+        status = 'decided';
+        winner = match.winner;
+        loser = winner === a.team ? b.team : a.team;
+      } else {
+        status = 'ready';
+      }
+    } else {
+      status = 'bye';
+      winner = a.team ?? b.team;
+    }
+
+    const resolved: ResolvedMatch = { match, teams, pending, status, winner, loser };
+    byId.set(match.id, resolved);
+    return resolved;
+  });
+
+  let champion: TeamColor | null = null;
+  if (bracket.format === 'double') {
+    const reset = byId.get('GF-2');
+    const first = byId.get('GF-1');
+    champion = reset?.status === 'skipped' ? first?.winner ?? null : reset?.winner ?? null;
+  } else {
+    const final = matches[matches.length - 1];
+    champion = final && (final.status === 'decided' || final.status === 'bye') ? final.winner : null;
+  }
+
+  return { matches, champion };
+};
+
+// Sets or clears a match winner, then drops later results whose teams no longer play there
+export const setBracketWinner = (bracket: Bracket, matchId: string, winner: TeamColor | null): Bracket => {
+  let next: Bracket = { ...bracket, matches: bracket.matches.map(m => m.id === matchId ? { ...m, winner } : m) };
+  for (;;) {
+    const stale = new Set(resolveBracket(next).matches
+      .filter(r => r.match.winner && r.status !== 'decided')
+      .map(r => r.match.id));
+    if (stale.size === 0) return next;
+    next = { ...next, matches: next.matches.map(m => stale.has(m.id) ? { ...m, winner: null } : m) };
+  }
+};
+
+// Column heading for a round
+export const getBracketRoundLabel = (bracket: Bracket, side: BracketMatch['side'], round: number): string => {
+  if (side === 'final') return round === 1 ? 'GRAND FINAL' : 'FINAL RESET';
+  if (side === 'losers') return `LOSERS ROUND ${round}`;
+  const fromEnd = Math.max(...bracket.matches.filter(m => m.side === 'winners').map(m => m.round)) - round;
+  if (fromEnd === 0) return bracket.format === 'double' ? 'WINNERS FINAL' : 'FINAL';
+  if (fromEnd === 1) return 'SEMIFINALS';
+  if (fromEnd === 2) return 'QUARTERFINALS';
+  return `ROUND ${round}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// A clean copy of a slot source, or null when it is neither a seed nor an earlier match
+const toSource = (raw: unknown): BracketSource | null => {
+  if (!isRecord(raw)) return null;
+  if (typeof raw.seed === 'number') return { seed: raw.seed };
+  if (typeof raw.matchId === 'string' && (raw.take === 'winner' || raw.take === 'loser')) return { matchId: raw.matchId, take: raw.take };
+  return null;
+};
+
+// Saved sessions and exported results are hand-editable JSON
+export const sanitizeBracket = (raw: unknown): Bracket | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.seeds) || !Array.isArray(raw.matches)) return null;
+  const seen = new Set<string>();
+  const matches: BracketMatch[] = [];
+  for (const m of raw.matches as unknown[]) {
+    if (!isRecord(m) || typeof m.id !== 'string' || seen.has(m.id) || !Array.isArray(m.sources) || m.sources.length !== 2) return null;
+    const [first, second] = (m.sources as unknown[]).map(toSource);
+    if (!first || !second) return null;
+    // Sources must point backwards, or resolving would never settle
+    if ([first, second].some(s => 'matchId' in s && !seen.has(s.matchId))) return null;
+    seen.add(m.id);
+    matches.push({
+      id: m.id,
+      side: m.side === 'losers' || m.side === 'final' ? m.side : 'winners',
+      round: Math.max(1, Math.round(Number(m.round) || 1)),
+      sources: [first, second],
+      winner: typeof m.winner === 'string' ? m.winner : null
+    });
+  }
+  if (matches.length === 0) return null;
+  return {
+    format: raw.format === 'double' ? 'double' : 'single',
+    seeds: (raw.seeds as unknown[]).filter((s): s is TeamColor => typeof s === 'string'),
+    matches,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString()
+  };
+};
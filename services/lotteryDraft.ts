@@ -0,0 +1,353 @@
+import { Player, Team, TeamColor, Gender, DraftConstraint } from '../types';
+import { RandomSource, canonicalOrder, shuffle } from './random';
+import { getPartnerIds, getPinnedTeam, hasApartConflict } from './draftConstraints';
+
+// Pure draft rules behind the lottery: gender targets per team and the batch picked for each team.
+// LotteryPhase animates these picks; the fairness audit replays them thousands of times.
+
+export const GENDER_KEYS: Gender[] = [Gender.Male, Gender.Female, Gender.NonBinary];
+
+export type GenderTargets = Record<TeamColor, Record<Gender, number>>;
+
+export const createGenderCount = (): Record<Gender, number> => ({
+  [Gender.Male]: 0,
+  [Gender.Female]: 0,
+  [Gender.NonBinary]: 0
+});
+
+// Build gender targets only from players WITH gender restrictions (not "0" marked)
+// This determines how many M/F/NB each team should have (excluding flexible players)
+export const buildGenderTargets = (players: Player[], colors: TeamColor[]): GenderTargets => {
+  const template = colors.reduce((acc, color) => {
+    acc[color] = createGenderCount();
+    return acc;
+  }, {} as GenderTargets);
+
+  const colorCount = colors.length;
+  if (colorCount === 0) return template;
+
+  // Only count players WITHOUT noGenderRestriction for gender distribution
+  const genderRestrictedPlayers = players.filter(p => !p.noGenderRestriction);
+
+  const genderTotals = genderRestrictedPlayers.reduce((acc, player) => {
+    acc[player.gender] = (acc[player.gender] ?? 0) + 1;
+    return acc;
+  }, createGenderCount());
+
+  GENDER_KEYS.forEach(gender => {
+    const total = genderTotals[gender];
+    if (total === 0) {
+      colors.forEach(color => {
+        template[color][gender] = 0;
+      });
+      return;
+    }
+
+    const base = Math.floor(total / colorCount);
+    const remainder = total % colorCount;
+    colors.forEach((color, idx) => {
+      template[color][gender] = base + (idx < remainder ? 1 : 0);
+    });
+  });
+
+  return template;
+};
+
+export const getTargetSize = (genderTargets: GenderTargets, color: TeamColor): number =>
+  (Object.values(genderTargets[color] || createGenderCount()) as number[]).reduce((sum, count) => sum + count, 0);
+
+// Optional rules on top of the gender targets; replaying a draw needs the same options
+export interface DraftOptions {
+  constraints?: DraftConstraint[];
+  ratingSpread?: number | null; // largest allowed gap between team average ratings; off when unset
+}
+
+// Players who can take each other's place without changing the gender mix
+const isSameDraftGroup = (a: Player, b: Player) => a.noGenderRestriction
+  ? Boolean(b.noGenderRestriction)
+  : !b.noGenderRestriction && a.gender === b.gender;
+
+// Average rating of the rated players; unrated players count as this average
+export const getAverageRating = (players: Player[]): number | null => {
+  const rated = players.filter(p => typeof p.rating === 'number');
+  return rated.length > 0 ? rated.reduce((sum, p) => sum + p.rating!, 0) / rated.length : null;
+};
+
+// Each team's average rating as the draft balances it, or null when nobody is rated
+export const getTeamAverageRatings = (teams: Team[]): Record<TeamColor, number> | null => {
+  const mean = getAverageRating(teams.flatMap(t => t.members));
+  if (mean === null) return null;
+  return Object.fromEntries(teams.map(team => [
+    team.color,
+    team.members.length > 0 ? team.members.reduce((sum, p) => sum + (p.rating ?? mean), 0) / team.members.length : mean
+  ]));
+};
+
+// --- Logic: Pick Players ---
+// Flexible ("0" marked) players should go to teams that are SHORT on players
+// to fill empty slots in matchups.
+// The pool is put in canonical order first, so the same rng stream always yields the same picks.
+// Draft constraints are applied on top: pinned players and hard keep-together partners join
+// regardless of the gender targets, hard keep-apart groups are never mixed, and soft rules only
+// decide the order in which otherwise-equal candidates are tried. Departments are spread by picking,
+// within each gender slot, whoever's department is most under-represented. With a rating spread set, the
+// batch is then evened out by swapping players of the same group. With no options the picks
+// are exactly the unconstrained ones.
+export const pickBatch = (
+  unorderedPool: Player[],
+  color: TeamColor,
+  snapshotTeams: Team[],
+  genderTargets: GenderTargets,
+  rng: RandomSource,
+  options: DraftOptions = {}
+): Player[] => {
+  const { constraints = [], ratingSpread = null } = options;
+  const pool = canonicalOrder(unorderedPool);
+  const poolById = new Map(pool.map(p => [p.id, p]));
+  const targetByGender = genderTargets[color] || createGenderCount();
+
+  // Calculate base team size from gender targets (without flexible)
+  const genderBasedSize = getTargetSize(genderTargets, color);
+
+  const currentTeam = snapshotTeams.find(t => t.color === color);
+  const assignedMembers = currentTeam?.members ?? [];
+
+  // Count already assigned by gender (excluding flexible players)
+  const assignedCounts = assignedMembers.reduce((acc, member) => {
+    if (!member.noGenderRestriction) {
+      acc[member.gender] = (acc[member.gender] ?? 0) + 1;
+    }
+    return acc;
+  }, createGenderCount());
+
+  const usedIds = new Set<string>();
+  const teamIds = new Set(assignedMembers.map(m => m.id));
+  const batch: Player[] = [];
+  let flexibleTaken = 0;
+
+  // Department spread: each department's expected head count here follows its share of the players
+  // still undrafted, so later teams make up for what earlier teams took
+  const departmentTotals = new Map<string, number>();
+  pool.forEach(p => { if (p.department) departmentTotals.set(p.department, (departmentTotals.get(p.department) ?? 0) + 1); });
+  const departmentCounts = new Map<string, number>();
+  const countDepartment = (player: Player, change: number) => {
+    if (player.department) departmentCounts.set(player.department, (departmentCounts.get(player.department) ?? 0) + change);
+  };
+  assignedMembers.forEach(member => countDepartment(member, 1));
+
+  const take = (player: Player) => {
+    usedIds.add(player.id);
+    teamIds.add(player.id);
+    countDepartment(player, 1);
+    batch.push(player);
+    if (player.noGenderRestriction) flexibleTaken += 1;
+    else assignedCounts[player.gender] = (assignedCounts[player.gender] ?? 0) + 1;
+  };
+
+  // Players pinned to another team wait for that team
+  const isEligible = (player: Player) => {
+    const pinned = getPinnedTeam(constraints, player.id);
+    return !pinned || pinned === color;
+  };
+
+  // A player plus everyone hard-tied to them who is still in the pool
+  const unitOf = (player: Player): Player[] => {
+    const unit = [player];
+    for (let i = 0; i < unit.length; i++) {
+      getPartnerIds(constraints, unit[i].id, true).forEach(id => {
+        const partner = poolById.get(id);
+        if (partner && !usedIds.has(id) && !unit.includes(partner)) unit.push(partner);
+      });
+    }
+    return unit;
+  };
+
+  const canJoin = (unit: Player[]) => {
+    const ids = new Set([...teamIds, ...unit.map(p => p.id)]);
+    return unit.every(p => isEligible(p) && !hasApartConflict(constraints, p.id, ids, true));
+  };
+
+  const hasSoftPartnerOnTeam = (player: Player) => getPartnerIds(constraints, player.id, false).some(id => teamIds.has(id));
+
+  // Soft partners come along when there is room for them, or by swapping out a player
+  // of the same group who has no rules of their own
+  const constrainedIds = new Set(constraints.flatMap(c => c.playerIds));
+  const release = (player: Player) => {
+    usedIds.delete(player.id);
+    teamIds.delete(player.id);
+    batch.splice(batch.indexOf(player), 1);
+    countDepartment(player, -1);
+    if (player.noGenderRestriction) flexibleTaken -= 1;
+    else assignedCounts[player.gender] -= 1;
+  };
+  const bringSoftPartners = (player: Player, flexibleRoom: number) => {
+    getPartnerIds(constraints, player.id, false).forEach(id => {
+      const partner = poolById.get(id);
+      if (!partner || usedIds.has(id) || !canJoin(unitOf(partner)) || hasApartConflict(constraints, id, teamIds, false)) return;
+      const hasRoom = partner.noGenderRestriction
+        ? flexibleTaken < flexibleRoom
+        : assignedCounts[partner.gender] < (targetByGender[partner.gender] ?? 0);
+      const swap = hasRoom ? undefined : batch.find(p => isSameDraftGroup(p, partner) && !constrainedIds.has(p.id));
+      if (!hasRoom && !swap) return;
+      if (swap) release(swap);
+      unitOf(partner).forEach(take);
+    });
+  };
+
+  // Candidates with a soft partner already here go first, soft keep-apart clashes last
+  const PASSES: ((player: Player) => boolean)[] = [
+    hasSoftPartnerOnTeam,
+    player => !hasApartConflict(constraints, player.id, teamIds, false),
+    () => true
+  ];
+
+  // Within each pass the next pick is the candidate whose department is furthest below its share
+  // of this team; without departments that is simply the next one in shuffled order
+  const fill = (candidates: Player[], isFull: () => boolean, flexibleRoom: number) => {
+    PASSES.forEach(pass => {
+      const skipped = new Set<string>();
+      while (!isFull()) {
+        let next: Player | undefined;
+        let nextDeficit = -Infinity;
+        for (const player of candidates) {
+          if (usedIds.has(player.id) || skipped.has(player.id) || !pass(player)) continue;
+          const deficit = departmentDeficit(player);
+          if (deficit > nextDeficit + 1e-9) {
+            next = player;
+            nextDeficit = deficit;
+          }
+          if (departmentTotals.size === 0) break;
+        }
+        if (!next) break;
+        const unit = unitOf(next);
+        if (!canJoin(unit)) {
+          skipped.add(next.id);
+          continue;
+        }
+        unit.forEach(take);
+        bringSoftPartners(next, flexibleRoom);
+      }
+    });
+  };
+
+  // Teams with flexible players are topped up to the largest gender-based size
+  const teamGenderSizes = Object.keys(genderTargets).map(c => getTargetSize(genderTargets, c as TeamColor));
+  const maxGenderBasedSize = Math.max(...teamGenderSizes);
+  const thisTeamShortage = maxGenderBasedSize - genderBasedSize;
+
+  const expectedSize = genderBasedSize + Math.max(thisTeamShortage, 0);
+  const departmentDeficit = (player: Player) => player.department
+    ? (departmentTotals.get(player.department) ?? 0) * expectedSize / pool.length - (departmentCounts.get(player.department) ?? 0)
+    : 0;
+
+  if (constraints.length > 0) {
+    // Pinned players, and partners of players already on this team, join first
+    pool
+      .filter(p => getPinnedTeam(constraints, p.id) === color || getPartnerIds(constraints, p.id, true).some(id => teamIds.has(id)))
+      .forEach(player => {
+        if (!usedIds.has(player.id)) unitOf(player).filter(isEligible).forEach(take);
+      });
+
+    // A hard keep-apart group with more unplaced members than later teams can take
+    // needs one of them on this team now
+    const laterTeams = snapshotTeams.filter(t => t.color !== color && t.members.length === 0).map(t => t.color);
+    constraints.filter(c => c.kind === 'apart' && c.hard).forEach(constraint => {
+      if (constraint.playerIds.some(id => teamIds.has(id))) return;
+      const unplaced = constraint.playerIds.filter(id => poolById.has(id) && !usedIds.has(id));
+      const pinnedLater = new Set(unplaced.map(id => getPinnedTeam(constraints, id)).filter(team => team && laterTeams.includes(team)));
+      const free = unplaced.filter(id => !getPinnedTeam(constraints, id)).map(id => poolById.get(id)!);
+      if (free.length <= laterTeams.length - pinnedLater.size) return;
+      const hasRoom = (p: Player) => p.noGenderRestriction
+        ? flexibleTaken < thisTeamShortage
+        : assignedCounts[p.gender] < (targetByGender[p.gender] ?? 0);
+      const ordered = shuffle(free, rng).sort((a, b) => Number(hasRoom(b)) - Number(hasRoom(a)));
+      const choice = ordered.find(p => canJoin(unitOf(p)));
+      if (choice) unitOf(choice).forEach(take);
+    });
+  }
+
+  // Then pick gender-restricted players to meet gender targets
+  GENDER_KEYS.forEach(gender => {
+    const target = targetByGender[gender] ?? 0;
+    if (target - (assignedCounts[gender] ?? 0) <= 0) return;
+    // Only pick non-flexible players for gender slots
+    const available = pool.filter(p => p.gender === gender && !usedIds.has(p.id) && !p.noGenderRestriction && isEligible(p));
+    fill(shuffle(available, rng), () => (assignedCounts[gender] ?? 0) >= target, thisTeamShortage);
+  });
+
+  // Flexible players fill this team's shortage compared to the largest team
+  const flexibleInPool = pool.filter(p => p.noGenderRestriction && !usedIds.has(p.id) && isEligible(p));
+  if (thisTeamShortage - flexibleTaken > 0 && flexibleInPool.length > 0) {
+    fill(shuffle(flexibleInPool, rng), () => flexibleTaken >= thisTeamShortage, thisTeamShortage);
+  }
+
+  // Rating balance: swap players without rules of their own for same-group players from the pool
+  // until this team's average, and the average of everyone still to be drafted, are within half
+  // the spread of the overall average. Swaps are deterministic, so the rng stream is unchanged.
+  const mean = ratingSpread === null ? null : getAverageRating([...snapshotTeams.flatMap(t => t.members), ...pool]);
+  if (mean !== null && ratingSpread !== null) {
+    const value = (p: Player) => p.rating ?? mean;
+    const sumOf = (list: Player[]) => list.reduce((sum, p) => sum + value(p), 0);
+    const teamCount = assignedMembers.length + batch.length;
+    let teamSum = sumOf(assignedMembers) + sumOf(batch);
+    let rest = pool.filter(p => !usedIds.has(p.id));
+    let restSum = sumOf(rest);
+    const cost = (team: number, remaining: number) => Math.max(
+      teamCount > 0 ? Math.abs(team / teamCount - mean) : 0,
+      rest.length > 0 ? Math.abs(remaining / rest.length - mean) : 0
+    );
+
+    for (let round = 0; round < batch.length * 2 && cost(teamSum, restSum) > ratingSpread / 2; round++) {
+      let best: { out: Player; in: Player; cost: number } | null = null;
+      for (const out of batch.filter(p => !constrainedIds.has(p.id))) {
+        for (const candidate of rest) {
+          if (constrainedIds.has(candidate.id) || !isSameDraftGroup(out, candidate)) continue;
+          // Do not undo the department spread
+          if (candidate.department !== out.department && departmentDeficit(candidate) <= 0) continue;
+          const delta = value(candidate) - value(out);
+          const next = cost(teamSum + delta, restSum - delta);
+          if (next < (best?.cost ?? cost(teamSum, restSum)) - 1e-9) best = { out, in: candidate, cost: next };
+        }
+      }
+      if (!best) break;
+      const { out, in: incoming } = best;
+      batch[batch.indexOf(out)] = incoming;
+      usedIds.delete(out.id);
+      usedIds.add(incoming.id);
+      countDepartment(out, -1);
+      countDepartment(incoming, 1);
+      const delta = value(incoming) - value(out);
+      teamSum += delta;
+      restSum -= delta;
+      rest = rest.map(p => p === incoming ? out : p);
+    }
+  }
+
+  return batch;
+};
+
+// Finish the draft without animation, in the same order as the lottery's AUTO button:
+// every remaining team but the last gets a batch, the last team takes everyone left.
+// `players` is the full roster; anyone already on a team is skipped.
+// `colors` is the draft order and defaults to the order of `teams`.
+export const runDraft = (
+  players: Player[],
+  teams: Team[],
+  rngForTeam: (color: TeamColor) => RandomSource,
+  colors: TeamColor[] = teams.map(t => t.color),
+  options: DraftOptions = {}
+): Team[] => {
+  const genderTargets = buildGenderTargets(players, teams.map(t => t.color));
+  const assignedIds = new Set(teams.flatMap(t => t.members.map(m => m.id)));
+  let currentPool = players.filter(p => !assignedIds.has(p.id));
+  let currentTeams = [...teams];
+  const remainingColors = colors.filter(c => currentTeams.find(t => t.color === c)?.members.length === 0);
+  remainingColors.forEach((color, index) => {
+    const isLast = index === remainingColors.length - 1;
+    const winners = isLast ? currentPool : pickBatch(currentPool, color, currentTeams, genderTargets, rngForTeam(color), options);
+    currentTeams = currentTeams.map(t => t.color === color ? { ...t, members: winners } : t);
+    const winnerIds = new Set(winners.map(w => w.id));
+    currentPool = currentPool.filter(p => !winnerIds.has(p.id));
+  });
+  return currentTeams;
+};
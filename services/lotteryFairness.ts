@@ -0,0 +1,123 @@
+import { Player, TeamColor, TeamConfig } from '../types';
+import { createTeams } from '../utils';
+import { deriveRandom } from './random';
+import { DraftOptions, runDraft } from './lotteryDraft';
+
+// Statistical harness for the lottery: run the real draft rules many times and check that
+// every player lands on each team about as often as the other players drafted under the same rule.
+// Players are compared within their group (M / F / NB / flexible) because gender targets
+// legitimately give teams different shares of each group.
+
+export type FairnessGroup = 'M' | 'F' | 'NB' | 'FLEX';
+
+export interface PlayerFairness {
+  player: Player;
+  group: FairnessGroup;
+  counts: Record<TeamColor, number>;
+  expectedShares: Record<TeamColor, number>;
+  chiSquare: number;
+  maxShareDeviation: number; // largest |observed share - expected share| over all teams
+  flagged: boolean;
+}
+
+export interface FairnessReport {
+  runs: number;
+  seed: string;
+  colors: TeamColor[];
+  criticalValue: number; // per-player chi-square threshold at the chosen significance
+  players: PlayerFairness[]; // worst first
+  flaggedCount: number;
+}
+
+export interface FairnessOptions {
+  runs?: number;
+  seed?: string;
+  zScore?: number; // one-sided normal quantile; 3.09 ≈ p < 0.001
+  draft?: DraftOptions; // the constraints and rating spread the live lottery will use
+  onProgress?: (done: number, runs: number) => void;
+  signal?: AbortSignal;
+}
+
+// Lotteries simulated between yields to the browser, so the page stays responsive
+const RUNS_PER_CHUNK = 50;
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const getGroup = (player: Player): FairnessGroup => (player.noGenderRestriction ? 'FLEX' : player.gender);
+
+// Wilson–Hilferty approximation of the chi-square quantile
+const chiSquareCritical = (df: number, z: number): number => {
+  if (df <= 0) return Infinity;
+  const k = 2 / (9 * df);
+  return df * Math.pow(1 - k + z * Math.sqrt(k), 3);
+};
+
+// Resolves to null when the signal aborts the run
+export const simulateLotteryFairness = async (
+  players: Player[],
+  palette: TeamConfig[],
+  options: FairnessOptions = {}
+): Promise<FairnessReport | null> => {
+  const { runs = 2000, seed = 'FAIRNESS', zScore = 3.09, draft = {}, onProgress, signal } = options;
+  const emptyTeams = createTeams(palette);
+  const colors = emptyTeams.map(t => t.color);
+
+  const counts: Record<string, Record<TeamColor, number>> = {};
+  players.forEach(p => {
+    counts[p.id] = colors.reduce((acc, c) => ({ ...acc, [c]: 0 }), {} as Record<TeamColor, number>);
+  });
+
+  for (let start = 0; start < runs; start += RUNS_PER_CHUNK) {
+    await nextTick();
+    if (signal?.aborted) return null;
+    const end = Math.min(runs, start + RUNS_PER_CHUNK);
+    for (let run = start; run < end; run++) {
+      const drafted = runDraft(players, emptyTeams, color => deriveRandom(seed, 'audit', run, color), colors, draft);
+      drafted.forEach(team => team.members.forEach(m => { counts[m.id][team.color] += 1; }));
+    }
+    onProgress?.(end, runs);
+  }
+
+  // Pool each group's placements to get the share every member of that group should see
+  const groupTotals: Partial<Record<FairnessGroup, { size: number; byColor: Record<TeamColor, number> }>> = {};
+  players.forEach(p => {
+    const group = getGroup(p);
+    const entry = groupTotals[group] ?? { size: 0, byColor: {} as Record<TeamColor, number> };
+    entry.size += 1;
+    colors.forEach(c => { entry.byColor[c] = (entry.byColor[c] ?? 0) + counts[p.id][c]; });
+    groupTotals[group] = entry;
+  });
+
+  const results: PlayerFairness[] = players.map(player => {
+    const group = getGroup(player);
+    const totals = groupTotals[group]!;
+    const expectedShares = {} as Record<TeamColor, number>;
+    let chiSquare = 0;
+    let maxShareDeviation = 0;
+    let df = -1;
+    colors.forEach(c => {
+      const share = runs > 0 ? totals.byColor[c] / (totals.size * runs) : 0;
+      expectedShares[c] = share;
+      const expected = share * runs;
+      const observed = counts[player.id][c];
+      if (expected > 0) {
+        chiSquare += Math.pow(observed - expected, 2) / expected;
+        df += 1;
+      }
+      if (runs > 0) maxShareDeviation = Math.max(maxShareDeviation, Math.abs(observed / runs - share));
+    });
+    const flagged = chiSquare > chiSquareCritical(df, zScore);
+    return { player, group, counts: counts[player.id], expectedShares, chiSquare, maxShareDeviation, flagged };
+  });
+
+  results.sort((a, b) => b.chiSquare - a.chiSquare);
+
+  return {
+    runs,
+    seed,
+    colors,
+    criticalValue: chiSquareCritical(colors.length - 1, zScore),
+    players: results,
+    flaggedCount: results.filter(r => r.flagged).length
+  };
+};
@@ -0,0 +1,129 @@
+import { Player, TeamColor, Gender, DraftConstraint } from '../types';
+import { GENDER_KEYS, buildGenderTargets, createGenderCount, getTargetSize } from './lotteryDraft';
+import { CONSTRAINT_LABELS, findConstraintConflicts } from './draftConstraints';
+
+// Pre-lottery projection of what the draft rules will produce for the current roster and teams.
+// Sizes and gender mix are exact (the draft fills them deterministically); which players land
+// where, and so where the helpers go, is left to the draw.
+
+export interface TeamProjection {
+  color: TeamColor;
+  genders: Record<Gender, number>; // gender-restricted players
+  flexible: number; // "0" marked players
+  size: number;
+  expectedHelpers: number;
+}
+
+export interface FeasibilityIssue {
+  level: 'error' | 'warning';
+  message: string;
+  suggestion?: string;
+}
+
+export interface FeasibilityReport {
+  teams: TeamProjection[];
+  helpers: number;
+  issues: FeasibilityIssue[];
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Mirrors runDraft: teams in draft order top up to the largest gender-based size with flexible
+// players, the last team takes everyone left over.
+export const projectTeams = (players: Player[], colors: TeamColor[]): TeamProjection[] => {
+  const genderTargets = buildGenderTargets(players, colors);
+  const maxGenderBasedSize = Math.max(0, ...colors.map(color => getTargetSize(genderTargets, color)));
+  const helpers = players.filter(p => p.isHelper).length;
+  let flexibleLeft = players.filter(p => p.noGenderRestriction).length;
+
+  return colors.map((color, index) => {
+    const genders = { ...(genderTargets[color] || createGenderCount()) };
+    const genderBasedSize = getTargetSize(genderTargets, color);
+    const isLast = index === colors.length - 1;
+    const flexible = isLast ? flexibleLeft : Math.min(Math.max(maxGenderBasedSize - genderBasedSize, 0), flexibleLeft);
+    flexibleLeft -= flexible;
+    const size = genderBasedSize + flexible;
+    return {
+      color,
+      genders,
+      flexible,
+      size,
+      expectedHelpers: players.length > 0 ? (helpers * size) / players.length : 0
+    };
+  });
+};
+
+export const analyzeFeasibility = (players: Player[], colors: TeamColor[], constraints: DraftConstraint[] = []): FeasibilityReport => {
+  const teams = projectTeams(players, colors);
+  const helpers = players.filter(p => p.isHelper).length;
+  const issues: FeasibilityIssue[] = [];
+  const teamCount = colors.length;
+  if (teamCount === 0 || players.length === 0) return { teams, helpers, issues };
+
+  const emptyTeams = teams.filter(t => t.size === 0);
+  if (emptyTeams.length > 0) {
+    issues.push({
+      level: 'error',
+      message: `${emptyTeams.map(t => t.color).join(', ')} would get no players.`,
+      suggestion: `Register at least ${teamCount} players or use fewer teams.`
+    });
+  }
+
+  // Gender totals that do not split evenly leave some teams one short of that gender
+  const restricted = players.filter(p => !p.noGenderRestriction);
+  GENDER_KEYS.forEach(gender => {
+    const total = restricted.filter(p => p.gender === gender).length;
+    const remainder = total % teamCount;
+    if (total === 0 || remainder === 0) return;
+    const base = Math.floor(total / teamCount);
+    issues.push({
+      level: 'warning',
+      message: base === 0
+        ? `Only ${total} ${gender} for ${teamCount} teams: ${plural(teamCount - remainder, 'team')} will have none.`
+        : `${total} ${gender} across ${teamCount} teams: ${plural(remainder, 'team')} ${remainder === 1 ? 'gets' : 'get'} ${base + 1}, the rest get ${base}.`,
+      suggestion: `Add ${teamCount - remainder} more ${gender}, or mark ${remainder} ${gender} as flexible (0).`
+    });
+  });
+
+  // Flexible players only fill the gap up to the largest team; any surplus all goes to the last team
+  const genderBasedSizes = teams.map(t => t.size - t.flexible);
+  const maxGenderBasedSize = Math.max(...genderBasedSizes);
+  const gap = genderBasedSizes.reduce((sum, size) => sum + maxGenderBasedSize - size, 0);
+  const flexible = players.filter(p => p.noGenderRestriction).length;
+  const sizes = teams.map(t => t.size);
+  const spread = Math.max(...sizes) - Math.min(...sizes);
+  if (flexible < gap && spread > 0) {
+    issues.push({
+      level: 'warning',
+      message: `${plural(flexible, 'flexible player')} for ${plural(gap, 'open slot')}: team sizes will range from ${Math.min(...sizes)} to ${Math.max(...sizes)}.`,
+      suggestion: `Mark more players as flexible (0), or add flexible players, to even out team sizes.`
+    });
+  } else if (flexible > gap && spread > 1) {
+    const surplus = flexible - gap;
+    issues.push({
+      level: 'warning',
+      message: `${plural(surplus, 'extra flexible player')} will all go to ${teams[teams.length - 1].color}, making it ${spread} larger than the smallest team.`,
+      suggestion: `Remove the flexible (0) marker from some of them so the gender split spreads them across teams.`
+    });
+  }
+
+  // The draft does not place helpers, so fewer helpers than teams always leaves someone without one
+  if (helpers > 0 && helpers < teamCount) {
+    issues.push({
+      level: 'warning',
+      message: `${plural(helpers, 'helper')} for ${teamCount} teams: at least ${plural(teamCount - helpers, 'team')} will have no helper.`,
+      suggestion: `Mark ${teamCount - helpers} more player${teamCount - helpers === 1 ? '' : 's'} as helpers (H) or use fewer teams.`
+    });
+  }
+
+  // Draft rules that no draw can satisfy; the lottery still runs and reports them on the recap
+  findConstraintConflicts(constraints, players, colors).forEach(problem => {
+    issues.push({
+      level: 'warning',
+      message: `${CONSTRAINT_LABELS[problem.constraint.kind]}: ${problem.message}`,
+      suggestion: 'Edit or remove the rule under Draft Rules.'
+    });
+  });
+
+  return { teams, helpers, issues };
+};
@@ -0,0 +1,710 @@
+import { Player, Team, TeamColor, Matchup, MatchupPlayer, Gender, GameDefinition } from '../types';
+import { RandomSource, shuffle } from './random';
+import { SeatRepeat, balancePlayTime } from './playTime';
+
+// Which scheduling rule put a player into their matchup cell.
+export type MatchupPlacementRule =
+  | 'game1-anchor'      // first "0" marked player, pinned into Game 1
+  | 'game1-helper'      // the single helper pinned next to the anchor in Game 1
+  | 'helper-early'      // helper bucketed into the early slot of their gender rows
+  | 'helper-late'       // helper bucketed into the late slot of their gender rows
+  | 'gender-row'        // regular player filling their own gender row
+  | 'flexible-fill'     // "0" marked player filling a gap in a same-gender row
+  | 'flexible-overflow' // "0" marked player placed in an extra row after all gender rows
+  | 'catalog-overflow'  // player no catalog game's division could take, placed in an extra row
+  | 'play-time-repeat'; // least-played teammate filling a seat the team would leave empty
+
+export interface MatchupPlacement {
+  matchupId: number;
+  color: TeamColor;
+  playerId: string;
+  rule: MatchupPlacementRule;
+}
+
+export interface MatchupEngineInput {
+  teams: Team[];
+  // Game catalog in play order. When set, rows follow the games' divisions instead of
+  // alternating male and female rows, and each row records its game.
+  games?: GameDefinition[];
+  // Equal play time: short teams repeat players instead of leaving seats empty
+  balancePlayTime?: boolean;
+  // Games per player in earlier rounds, so equal play time evens out over the whole event
+  previousGames?: Map<string, number>;
+}
+
+export interface MatchupEngineOptions {
+  // Returns a float in [0, 1). Defaults to Math.random; inject a seeded source to reproduce a schedule.
+  rng?: RandomSource;
+}
+
+export interface MatchupEngineResult {
+  matchups: Matchup[];
+  placements: MatchupPlacement[];
+  game1AnchorId: string | null;
+  game1HelperId: string | null;
+}
+
+export const generateMatchups = (
+  input: MatchupEngineInput,
+  options: MatchupEngineOptions = {}
+): MatchupEngineResult => {
+  const currentTeams = input.teams;
+  const games = input.games ?? [];
+  const teamColors: TeamColor[] = currentTeams.map(t => t.color);
+  const rng = options.rng ?? Math.random;
+  const shuffleArray = <T,>(arr: T[]): T[] => shuffle(arr, rng);
+
+  // Rule that placed each player, keyed by player id. Anyone missing here is a plain 'gender-row' placement.
+  const ruleByPlayerId: Record<string, MatchupPlacementRule> = {};
+
+  // "0" marked players (noGenderRestriction) used to be fully flexible.
+  // New rule: the FIRST "0" marked player becomes the Game 1 anchor:
+  // - Game 1 starts with that player's gender (e.g. Female-first)
+  // - That player is pinned into Game 1 for their team
+  // - Other "0" marked players still fill gaps, but only within their own gender rows
+  const findGame1Anchor = (): Player | null => {
+    for (const color of teamColors) {
+      const team = currentTeams.find(t => t.color === color);
+      const found = team?.members?.find(m => m.noGenderRestriction);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  type RowGenderKey = 'male' | 'female' | 'nonBinary';
+  const toRowGenderKey = (gender: Gender): RowGenderKey => {
+    if (gender === Gender.Male) return 'male';
+    if (gender === Gender.Female) return 'female';
+    return 'nonBinary';
+  };
+
+  const game1Anchor = findGame1Anchor();
+  const game1Gender: RowGenderKey | null = game1Anchor ? toRowGenderKey(game1Anchor.gender) : null;
+
+  type HelperBucket = 'early' | 'late';
+  type HelperInfo = {
+    player: Player;
+    teamColor: TeamColor;
+    totalPlayers: number;
+  };
+
+  const getHelperBaseSlotConfig = (gender: Gender): { earlyIndex: number | null; lateIndex: number | null } => {
+    if (gender === Gender.NonBinary) return { earlyIndex: null, lateIndex: null };
+
+    const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
+
+    // Target helper games:
+    // - Special Game 01 helper is pinned to index 0 for the start gender.
+    // - For the start gender, DO NOT place additional helpers at index 1 (Game 3).
+    //   They should go to the late slot (index 2 => Game 5) to keep Game 3 balanced.
+    // - For the other gender, helpers can be early (index 0 => Game 2) and late (index 2 => Game 6).
+    if (game1Anchor && isStartGender) return { earlyIndex: null, lateIndex: 2 };
+    return { earlyIndex: 0, lateIndex: 2 };
+  };
+
+  const getHelperSlotConfig = (
+    gender: Gender,
+    totalPlayers: number
+  ): { earlyIndex: number | null; lateIndex: number | null } => {
+    const base = getHelperBaseSlotConfig(gender);
+    if (base.earlyIndex === null && base.lateIndex === null) {
+      return { earlyIndex: null, lateIndex: null };
+    }
+
+    const earlyIndex = totalPlayers > 0 && base.earlyIndex !== null && base.earlyIndex < totalPlayers ? base.earlyIndex : null;
+
+    // Make "late" usable even for smaller teams:
+    // - clamp to last index (e.g. base lateIndex=2, team has 2 players => lateIndex becomes 1)
+    // - never equal earlyIndex
+    let lateIndex: number | null = null;
+    if (base.lateIndex !== null && totalPlayers >= 2) {
+      lateIndex = Math.min(base.lateIndex, totalPlayers - 1);
+      if (earlyIndex !== null && lateIndex === earlyIndex) {
+        // For the start gender when a Game 01 helper is pinned at index 0,
+        // never force "late" into index 0 just to avoid a collision.
+        const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
+        if (game1Anchor && isStartGender) {
+          lateIndex = null;
+        } else {
+          lateIndex = totalPlayers >= 2 ? (earlyIndex === 0 ? 1 : 0) : null;
+        }
+      }
+
+      // Same guard: don't push a helper into Game 01 for the start gender.
+      const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
+      if (game1Anchor && isStartGender && lateIndex === 0) {
+        lateIndex = null;
+      }
+    }
+
+    return { earlyIndex, lateIndex };
+  };
+
+  const helperBucketAssignments: Partial<Record<string, HelperBucket>> = {};
+  const helperInfosByGender: Record<Gender, HelperInfo[]> = {
+    [Gender.Male]: [],
+    [Gender.Female]: [],
+    [Gender.NonBinary]: []
+  };
+
+  const pickGame1HelperId = (gender: Gender): string | null => {
+    const infos = helperInfosByGender[gender];
+    if (!infos.length) return null;
+    const best = [...infos]
+      .sort((a, b) => {
+        const firstChar = (name: string) => (name.trim().charAt(0).toUpperCase() || '\u0000');
+        const byFirst = firstChar(b.player.name).localeCompare(firstChar(a.player.name), undefined, { sensitivity: 'base' });
+        if (byFirst !== 0) return byFirst;
+        return b.player.name.localeCompare(a.player.name, undefined, { sensitivity: 'base' });
+      })[0];
+    return best?.player.id ?? null;
+  };
+
+  const initGenderCount = () => ({
+    [Gender.Male]: 0,
+    [Gender.Female]: 0,
+    [Gender.NonBinary]: 0
+  });
+
+  const helperBucketCapacities: Record<Gender, { early: number; late: number }> = {
+    [Gender.Male]: { early: 0, late: 0 },
+    [Gender.Female]: { early: 0, late: 0 },
+    [Gender.NonBinary]: { early: 0, late: 0 }
+  };
+
+  const pendingPools: Record<TeamColor, {
+    males: Player[];
+    females: Player[];
+    nonBinary: Player[];
+    flexible: Player[];
+  }> = {} as Record<TeamColor, {
+    males: Player[];
+    females: Player[];
+    nonBinary: Player[];
+    flexible: Player[];
+  }>;
+
+  const lockedFirstByTeamAndGender: Record<TeamColor, Partial<Record<Gender, Player>>> = {} as Record<
+    TeamColor,
+    Partial<Record<Gender, Player>>
+  >;
+
+  const genderCountsByTeam: Record<TeamColor, Record<Gender, number>> = {} as Record<TeamColor, Record<Gender, number>>;
+
+  teamColors.forEach(color => {
+    const team = currentTeams.find(t => t.color === color);
+    const members = team ? [...team.members] : [];
+
+    lockedFirstByTeamAndGender[color] = {};
+
+    const isAnchor = (player: Player) => Boolean(game1Anchor && player.id === game1Anchor.id);
+
+    // Anchor is treated as gender-specific (so it follows its gender) and pinned to Game 1.
+    // Other noGenderRestriction players remain flexible, but will only fill same-gender rows later.
+    const flexible = members.filter(m => m.noGenderRestriction && !isAnchor(m));
+    const genderSpecific = members.filter(m => !m.noGenderRestriction || isAnchor(m));
+
+    const malesAll = genderSpecific.filter(m => m.gender === Gender.Male);
+    const femalesAll = genderSpecific.filter(m => m.gender === Gender.Female);
+    const nonBinaryAll = genderSpecific.filter(m => m.gender === Gender.NonBinary);
+
+    const lockedMale = malesAll.find(isAnchor);
+    const lockedFemale = femalesAll.find(isAnchor);
+    const lockedNonBinary = nonBinaryAll.find(isAnchor);
+
+    if (lockedMale) lockedFirstByTeamAndGender[color][Gender.Male] = lockedMale;
+    if (lockedFemale) lockedFirstByTeamAndGender[color][Gender.Female] = lockedFemale;
+    if (lockedNonBinary) lockedFirstByTeamAndGender[color][Gender.NonBinary] = lockedNonBinary;
+    if (game1Anchor && (lockedMale || lockedFemale || lockedNonBinary)) ruleByPlayerId[game1Anchor.id] = 'game1-anchor';
+
+    // Remove locked player from the pool that gets shuffled/ordered; we'll prepend it back later.
+    const males = lockedMale ? malesAll.filter(p => p.id !== lockedMale.id) : malesAll;
+    const females = lockedFemale ? femalesAll.filter(p => p.id !== lockedFemale.id) : femalesAll;
+    const nonBinary = lockedNonBinary ? nonBinaryAll.filter(p => p.id !== lockedNonBinary.id) : nonBinaryAll;
+
+    pendingPools[color] = {
+      males,
+      females,
+      nonBinary,
+      flexible: shuffleArray(flexible)
+    };
+
+    const counts = initGenderCount();
+    counts[Gender.Male] = malesAll.length;
+    counts[Gender.Female] = femalesAll.length;
+    counts[Gender.NonBinary] = nonBinaryAll.length;
+    genderCountsByTeam[color] = counts;
+
+    malesAll.forEach(player => {
+      if (player.isHelper) {
+        if (isAnchor(player)) return;
+        helperInfosByGender[Gender.Male].push({ player, teamColor: color, totalPlayers: malesAll.length });
+      }
+    });
+
+    femalesAll.forEach(player => {
+      if (player.isHelper) {
+        if (isAnchor(player)) return;
+        helperInfosByGender[Gender.Female].push({ player, teamColor: color, totalPlayers: femalesAll.length });
+      }
+    });
+
+    nonBinaryAll.forEach(player => {
+      if (player.isHelper) {
+        if (isAnchor(player)) return;
+        helperInfosByGender[Gender.NonBinary].push({ player, teamColor: color, totalPlayers: nonBinaryAll.length });
+      }
+    });
+  });
+
+  // When a "0" anchor exists, pick EXACTLY ONE Game 01 helper (global, not per team)
+  // by first character Z→A (tie-breaker: full name), and exclude it from balancing.
+  const game1HelperId: string | null = game1Anchor ? pickGame1HelperId(game1Anchor.gender) : null;
+
+  teamColors.forEach(color => {
+    const counts = genderCountsByTeam[color];
+    ([Gender.Male, Gender.Female, Gender.NonBinary] as Gender[]).forEach(gender => {
+      const { earlyIndex, lateIndex } = getHelperSlotConfig(gender, counts[gender]);
+      if (earlyIndex !== null) {
+        helperBucketCapacities[gender].early += 1;
+      }
+      if (lateIndex !== null) {
+        helperBucketCapacities[gender].late += 1;
+      }
+    });
+  });
+
+  const assignBucketsForGender = (gender: Gender) => {
+    const infos = helperInfosByGender[gender].filter(info => info.player.id !== game1HelperId);
+    if (!infos.length) return;
+
+    const capacities = helperBucketCapacities[gender];
+    const randomized = shuffleArray(infos);
+    let lateAssigned = 0;
+
+    const usedLateTeams = new Set<TeamColor>();
+    const usedEarlyTeams = new Set<TeamColor>();
+
+    const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
+
+    // If Game 1 starts with this gender, keep the remaining helpers out of the "early" slot
+    // (which would otherwise land in Game 3 for that gender row). Put them into the late slot.
+    if (game1Anchor && isStartGender) {
+      if (capacities.late > 0) {
+        const lateEligible = randomized.filter(info => getHelperSlotConfig(gender, info.totalPlayers).lateIndex !== null);
+        const lateTarget = Math.min(infos.length, capacities.late, lateEligible.length);
+        if (lateTarget > 0) {
+          const shuffledEligible = shuffleArray(lateEligible);
+          let picked = 0;
+          for (const info of shuffledEligible) {
+            if (picked >= lateTarget) break;
+            if (usedLateTeams.has(info.teamColor)) continue;
+            helperBucketAssignments[info.player.id] = 'late';
+            usedLateTeams.add(info.teamColor);
+            picked++;
+          }
+        }
+      }
+      return;
+    }
+
+    if (capacities.late > 0) {
+      const lateEligible = randomized.filter(info => getHelperSlotConfig(gender, info.totalPlayers).lateIndex !== null);
+      const lateTarget = Math.min(Math.floor(infos.length / 2), capacities.late, lateEligible.length);
+      if (lateTarget > 0) {
+        const shuffledEligible = shuffleArray(lateEligible);
+        let picked = 0;
+        for (const info of shuffledEligible) {
+          if (picked >= lateTarget) break;
+          if (usedLateTeams.has(info.teamColor)) continue;
+          helperBucketAssignments[info.player.id] = 'late';
+          usedLateTeams.add(info.teamColor);
+          picked++;
+        }
+        lateAssigned = lateTarget;
+      }
+    }
+
+    if (capacities.early > 0) {
+      const remaining = randomized.filter(info => {
+        if (helperBucketAssignments[info.player.id]) return false;
+        if (usedEarlyTeams.has(info.teamColor)) return false;
+        return getHelperSlotConfig(gender, info.totalPlayers).earlyIndex !== null;
+      });
+      const desiredEarly = Math.min(infos.length - lateAssigned, capacities.early, remaining.length);
+      if (desiredEarly > 0) {
+        remaining.slice(0, desiredEarly).forEach(info => {
+          helperBucketAssignments[info.player.id] = 'early';
+          usedEarlyTeams.add(info.teamColor);
+        });
+      }
+    }
+  };
+
+  assignBucketsForGender(Gender.Male);
+  assignBucketsForGender(Gender.Female);
+
+  const buildOrderedList = (players: Player[], gender: Gender) => {
+    if (players.length === 0) return [];
+    const { earlyIndex, lateIndex } = getHelperSlotConfig(gender, players.length);
+
+    if (earlyIndex === null && lateIndex === null) {
+      return shuffleArray(players);
+    }
+
+    const shuffled = shuffleArray(players);
+    const earlyQueue: Player[] = [];
+    const lateQueue: Player[] = [];
+    const regulars: Player[] = [];
+    const helpers: Player[] = [];
+
+    shuffled.forEach(player => {
+      if (player.isHelper) {
+        helpers.push(player);
+      } else {
+        regulars.push(player);
+      }
+    });
+
+    // Decide which helpers (at most one each) get early/late.
+    // Special rule: when a "0" anchor exists, ONLY ONE helper globally is pinned into Game 01.
+    const isStartGender = Boolean(game1Anchor && game1Anchor.gender === gender);
+    const game1Pick = isStartGender && game1HelperId ? helpers.find(h => h.id === game1HelperId) : undefined;
+
+    const helpersForBuckets = game1Pick ? helpers.filter(h => h.id !== game1Pick.id) : helpers;
+
+    const bucketedEarly = helpersForBuckets.filter(h => helperBucketAssignments[h.id] === 'early');
+    const bucketedLate = helpersForBuckets.filter(h => helperBucketAssignments[h.id] === 'late');
+
+    const earlyPick = earlyIndex !== null ? bucketedEarly[0] : undefined;
+    const latePick = lateIndex !== null ? bucketedLate.find(h => h.id !== earlyPick?.id) : undefined;
+
+    const spilloverHelpers = helpersForBuckets.filter(h => h.id !== earlyPick?.id && h.id !== latePick?.id);
+
+    // For the start gender (when Game 01 is pinned), keep helpers out of index 1 (Game 3)
+    // by filling regulars first.
+    const remainingPool = isStartGender
+      ? [...shuffleArray(regulars), ...shuffleArray(spilloverHelpers)]
+      : shuffleArray([...regulars, ...spilloverHelpers]);
+
+    const ordered: Player[] = new Array(shuffled.length);
+    for (let idx = 0; idx < shuffled.length; idx++) {
+      if (game1Pick && idx === 0) {
+        ordered[idx] = game1Pick;
+        ruleByPlayerId[game1Pick.id] = 'game1-helper';
+        continue;
+      }
+      if (earlyIndex !== null && idx === earlyIndex && earlyPick) {
+        ordered[idx] = earlyPick;
+        ruleByPlayerId[earlyPick.id] = 'helper-early';
+        continue;
+      }
+      if (lateIndex !== null && idx === lateIndex && latePick) {
+        ordered[idx] = latePick;
+        ruleByPlayerId[latePick.id] = 'helper-late';
+        continue;
+      }
+      const next = remainingPool.shift();
+      if (next) ordered[idx] = next;
+    }
+
+    return ordered.filter(Boolean);
+  };
+
+  type TeamPool = {
+    color: TeamColor;
+    males: Player[];
+    females: Player[];
+    nonBinary: Player[];
+    flexible: Player[]; // Players with noGenderRestriction - can fill ANY empty slot
+  };
+
+  const poolsByColor: Record<TeamColor, TeamPool> = {} as Record<TeamColor, TeamPool>;
+
+  teamColors.forEach(color => {
+    const pending = pendingPools[color];
+    const locked = lockedFirstByTeamAndGender[color];
+
+    const orderedMalesBase = buildOrderedList(pending.males, Gender.Male);
+    const orderedFemalesBase = buildOrderedList(pending.females, Gender.Female);
+    const orderedNonBinaryBase = buildOrderedList(pending.nonBinary, Gender.NonBinary);
+
+    poolsByColor[color] = {
+      color,
+      males: locked?.[Gender.Male] ? [locked[Gender.Male]!, ...orderedMalesBase] : orderedMalesBase,
+      females: locked?.[Gender.Female] ? [locked[Gender.Female]!, ...orderedFemalesBase] : orderedFemalesBase,
+      nonBinary: locked?.[Gender.NonBinary] ? [locked[Gender.NonBinary]!, ...orderedNonBinaryBase] : orderedNonBinaryBase,
+      flexible: shuffleArray(pending.flexible)
+    };
+  });
+
+  const orderedPools = teamColors.map(color => poolsByColor[color]);
+  const matchups: Matchup[] = [];
+
+  // Calculate max rows needed - flexible players can fill any gender slot
+  // Find the team with the most total players (males + females + flexible)
+  const maxCounts = orderedPools.reduce(
+    (acc, pool) => {
+      // For male/female rows, count gender-specific + all flexible that could potentially fill
+      acc.maxMales = Math.max(acc.maxMales, pool.males.length);
+      acc.maxFemales = Math.max(acc.maxFemales, pool.females.length);
+      acc.maxNonBinary = Math.max(acc.maxNonBinary, pool.nonBinary.length);
+      acc.maxFlexible = Math.max(acc.maxFlexible, pool.flexible.length);
+      return acc;
+    },
+    { maxMales: 0, maxFemales: 0, maxNonBinary: 0, maxFlexible: 0 }
+  );
+
+  // Total rows needed = max(males) + max(females) + max(nonBinary) + extra rows for flexible
+  // But flexible should fill gaps, not create new rows
+
+  let maleRowIndex = 0;
+  let femaleRowIndex = 0;
+  let nonBinaryRowIndex = 0;
+  // Start Game 1 with the anchor's gender (Female-first if anchor is female).
+  // If no anchor exists, keep the historical default (Male-first).
+  let preferMale = game1Gender ? game1Gender === 'male' : true;
+
+  // Track used flexible players per team (mutable arrays for shifting)
+  const flexibleQueues: Record<TeamColor, Player[]> = {} as Record<TeamColor, Player[]>;
+  teamColors.forEach(color => {
+    flexibleQueues[color] = [...poolsByColor[color].flexible];
+  });
+
+  // Helper to get next available player, using flexible to fill empty slots
+  const getNextPlayer = (pool: TeamPool, gender: 'male' | 'female' | 'nonBinary', currentIndex: number): Player | null => {
+    let genderArray: Player[];
+    if (gender === 'male') genderArray = pool.males;
+    else if (gender === 'female') genderArray = pool.females;
+    else genderArray = pool.nonBinary;
+    
+    if (currentIndex < genderArray.length) {
+      return genderArray[currentIndex];
+    }
+    
+    // No gender-specific player available - try to use a flexible player to fill the gap,
+    // but ONLY if the flexible player's own gender matches this row.
+    const flexQueue = flexibleQueues[pool.color];
+
+    const desiredGender =
+      gender === 'male' ? Gender.Male : gender === 'female' ? Gender.Female : Gender.NonBinary;
+    const matchingIndex = flexQueue.findIndex(p => p.gender === desiredGender);
+    if (matchingIndex >= 0) {
+      const picked = flexQueue.splice(matchingIndex, 1)[0] ?? null;
+      if (picked) ruleByPlayerId[picked.id] = 'flexible-fill';
+      return picked;
+    }
+    
+    return null;
+  };
+
+  // Determine how many rows we actually need; with a game catalog the games decide instead
+  const totalMaleRows = games.length > 0 ? 0 : maxCounts.maxMales;
+  const totalFemaleRows = games.length > 0 ? 0 : maxCounts.maxFemales;
+  const totalNonBinaryRows = games.length > 0 ? 0 : maxCounts.maxNonBinary;
+
+  // Catalog mode: walk the game list in order, repeating it until everyone has played.
+  // Male and female games take the team's next player of that gender (or a "0" player of it);
+  // mixed games take from whichever gender the team has most players left.
+  if (games.length > 0) {
+    const rowKeys: RowGenderKey[] = ['male', 'female', 'nonBinary'];
+    const listFor = (pool: TeamPool, key: RowGenderKey) =>
+      key === 'male' ? pool.males : key === 'female' ? pool.females : pool.nonBinary;
+    const cursors: Record<TeamColor, Record<RowGenderKey, number>> = {} as Record<TeamColor, Record<RowGenderKey, number>>;
+    teamColors.forEach(color => { cursors[color] = { male: 0, female: 0, nonBinary: 0 }; });
+
+    const leftInGender = (color: TeamColor, key: RowGenderKey) => listFor(poolsByColor[color], key).length - cursors[color][key];
+    const leftInTeam = (color: TeamColor) =>
+      rowKeys.reduce((sum, key) => sum + leftInGender(color, key), 0) + flexibleQueues[color].length;
+
+    const takeGender = (color: TeamColor, key: RowGenderKey): Player | null => {
+      const index = cursors[color][key];
+      const player = getNextPlayer(poolsByColor[color], key, index);
+      if (index < listFor(poolsByColor[color], key).length) cursors[color][key]++;
+      return player;
+    };
+
+    const takeForGame = (color: TeamColor, game: GameDefinition): Player | null => {
+      if (game.division !== 'mixed') return takeGender(color, game.division);
+      const key = [...rowKeys].sort((a, b) => leftInGender(color, b) - leftInGender(color, a))[0];
+      if (leftInGender(color, key) > 0) return takeGender(color, key);
+      const flexible = flexibleQueues[color].shift() ?? null;
+      if (flexible) ruleByPlayerId[flexible.id] = 'flexible-fill';
+      return flexible;
+    };
+
+    let placedInPass = true;
+    while (placedInPass && teamColors.some(color => leftInTeam(color) > 0)) {
+      placedInPass = false;
+      for (const game of games) {
+        for (let heat = 0; heat < game.playersPerTeam; heat++) {
+          const rowPlayers: MatchupPlayer[] = teamColors.map(color => ({ color, player: takeForGame(color, game) }));
+          if (rowPlayers.some(entry => entry.player)) {
+            matchups.push({ id: matchups.length + 1, players: rowPlayers, gameId: game.id });
+            placedInPass = true;
+          }
+        }
+        if (!teamColors.some(color => leftInTeam(color) > 0)) break;
+      }
+    }
+
+    // Players of a gender no game is for (e.g. only male and female games) still get to play
+    while (teamColors.some(color => rowKeys.some(key => leftInGender(color, key) > 0))) {
+      const rowPlayers: MatchupPlayer[] = teamColors.map(color => {
+        const key = rowKeys.find(k => leftInGender(color, k) > 0);
+        if (!key) return { color, player: null };
+        const player = listFor(poolsByColor[color], key)[cursors[color][key]++];
+        ruleByPlayerId[player.id] = 'catalog-overflow';
+        return { color, player };
+      });
+      matchups.push({ id: matchups.length + 1, players: rowPlayers });
+    }
+  }
+
+  // If the anchor is NonBinary, force Game 1 to be the NonBinary row (if any rows exist).
+  if (game1Gender === 'nonBinary' && nonBinaryRowIndex < totalNonBinaryRows) {
+    const rowPlayers: MatchupPlayer[] = [];
+    teamColors.forEach(color => {
+      const pool = poolsByColor[color];
+      rowPlayers.push({ color, player: getNextPlayer(pool, 'nonBinary', nonBinaryRowIndex) });
+    });
+    nonBinaryRowIndex++;
+    if (rowPlayers.some(entry => entry.player)) {
+      matchups.push({ id: matchups.length + 1, players: rowPlayers });
+    }
+  }
+
+  while (
+    maleRowIndex < totalMaleRows ||
+    femaleRowIndex < totalFemaleRows ||
+    nonBinaryRowIndex < totalNonBinaryRows
+  ) {
+    const rowPlayers: MatchupPlayer[] = [];
+    let addedRow = false;
+
+    // Try to alternate between male and female, falling back if one is exhausted
+    if (preferMale && maleRowIndex < totalMaleRows) {
+      teamColors.forEach(color => {
+        const pool = poolsByColor[color];
+        rowPlayers.push({ color, player: getNextPlayer(pool, 'male', maleRowIndex) });
+      });
+      maleRowIndex++;
+      addedRow = true;
+      preferMale = false;
+    } else if (!preferMale && femaleRowIndex < totalFemaleRows) {
+      teamColors.forEach(color => {
+        const pool = poolsByColor[color];
+        rowPlayers.push({ color, player: getNextPlayer(pool, 'female', femaleRowIndex) });
+      });
+      femaleRowIndex++;
+      addedRow = true;
+      preferMale = true;
+    } else if (maleRowIndex < totalMaleRows) {
+      teamColors.forEach(color => {
+        const pool = poolsByColor[color];
+        rowPlayers.push({ color, player: getNextPlayer(pool, 'male', maleRowIndex) });
+      });
+      maleRowIndex++;
+      addedRow = true;
+    } else if (femaleRowIndex < totalFemaleRows) {
+      teamColors.forEach(color => {
+        const pool = poolsByColor[color];
+        rowPlayers.push({ color, player: getNextPlayer(pool, 'female', femaleRowIndex) });
+      });
+      femaleRowIndex++;
+      addedRow = true;
+    } else if (nonBinaryRowIndex < totalNonBinaryRows) {
+      teamColors.forEach(color => {
+        const pool = poolsByColor[color];
+        rowPlayers.push({ color, player: getNextPlayer(pool, 'nonBinary', nonBinaryRowIndex) });
+      });
+      nonBinaryRowIndex++;
+      addedRow = true;
+    }
+
+    if (!addedRow) break;
+
+    if (rowPlayers.some(entry => entry.player)) {
+      matchups.push({ id: matchups.length + 1, players: rowPlayers });
+    }
+  }
+
+  // After all gender rows, if there are still unused flexible players, add extra rows
+  // Check if any team still has flexible players
+  let hasRemainingFlexible = Object.values(flexibleQueues).some(q => q.length > 0);
+  while (hasRemainingFlexible) {
+    const rowPlayers: MatchupPlayer[] = [];
+    teamColors.forEach(color => {
+      const flexQueue = flexibleQueues[color];
+      const player = flexQueue.shift() || null;
+      if (player) ruleByPlayerId[player.id] = 'flexible-overflow';
+      rowPlayers.push({ color, player });
+    });
+    
+    if (rowPlayers.some(entry => entry.player)) {
+      matchups.push({ id: matchups.length + 1, players: rowPlayers });
+    }
+    
+    hasRemainingFlexible = Object.values(flexibleQueues).some(q => q.length > 0);
+  }
+
+  const numberedMatchups: Matchup[] = matchups.length === 0
+    ? [{ id: 1, players: teamColors.map(color => ({ color, player: null })) }]
+    : matchups.map((row, idx) => ({ ...row, id: idx + 1 }));
+
+  const { matchups: finalMatchups, repeats } = input.balancePlayTime
+    ? balancePlayTime(numberedMatchups, currentTeams, rng, { fixedRows: games.length > 0, previousGames: input.previousGames })
+    : { matchups: numberedMatchups, repeats: [] as SeatRepeat[] };
+  const repeatedSeats = new Set(repeats.map(r => `${r.matchupId}:${r.color}`));
+
+  const placements: MatchupPlacement[] = finalMatchups.flatMap(row =>
+    row.players
+      .filter((entry): entry is MatchupPlayer & { player: Player } => Boolean(entry.player))
+      .map(entry => ({
+        matchupId: row.id,
+        color: entry.color,
+        playerId: entry.player.id,
+        rule: repeatedSeats.has(`${row.id}:${entry.color}`) ? 'play-time-repeat' : ruleByPlayerId[entry.player.id] ?? 'gender-row'
+      }))
+  );
+
+  return {
+    matchups: finalMatchups,
+    placements,
+    game1AnchorId: game1Anchor?.id ?? null,
+    game1HelperId
+  };
+};
+
+// Imported results files are hand-editable JSON. Rows keep their id when it is a new positive
+// whole number, and seats point at the imported teams' players by id; anything else is dropped.
+export const sanitizeMatchups = (raw: unknown, teams: Team[]): Matchup[] => {
+  if (!Array.isArray(raw)) return [];
+  const membersById = new Map(teams.flatMap(team => (team.members ?? []).map(member => [member.id, member] as [string, Player])));
+  const colors = new Set(teams.map(team => team.color));
+  const seenIds = new Set<number>();
+  const rows = (raw as unknown[]).flatMap((item): Matchup[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const row = item as Partial<Record<keyof Matchup, unknown>>;
+    if (!Array.isArray(row.players)) return [];
+    const players = (row.players as unknown[]).flatMap((cell): MatchupPlayer[] => {
+      if (typeof cell !== 'object' || cell === null) return [];
+      const { color, player } = cell as { color?: unknown; player?: unknown };
+      if (typeof color !== 'string' || !colors.has(color)) return [];
+      const playerId = typeof player === 'object' && player !== null && 'id' in player ? player.id : undefined;
+      return [{ color, player: typeof playerId === 'string' ? membersById.get(playerId) ?? null : null }];
+    });
+    if (players.length === 0) return [];
+    const id = typeof row.id === 'number' && Number.isInteger(row.id) && row.id > 0 && !seenIds.has(row.id) ? row.id : 0;
+    if (id) seenIds.add(id);
+    return [{
+      id,
+      players,
+      ...(typeof row.gameId === 'string' ? { gameId: row.gameId } : {}),
+      ...(typeof row.round === 'number' && Number.isInteger(row.round) && row.round > 0 ? { round: row.round } : {})
+    }];
+  });
+  // Rows without a usable id get the next free one
+  let nextId = Math.max(0, ...seenIds);
+  return rows.map(row => row.id ? row : { ...row, id: ++nextId });
+};
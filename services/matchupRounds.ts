@@ -0,0 +1,145 @@
+import { Matchup, Player } from '../types';
+import { MatchupEngineInput, MatchupEngineOptions, generateMatchups } from './matchupEngine';
+import { countGames } from './playTime';
+
+// Longer events play the roster several times over. Round 1 is the usual match order; every
+// later round starts from a few fresh orders and swaps teammates of the same gender between rows
+// until the same two players meet as rarely as possible and early players move towards the end.
+
+export const MAX_ROUNDS = 6;
+
+// Fresh orders tried per round; the best one after swapping is kept
+const CANDIDATES_PER_ROUND = 6;
+const MAX_SWAP_PASSES = 20;
+// One repeated meeting weighs as much as ten players sitting at the wrong end of the round
+const REPEAT_WEIGHT = 10;
+
+export type HeadToHead = Map<string, number>;
+
+const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+const seatedPlayers = (matchup: Matchup): Player[] =>
+  matchup.players.flatMap(({ player }) => player ? [player] : []);
+
+// How often each pair of players from different teams sat in the same row
+export const getHeadToHead = (matchups: Matchup[]): HeadToHead => {
+  const meetings: HeadToHead = new Map();
+  matchups.forEach(matchup => {
+    const seated = seatedPlayers(matchup);
+    seated.forEach((a, i) => seated.slice(i + 1).forEach(b => {
+      const key = pairKey(a.id, b.id);
+      meetings.set(key, (meetings.get(key) ?? 0) + 1);
+    }));
+  });
+  return meetings;
+};
+
+export const getMeetings = (headToHead: HeadToHead, a: string, b: string): number =>
+  headToHead.get(pairKey(a, b)) ?? 0;
+
+// Pairs that met more than once, and the most any pair met
+export const summarizeHeadToHead = (headToHead: HeadToHead): { repeatedPairs: number; mostMeetings: number } => {
+  let repeatedPairs = 0;
+  let mostMeetings = 0;
+  headToHead.forEach(count => {
+    if (count > 1) repeatedPairs++;
+    mostMeetings = Math.max(mostMeetings, count);
+  });
+  return { repeatedPairs, mostMeetings };
+};
+
+// 0 for the first row of a round, 1 for the last
+const relativeSlot = (index: number, rows: number) => rows > 1 ? index / (rows - 1) : 0.5;
+
+const optimizeRound = (rows: Matchup[], history: HeadToHead, averageSlot: Map<string, number>): { rows: Matchup[]; cost: number } => {
+  const order = rows.map(m => ({ ...m, players: m.players.map(p => ({ ...p })) }));
+
+  // Players who played early so far should play late now, and the other way round
+  const slotCost = (player: Player, index: number): number => {
+    const previous = averageSlot.get(player.id);
+    return previous === undefined ? 0 : Math.abs(relativeSlot(index, order.length) - (1 - previous));
+  };
+
+  const rowCost = (index: number): number => {
+    const seated = seatedPlayers(order[index]);
+    let cost = 0;
+    seated.forEach((a, i) => seated.slice(i + 1).forEach(b => { cost += REPEAT_WEIGHT * getMeetings(history, a.id, b.id); }));
+    seated.forEach(player => { cost += slotCost(player, index); });
+    return cost;
+  };
+
+  // Greedy start: top to bottom, each seat takes the teammate of the seat's gender who costs least
+  // next to the players already in the row
+  const pools = order[0]?.players.map((_, column) => order.flatMap(m => m.players[column]?.player ? [m.players[column].player!] : [])) ?? [];
+  order.forEach((matchup, index) => {
+    const seated: Player[] = [];
+    matchup.players.forEach((cell, column) => {
+      if (!cell.player) return;
+      const gender = cell.player.gender;
+      const seatCost = (player: Player) =>
+        seated.reduce((sum, other) => sum + REPEAT_WEIGHT * getMeetings(history, player.id, other.id), 0) + slotCost(player, index);
+      const pick = pools[column]
+        .filter(player => player.gender === gender)
+        .reduce((best, player) => seatCost(player) < seatCost(best) ? player : best);
+      pools[column].splice(pools[column].indexOf(pick), 1);
+      cell.player = pick;
+      seated.push(pick);
+    });
+  });
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < order.length; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        order[i].players.forEach((cell, column) => {
+          const other = order[j].players[column];
+          if (!cell.player || !other?.player || cell.player.gender !== other.player.gender) return;
+          const before = rowCost(i) + rowCost(j);
+          [cell.player, other.player] = [other.player, cell.player];
+          if (rowCost(i) + rowCost(j) < before) {
+            improved = true;
+          } else {
+            [cell.player, other.player] = [other.player, cell.player];
+          }
+        });
+      }
+    }
+    if (!improved) break;
+  }
+
+  return { rows: order, cost: order.reduce((sum, _, index) => sum + rowCost(index), 0) };
+};
+
+// Rows of all rounds in play order, numbered straight through; with more than one round
+// every row records its round
+export const generateRounds = (
+  input: MatchupEngineInput,
+  rounds: number,
+  options: MatchupEngineOptions = {}
+): Matchup[] => {
+  const first = generateMatchups(input, options).matchups;
+  const total = Math.min(MAX_ROUNDS, Math.max(1, Math.round(rounds)));
+  if (total === 1) return first;
+
+  const played: Matchup[][] = [first];
+  for (let round = 2; round <= total; round++) {
+    const history = getHeadToHead(played.flat());
+    const slots = new Map<string, number[]>();
+    played.forEach(rows => rows.forEach((matchup, index) => seatedPlayers(matchup).forEach(player => {
+      slots.set(player.id, [...(slots.get(player.id) ?? []), relativeSlot(index, rows.length)]);
+    })));
+    const averageSlot = new Map(Array.from(slots, ([id, list]) => [id, list.reduce((a, b) => a + b, 0) / list.length] as [string, number]));
+
+    // Equal play time counts the games of earlier rounds, so repeats go to someone new each round
+    const roundInput = input.balancePlayTime ? { ...input, previousGames: countGames(played.flat()) } : input;
+    let best: { rows: Matchup[]; cost: number } | null = null;
+    for (let attempt = 0; attempt < CANDIDATES_PER_ROUND; attempt++) {
+      const candidate = optimizeRound(generateMatchups(roundInput, options).matchups, history, averageSlot);
+      if (!best || candidate.cost < best.cost) best = candidate;
+    }
+    played.push(best!.rows);
+  }
+
+  return played.flatMap((rows, index) => rows.map(matchup => ({ ...matchup, round: index + 1 })))
+    .map((matchup, index) => ({ ...matchup, id: index + 1 }));
+};
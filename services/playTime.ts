@@ -0,0 +1,150 @@
+import { Gender, Matchup, Player, Team, TeamColor } from '../types';
+import { RandomSource, shuffle } from './random';
+
+// Equal play time for uneven teams. Every team fields someone in every row: a seat a short
+// team would leave empty goes to its player who has played least so far, so play counts
+// within a team never differ by more than one. Across teams, a team of s players covering R rows
+// plays R / s games each, so the number of rows is chosen to keep every player within one game
+// of everyone else; when no row count can do that, getPlaySpread shows it.
+
+export interface PlayCount {
+  player: Player;
+  color: TeamColor;
+  games: number;
+}
+
+// A seat filled by a player who already has a game elsewhere in the order
+export interface SeatRepeat {
+  matchupId: number;
+  color: TeamColor;
+  playerId: string;
+}
+
+export const countGames = (matchups: Matchup[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  matchups.forEach(m => m.players.forEach(({ player }) => {
+    if (player) counts.set(player.id, (counts.get(player.id) ?? 0) + 1);
+  }));
+  return counts;
+};
+
+// Games per present player, in team and roster order
+export const getPlayCounts = (teams: Team[], matchups: Matchup[]): PlayCount[] => {
+  const counts = countGames(matchups);
+  return teams.flatMap(team => team.members
+    .filter(member => !member.absent)
+    .map(player => ({ player, color: team.color, games: counts.get(player.id) ?? 0 })));
+};
+
+// Most games played by anyone minus fewest; at most 1 means play time is level
+export const getPlaySpread = (counts: PlayCount[]): number =>
+  counts.length === 0 ? 0 : Math.max(...counts.map(c => c.games)) - Math.min(...counts.map(c => c.games));
+
+// Gender most of the row's seated players share, null for an empty row
+const getRowGender = (matchup: Matchup): Gender | null => {
+  const tally = new Map<Gender, number>();
+  matchup.players.forEach(({ player }) => {
+    if (player) tally.set(player.gender, (tally.get(player.gender) ?? 0) + 1);
+  });
+  let best: Gender | null = null;
+  tally.forEach((count, gender) => {
+    if (best === null || count > (tally.get(best) ?? 0)) best = gender;
+  });
+  return best;
+};
+
+const seatedIds = (matchup: Matchup | undefined): string[] =>
+  matchup ? matchup.players.flatMap(({ player }) => player ? [player.id] : []) : [];
+
+// Fills every empty seat from the team's least-played players, counting games from earlier
+// rounds too. Among those, a player of the row's gender wins, then one who does not play in the
+// row just before or after.
+export const fillEmptySeats = (
+  matchups: Matchup[],
+  teams: Team[],
+  rng: RandomSource,
+  previousGames: Map<string, number> = new Map()
+): { matchups: Matchup[]; repeats: SeatRepeat[] } => {
+  const counts = new Map(previousGames);
+  countGames(matchups).forEach((games, id) => counts.set(id, (counts.get(id) ?? 0) + games));
+  const repeats: SeatRepeat[] = [];
+  const filled: Matchup[] = matchups.map(m => ({ ...m, players: m.players.map(p => ({ ...p })) }));
+
+  filled.forEach((row, index) => {
+    const gender = getRowGender(row);
+    row.players.forEach(cell => {
+      if (cell.player) return;
+      const members = teams.find(t => t.color === cell.color)?.members.filter(m => !m.absent) ?? [];
+      if (members.length === 0) return;
+
+      const fewest = Math.min(...members.map(m => counts.get(m.id) ?? 0));
+      const neighbours = new Set([...seatedIds(filled[index - 1]), ...seatedIds(filled[index + 1])]);
+      const cost = (player: Player) => (player.gender === gender ? 0 : 2) + (neighbours.has(player.id) ? 1 : 0);
+      const pick = shuffle(members.filter(m => (counts.get(m.id) ?? 0) === fewest), rng)
+        .reduce((best, player) => cost(player) < cost(best) ? player : best);
+
+      cell.player = pick;
+      counts.set(pick.id, fewest + 1);
+      repeats.push({ matchupId: row.id, color: cell.color, playerId: pick.id });
+    });
+  });
+
+  return { matchups: filled, repeats };
+};
+
+interface TeamLoad {
+  size: number; // present players
+  seats: number; // games the team already covered in earlier rounds
+}
+
+// Most minus fewest games once every team covers `rows` more rows, with play level inside each team
+const spreadForRows = (loads: TeamLoad[], rows: number): number => {
+  const most = Math.max(...loads.map(({ size, seats }) => Math.ceil((seats + rows) / size)));
+  const fewest = Math.min(...loads.map(({ size, seats }) => Math.floor((seats + rows) / size)));
+  return most - fewest;
+};
+
+// Row count closest to the generated one that keeps everyone within one game, fewer rows winning
+// a tie. Every team needs at least as many rows as it has players, so nobody is left out.
+const chooseRowCount = (loads: TeamLoad[], generated: number): number | null => {
+  if (loads.length === 0) return generated;
+  const fewest = Math.max(...loads.map(l => l.size));
+  const candidates = Array.from({ length: generated + 2 * fewest }, (_, i) => fewest + i)
+    .sort((a, b) => Math.abs(a - generated) - Math.abs(b - generated) || a - b);
+  return candidates.find(rows => spreadForRows(loads, rows) <= 1) ?? null;
+};
+
+const emptyRow = (id: number, colors: TeamColor[]): Matchup => ({ id, players: colors.map(color => ({ color, player: null })) });
+
+// Equal play time for a freshly generated order. Trims or extends it to a row count that keeps
+// everyone within one game (players from trimmed rows take empty seats of their team), then fills
+// the empty seats. A game catalog fixes the rows, so then only the seats are filled.
+export const balancePlayTime = (
+  matchups: Matchup[],
+  teams: Team[],
+  rng: RandomSource,
+  options: { fixedRows?: boolean; previousGames?: Map<string, number> } = {}
+): { matchups: Matchup[]; repeats: SeatRepeat[] } => {
+  const previousGames = options.previousGames ?? new Map<string, number>();
+  const colors = matchups[0]?.players.map(p => p.color) ?? [];
+  const loads: TeamLoad[] = teams
+    .filter(team => colors.includes(team.color))
+    .map(team => team.members.filter(m => !m.absent))
+    .filter(members => members.length > 0)
+    .map(members => ({ size: members.length, seats: members.reduce((sum, m) => sum + (previousGames.get(m.id) ?? 0), 0) }));
+  const rows = options.fixedRows ? null : chooseRowCount(loads, matchups.length);
+  if (rows === null || rows === matchups.length) return fillEmptySeats(matchups, teams, rng, previousGames);
+
+  const kept = matchups.slice(0, rows).map(m => ({ ...m, players: m.players.map(p => ({ ...p })) }));
+  for (let id = kept.length + 1; kept.length < rows; id++) kept.push(emptyRow(id, colors));
+
+  matchups.slice(rows).forEach(row => row.players.forEach(({ color, player }) => {
+    if (!player) return;
+    const open = kept.filter(m => m.players.some(p => p.color === color && !p.player));
+    const target = open.find(m => getRowGender(m) === player.gender) ?? open[0];
+    const cell = target?.players.find(p => p.color === color && !p.player);
+    if (cell) cell.player = player;
+  }));
+
+  return fillEmptySeats(kept, teams, rng, previousGames);
+};
@@ -0,0 +1,62 @@
+// Seeded randomness shared by the lottery, the matchup engine and the raffle.
+// Every draw derives its own stream from the published seed, so a draw can be
+// replayed later from the seed and the roster alone.
+
+export type RandomSource = () => number;
+
+// No 0/O or 1/I/L so a seed read off the projector can be typed back without guessing.
+const SEED_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SEED_LENGTH = 8;
+
+export const generateSeed = (): string => {
+  const values = new Uint32Array(SEED_LENGTH);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < SEED_LENGTH; i++) values[i] = Math.floor(Math.random() * 0xffffffff);
+  }
+  return Array.from(values, value => SEED_ALPHABET[value % SEED_ALPHABET.length]).join('');
+};
+
+export const normalizeSeed = (raw: string): string => raw.trim().toUpperCase().replace(/[^A-Z0-9-]/g, '');
+
+// xmur3 string hash -> 32-bit state for mulberry32
+const hashSeed = (seed: string): number => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+};
+
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream per draw, e.g. deriveRandom(seed, 'lottery', 'Red') or deriveRandom(seed, 'raffle', 3).
+export const deriveRandom = (seed: string, ...stream: Array<string | number>): RandomSource =>
+  createSeededRandom([seed, ...stream].join(':'));
+
+// Draws must not depend on the order the roster was typed or imported in.
+export const canonicalOrder = <T extends { id: string; name: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => a.name.localeCompare(b.name, 'en') || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+// Fisher–Yates: every permutation equally likely, unlike sort(() => rng() - 0.5)
+export const shuffle = <T,>(items: T[], rng: RandomSource = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,140 @@
+import { Gender, GameResult, Matchup, Player, ScoreEvent, Team, TeamColor } from '../types';
+
+// Roster changes after the lottery: late arrivals join a team and the match order, players who
+// leave early are marked absent. Absent players stay on their team so the points they scored
+// keep counting; they are only taken out of the games still to be played.
+
+export interface RosterAdjustment {
+  teams: Team[];
+  matchups: Matchup[];
+}
+
+// Teams as the matchup engine should see them: absent players do not get new games
+export const getActiveTeams = (teams: Team[]): Team[] =>
+  teams.map(team => ({ ...team, members: team.members.filter(m => !m.absent) }));
+
+// A row counts as played once it has a recorded result or any score entered against it
+export const getPlayedMatchupIds = (gameResults: GameResult[], scoreLog: ScoreEvent[]): Set<number> =>
+  new Set([
+    ...gameResults.map(r => r.matchupId),
+    ...scoreLog.map(e => e.gameNumber).filter((n): n is number => n !== null)
+  ]);
+
+// The gender a row is played in: the most common gender among its players
+const getRowGender = (matchup: Matchup): Gender | null => {
+  const counts = new Map<Gender, number>();
+  matchup.players.forEach(({ player }) => {
+    if (player) counts.set(player.gender, (counts.get(player.gender) ?? 0) + 1);
+  });
+  let best: Gender | null = null;
+  for (const [gender, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = gender;
+  }
+  return best;
+};
+
+const setCell = (matchup: Matchup, color: TeamColor, player: Player | null): Matchup => ({
+  ...matchup,
+  players: matchup.players.some(p => p.color === color)
+    ? matchup.players.map(p => p.color === color ? { ...p, player } : p)
+    : [...matchup.players, { color, player }]
+});
+
+const getCell = (matchup: Matchup, color: TeamColor): Player | null =>
+  matchup.players.find(p => p.color === color)?.player ?? null;
+
+// The team where a new player of this gender evens things out most: fewest present players of
+// that gender, then the smallest team, then palette order
+export const suggestTeamForArrival = (teams: Team[], gender: Gender): TeamColor | null => {
+  let best: { color: TeamColor; sameGender: number; size: number } | null = null;
+  for (const team of getActiveTeams(teams)) {
+    const sameGender = team.members.filter(m => m.gender === gender).length;
+    const size = team.members.length;
+    if (!best || sameGender < best.sameGender || (sameGender === best.sameGender && size < best.size)) {
+      best = { color: team.color, sameGender, size };
+    }
+  }
+  return best?.color ?? null;
+};
+
+// Seat a player in the first unplayed row of their gender where their team has a free cell,
+// or in a new row at the end
+const seatPlayer = (matchups: Matchup[], player: Player, color: TeamColor, played: Set<number>): Matchup[] => {
+  const index = matchups.findIndex(m =>
+    !played.has(m.id) && getRowGender(m) === player.gender && !getCell(m, color)
+  );
+  if (index >= 0) {
+    return matchups.map((m, i) => i === index ? setCell(m, color, player) : m);
+  }
+  const colors = matchups[0]?.players.map(p => p.color) ?? [color];
+  const round = matchups[matchups.length - 1]?.round;
+  return [...matchups, {
+    id: Math.max(0, ...matchups.map(m => m.id)) + 1,
+    players: (colors.includes(color) ? colors : [...colors, color]).map(c => ({ color: c, player: c === color ? player : null })),
+    ...(round ? { round } : {})
+  }];
+};
+
+export const addLateArrival = (
+  teams: Team[],
+  matchups: Matchup[],
+  player: Player,
+  color: TeamColor,
+  played: Set<number>
+): RosterAdjustment => ({
+  teams: teams.map(team => team.color === color ? { ...team, members: [...team.members, { ...player, score: 0 }] } : team),
+  matchups: seatPlayer(matchups, player, color, played)
+});
+
+// Take the player out of every unplayed row, then move their teammates of the same gender up
+// into the gaps so the team's empty cell ends up in its last row of that gender.
+// Played rows are left exactly as they were.
+export const withdrawPlayer = (
+  teams: Team[],
+  matchups: Matchup[],
+  playerId: string,
+  played: Set<number>
+): RosterAdjustment => {
+  const team = teams.find(t => t.members.some(m => m.id === playerId));
+  const player = team?.members.find(m => m.id === playerId);
+  if (!team || !player) return { teams, matchups };
+
+  const rowGenders = matchups.map(getRowGender);
+  const open = matchups.map(m => !played.has(m.id));
+  let next = matchups.map((m, i) => open[i] && getCell(m, team.color)?.id === playerId ? setCell(m, team.color, null) : m);
+
+  const rows = next.map((_, i) => i).filter(i => open[i] && rowGenders[i] === player.gender);
+  const queue = rows.map(i => getCell(next[i], team.color)).filter((p): p is Player => Boolean(p));
+  next = next.map((m, i) => rows.includes(i) ? setCell(m, team.color, queue[rows.indexOf(i)] ?? null) : m);
+
+  // Trailing rows nobody plays in any more are dropped
+  while (next.length > 1 && open[next.length - 1] && next[next.length - 1].players.every(p => !p.player)) {
+    next = next.slice(0, -1);
+  }
+
+  return {
+    teams: teams.map(t => t.color === team.color
+      ? { ...t, members: t.members.map(m => m.id === playerId ? { ...m, absent: true } : m) }
+      : t),
+    matchups: next
+  };
+};
+
+// Bring an absent player back into their team's remaining games
+export const returnPlayer = (
+  teams: Team[],
+  matchups: Matchup[],
+  playerId: string,
+  played: Set<number>
+): RosterAdjustment => {
+  const team = teams.find(t => t.members.some(m => m.id === playerId));
+  const player = team?.members.find(m => m.id === playerId);
+  if (!team || !player?.absent) return { teams, matchups };
+  const { absent: _absent, ...present } = player;
+  return {
+    teams: teams.map(t => t.color === team.color
+      ? { ...t, members: t.members.map(m => m.id === playerId ? present : m) }
+      : t),
+    matchups: seatPlayer(matchups, present, team.color, played)
+  };
+};
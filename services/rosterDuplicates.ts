@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Player } from '../types';
+
+// Duplicate detection for roster imports. An incoming player can clash with someone already on
+// the roster or with an earlier row of the same import; the host decides per clash in the merge
+// dialog and resolveImport applies those decisions.
+
+export type DuplicateReason = 'id' | 'name' | 'similar';
+
+// Who the incoming player clashes with
+export type DuplicateTarget =
+  | { source: 'roster'; player: Player }
+  | { source: 'incoming'; index: number; player: Player };
+
+export interface DuplicateMatch {
+  index: number; // position in the incoming list
+  incoming: Player;
+  target: DuplicateTarget;
+  reason: DuplicateReason;
+}
+
+export interface MergeDecision {
+  action: 'merge' | 'keepBoth' | 'skip';
+  gender: 'existing' | 'incoming';
+  markers: 'existing' | 'incoming' | 'both';
+}
+
+const nameWords = (name: string): string[] =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+// Case, accents, punctuation and word order do not matter: "Kim, Ji-Hoon" === "ji hoon kim"
+export const normalizeName = (name: string): string => nameWords(name).sort().join(' ');
+
+// Letters in typed order, for near misses that split a word differently: "Kim Jihoon" vs "Kim Ji-hoon"
+const joinedName = (name: string): string => nameWords(name).join('');
+
+const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+interface KnownName {
+  key: string; // normalizeName
+  joined: string; // joinedName
+}
+
+// One typo in a short name, two in a long one; very short names must match exactly
+const isCloseSpelling = (x: string, y: string): boolean => {
+  const shortest = Math.min(x.length, y.length);
+  if (shortest < 4 || Math.abs(x.length - y.length) > 2) return false;
+  return editDistance(x, y) <= (shortest >= 10 ? 2 : 1);
+};
+
+// Compared with words sorted ("Jihoon Kim" vs "Kim Jihon") and in typed order, where a hyphen or
+// space that splits a word differently does not reorder it ("Kim Jihoon" vs "Kim Ji-hoon")
+const isSimilarName = (a: KnownName, b: KnownName): boolean =>
+  isCloseSpelling(a.key.replace(/ /g, ''), b.key.replace(/ /g, '')) || isCloseSpelling(a.joined, b.joined);
+
+export const findDuplicates = (roster: Player[], incoming: Player[]): DuplicateMatch[] => {
+  const known: ({ target: DuplicateTarget } & KnownName)[] = roster.map(player => ({
+    target: { source: 'roster', player },
+    key: normalizeName(player.name),
+    joined: joinedName(player.name)
+  }));
+  const matches: DuplicateMatch[] = [];
+
+  incoming.forEach((player, index) => {
+    const name: KnownName = { key: normalizeName(player.name), joined: joinedName(player.name) };
+    const { key } = name;
+    const byId = known.find(k => k.target.player.id === player.id);
+    const byName = known.find(k => k.key === key);
+    const bySimilar = byId || byName ? undefined : known.find(k => isSimilarName(k, name));
+    const hit = byId ?? byName ?? bySimilar;
+    if (hit) {
+      matches.push({ index, incoming: player, target: hit.target, reason: byId ? 'id' : byName ? 'name' : 'similar' });
+    }
+    known.push({ target: { source: 'incoming', index, player }, ...name });
+  });
+
+  return matches;
+};
+
+// Same person (same name) merges by default; an id reused for a different name or a near-miss
+// spelling is kept as two players until the host says otherwise
+export const defaultDecision = (match: DuplicateMatch): MergeDecision => ({
+  action: match.reason === 'name' || (match.reason === 'id' && normalizeName(match.incoming.name) === normalizeName(match.target.player.name))
+    ? 'merge'
+    : 'keepBoth',
+  gender: 'existing',
+  markers: 'existing'
+});
+
+export const mergePlayers = (existing: Player, incoming: Player, decision: MergeDecision): Player => {
+  const markerSource = decision.markers === 'incoming' ? incoming : existing;
+  return {
+    ...existing,
+    gender: decision.gender === 'incoming' ? incoming.gender : existing.gender,
+    noGenderRestriction: decision.markers === 'both'
+      ? Boolean(existing.noGenderRestriction || incoming.noGenderRestriction)
+      : Boolean(markerSource.noGenderRestriction),
+    isHelper: decision.markers === 'both'
+      ? Boolean(existing.isHelper || incoming.isHelper)
+      : Boolean(markerSource.isHelper),
+    // A rating or department from either side is kept; the registered one wins
+    ...(existing.rating === undefined && incoming.rating !== undefined ? { rating: incoming.rating } : {}),
+    ...(!existing.department && incoming.department ? { department: incoming.department } : {})
+  };
+};
+
+// Roster after the import, with every id unique
+export const resolveImport = (
+  roster: Player[],
+  incoming: Player[],
+  matches: DuplicateMatch[],
+  decisions: Record<number, MergeDecision>
+): Player[] => {
+  const result = [...roster];
+  const ids = new Set(roster.map(p => p.id));
+  const matchByIndex = new Map(matches.map(m => [m.index, m]));
+  // Where each incoming row ended up (null = skipped)
+  const placedIds = new Map<number, string | null>();
+
+  const append = (player: Player, index: number) => {
+    const id = ids.has(player.id) ? uuidv4() : player.id;
+    ids.add(id);
+    result.push({ ...player, id });
+    placedIds.set(index, id);
+  };
+
+  incoming.forEach((player, index) => {
+    const match = matchByIndex.get(index);
+    if (!match) {
+      append(player, index);
+      return;
+    }
+    const decision = decisions[index] ?? defaultDecision(match);
+    if (decision.action === 'skip') {
+      placedIds.set(index, null);
+      return;
+    }
+    const targetId = match.target.source === 'roster' ? match.target.player.id : placedIds.get(match.target.index);
+    const targetIndex = targetId ? result.findIndex(p => p.id === targetId) : -1;
+    if (decision.action === 'keepBoth' || targetIndex === -1) {
+      append(player, index);
+      return;
+    }
+    result[targetIndex] = mergePlayers(result[targetIndex], player, decision);
+    placedIds.set(index, result[targetIndex].id);
+  });
+
+  return result;
+};
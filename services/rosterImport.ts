@@ -0,0 +1,298 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Player, Gender } from '../types';
+
+// Roster import from JSON exports and from spreadsheet text (CSV/TSV files or an Excel paste).
+// Spreadsheet text goes through detectDelimiter -> parseDelimited -> guessColumnMapping -> buildImportRows
+// so the wizard can show each step and let the host correct it.
+
+// "0" marker: player can go to either male or female games
+export const parseFlexibleMarker = (raw: unknown): boolean => {
+  if (typeof raw === 'boolean') return raw;
+  if (typeof raw === 'number') return raw === 0;
+  if (typeof raw === 'string') {
+    const normalized = raw.replace(/["']/g, '').trim().toLowerCase();
+    if (!normalized) return false;
+
+    if (normalized === 'o' || normalized === 'zero') return true;
+
+    const numericValue = Number(normalized);
+    if (!Number.isNaN(numericValue)) {
+      return numericValue === 0;
+    }
+
+    if (['true', 'yes', 'y'].includes(normalized)) return true;
+    if (['false', 'no', 'n'].includes(normalized)) return false;
+  }
+  return false;
+};
+
+// "H" marker: helper role prioritized for select games
+export const parseHelperMarker = (raw: unknown): boolean => {
+  if (typeof raw !== 'string') return false;
+  const normalized = raw.replace(/["']/g, '').trim().toLowerCase();
+  if (!normalized) return false;
+  const tokens = normalized.split(/[\s,;|/]+/).filter(Boolean);
+  return tokens.some(token => token === 'h' || token === 'helper' || token === 'help');
+};
+
+export const parsePlayerMarkers = (raw: unknown): { noGenderRestriction: boolean; isHelper: boolean } => ({
+  noGenderRestriction: parseFlexibleMarker(raw),
+  isHelper: parseHelperMarker(raw)
+});
+
+// null when the value is not a recognisable gender
+export const parseGender = (raw: string): Gender | null => {
+  const g = raw.replace(/["']/g, '').trim().toUpperCase();
+  if (!g) return null;
+  if (g === 'NB' || g === 'X' || g.startsWith('NON')) return Gender.NonBinary;
+  if (g.startsWith('M')) return Gender.Male;
+  if (g.startsWith('F') || g.startsWith('W')) return Gender.Female;
+  return null;
+};
+
+const cleanDepartment = (raw: unknown): string =>
+  typeof raw === 'string' ? raw.replace(/["']/g, '').replace(/\s+/g, ' ').trim() : '';
+
+// Players without a department have no department field at all
+const withDepartment = (department: string): Pick<Player, 'department'> => department ? { department } : {};
+
+// Unrated players have no rating field at all
+const withRating = (rating: number | null): Pick<Player, 'rating'> => rating === null ? {} : { rating };
+
+// Rating / tier: any number (higher is stronger) or a letter tier, A (5) down to E (1)
+const TIER_LETTERS = ['E', 'D', 'C', 'B', 'A'];
+
+export const parseRating = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const text = raw.replace(/["']/g, '').trim();
+  if (!text) return null;
+  const tier = TIER_LETTERS.indexOf(text.toUpperCase());
+  if (tier !== -1) return tier + 1;
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+// Player entries from an exported roster (.json); null for an entry without a name
+export const playerFromJson = (raw: unknown): Player | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const p = raw as Record<string, unknown>;
+  if (typeof p.name !== 'string' || !p.name.trim()) return null;
+  const rawMarker = p.marker ?? p.noGenderRestriction ?? '';
+  const markerFlags = parsePlayerMarkers(rawMarker);
+  const noGenderRestriction = typeof p.noGenderRestriction === 'undefined'
+    ? markerFlags.noGenderRestriction
+    : parseFlexibleMarker(p.noGenderRestriction);
+  const helperSources = [p.isHelper, p.helper, rawMarker];
+  const isHelper = helperSources.some(src => {
+    if (typeof src === 'boolean') return src;
+    return parseHelperMarker(src);
+  }) || markerFlags.isHelper;
+
+  return {
+    id: typeof p.id === 'string' && p.id ? p.id : uuidv4(),
+    name: p.name.replace(/\s+/g, ' ').trim(),
+    gender: (typeof p.gender === 'string' ? parseGender(p.gender) : null) ?? Gender.NonBinary,
+    score: typeof p.score === 'number' && Number.isFinite(p.score) ? p.score : 0,
+    noGenderRestriction,
+    isHelper,
+    ...withRating(parseRating(p.rating ?? p.skill ?? p.tier)),
+    ...withDepartment(cleanDepartment(p.department ?? p.location ?? p.office))
+  };
+};
+
+// --- Delimited text ---
+
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+export const DELIMITERS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'COMMA' },
+  { value: ';', label: 'SEMICOLON' },
+  { value: '\t', label: 'TAB' },
+  { value: '|', label: 'PIPE' }
+];
+
+export interface DelimitedRow {
+  cells: string[];
+  line: number; // 1-based source line the row starts on; blank lines still count
+}
+
+// Quote-aware split: "Kim, Ji-hoon" stays one field, "" is a literal quote, quoted fields may span lines
+export const parseDelimitedRows = (text: string, delimiter: Delimiter): DelimitedRow[] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: DelimitedRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && source[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  rows.push({ cells: row, line: rowLine });
+
+  return rows.filter(r => r.cells.some(cell => cell !== ''));
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter): string[][] =>
+  parseDelimitedRows(text, delimiter).map(row => row.cells);
+
+// Pick the delimiter that splits the first lines into the most consistent number of columns
+export const detectDelimiter = (text: string): Delimiter => {
+  let best: Delimiter = ',';
+  let bestScore = -1;
+  DELIMITERS.forEach(({ value }) => {
+    const rows = parseDelimited(text, value).slice(0, 20);
+    if (rows.length === 0) return;
+    const counts = rows.map(r => r.length);
+    const columns = Math.max(...counts);
+    if (columns < 2) return;
+    const consistent = counts.filter(c => c === columns).length / counts.length;
+    const score = consistent * 10 + Math.min(columns, 5);
+    if (score > bestScore) {
+      bestScore = score;
+      best = value;
+    }
+  });
+  return best;
+};
+
+// --- Column mapping ---
+
+export type ImportField = 'name' | 'gender' | 'marker' | 'flexible' | 'helper' | 'rating' | 'department' | 'ignore';
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: 'name', label: 'NAME' },
+  { value: 'gender', label: 'GENDER' },
+  { value: 'marker', label: 'MARKER (0 / H)' },
+  { value: 'flexible', label: 'FLEXIBLE (0)' },
+  { value: 'helper', label: 'HELPER (H)' },
+  { value: 'rating', label: 'RATING / TIER' },
+  { value: 'department', label: 'DEPARTMENT / OFFICE' },
+  { value: 'ignore', label: 'IGNORE' }
+];
+
+const HEADER_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  name: ['name', 'player', 'player name', 'full name', 'fullname', 'employee', 'employee name', 'participant'],
+  gender: ['gender', 'sex', 'm/f'],
+  marker: ['marker', 'markers', 'tag', 'tags', 'note', 'notes', 'flag', 'flags'],
+  flexible: ['flexible', 'flex', 'no gender restriction', 'nogenderrestriction', 'any gender'],
+  helper: ['helper', 'ishelper', 'help', 'role'],
+  rating: ['rating', 'skill', 'tier', 'level', 'seniority', 'strength', 'rank'],
+  department: ['department', 'dept', 'office', 'location', 'site', 'division', 'unit']
+};
+
+const headerField = (cell: string): ImportField | null => {
+  const normalized = cell.replace(/["']/g, '').trim().toLowerCase();
+  const match = (Object.keys(HEADER_ALIASES) as (keyof typeof HEADER_ALIASES)[])
+    .find(field => HEADER_ALIASES[field].includes(normalized));
+  return match ?? null;
+};
+
+// A first row is a header when it names a known column and does not look like a player itself
+export const detectHeader = (rows: string[][]): boolean => {
+  const first = rows[0];
+  if (!first) return false;
+  const named = first.filter(cell => headerField(cell) !== null).length;
+  return named > 0 && !first.some(cell => cell && parseGender(cell) !== null && headerField(cell) === null);
+};
+
+// Header names when there is a header, otherwise the old positional layout: name, gender, marker
+export const guessColumnMapping = (rows: string[][], hasHeader: boolean): ImportField[] => {
+  const columns = Math.max(0, ...rows.map(r => r.length));
+  const positional: ImportField[] = ['name', 'gender', 'marker'];
+  if (!hasHeader) {
+    return Array.from({ length: columns }, (_, i) => positional[i] ?? 'ignore');
+  }
+  const used = new Set<ImportField>();
+  return Array.from({ length: columns }, (_, i) => {
+    const field = headerField(rows[0][i] ?? '');
+    if (!field || used.has(field)) return 'ignore';
+    used.add(field);
+    return field;
+  });
+};
+
+export interface ImportRow {
+  line: number; // 1-based source line the row starts on, counting the header and blank lines
+  cells: string[];
+  player: Player | null; // null when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+const isYes = (raw: string) => ['true', 'yes', 'y', 'x', '1', '✓'].includes(raw.replace(/["']/g, '').trim().toLowerCase());
+
+export const buildImportRows = (rows: DelimitedRow[], hasHeader: boolean, mapping: ImportField[]): ImportRow[] => {
+  const cellFor = (cells: string[], field: ImportField) => {
+    const index = mapping.indexOf(field);
+    return index === -1 ? '' : cells[index] ?? '';
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).map(({ cells, line }) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = cellFor(cells, 'name').replace(/\s+/g, ' ').trim();
+    if (!mapping.includes('name')) errors.push('No column is mapped to NAME.');
+    else if (!name) errors.push('Name is empty.');
+
+    const genderRaw = cellFor(cells, 'gender');
+    let gender = parseGender(genderRaw);
+    if (!gender) {
+      if (genderRaw.trim()) warnings.push(`Unknown gender "${genderRaw}", using NB.`);
+      gender = Gender.NonBinary;
+    }
+
+    const markers = parsePlayerMarkers(cellFor(cells, 'marker'));
+    const flexibleRaw = cellFor(cells, 'flexible');
+    const helperRaw = cellFor(cells, 'helper');
+    const noGenderRestriction = markers.noGenderRestriction || parseFlexibleMarker(flexibleRaw);
+    const isHelper = markers.isHelper || parseHelperMarker(helperRaw) || isYes(helperRaw);
+
+    const ratingRaw = cellFor(cells, 'rating');
+    const rating = parseRating(ratingRaw);
+    if (rating === null && ratingRaw.trim()) warnings.push(`Unknown rating "${ratingRaw}", left unrated.`);
+
+    const department = cleanDepartment(cellFor(cells, 'department'));
+
+    if (cells.length > mapping.length) warnings.push(`${cells.length - mapping.length} extra column(s) ignored.`);
+
+    return {
+      line,
+      cells,
+      errors,
+      warnings,
+      player: errors.length > 0 ? null : { id: uuidv4(), name, gender, score: 0, noGenderRestriction, isHelper, ...withRating(rating), ...withDepartment(department) }
+    };
+  });
+};
@@ -0,0 +1,115 @@
+import { Gender, ParsedPlayer, ParsedPlayerResponse } from '../types';
+import { hasGeminiKey, parseNamesWithGemini } from './geminiService';
+
+// Turns messy pasted text (chat messages, sign-up lists, emails) into names and genders.
+// Every parser's output goes through a review step before anyone is added to the roster.
+
+export interface RosterParser {
+  id: string;
+  label: string;
+  description: string;
+  isAvailable: () => boolean;
+  requiresApiKey?: boolean; // the host enters their own key before parsing
+  parse: (text: string) => Promise<ParsedPlayerResponse>;
+}
+
+// Gender cues checked in order; the matched text is removed from the name
+const GENDER_CUES: { pattern: RegExp; gender: Gender }[] = [
+  { pattern: /\(\s*(?:nb|non[-\s]?binary|x|they\/them)\s*\)|\b(?:non[-\s]?binary|they\/them|enby)\b|⚧/i, gender: Gender.NonBinary },
+  { pattern: /\(\s*(?:f|w|female|woman|she\/her)\s*\)|\b(?:female|woman|girl|she\/her|mrs|ms|miss)\b\.?|♀/i, gender: Gender.Female },
+  { pattern: /\(\s*(?:m|male|man|he\/him)\s*\)|\b(?:male|man|boy|he\/him|mr)\b\.?|♂/i, gender: Gender.Male },
+  // Trailing single-letter tag: "Kim Ji-hoon - F", "Lee M", "Park / NB"
+  { pattern: /(?:\s[-–/:|]?\s*)nb$/i, gender: Gender.NonBinary },
+  { pattern: /(?:\s[-–/:|]?\s*)[fw]$/i, gender: Gender.Female },
+  { pattern: /(?:\s[-–/:|]?\s*)m$/i, gender: Gender.Male }
+];
+
+const NOISE = [
+  /\S+@\S+\.\S+/g, // emails
+  /\+?\d[\d\s().-]{6,}\d/g, // phone numbers
+  /https?:\/\/\S+/g,
+  /\[[^\]]*\]/g // [10:42] chat timestamps and similar
+];
+
+const MAX_NAME_WORDS = 5;
+
+// name is empty when the chunk was only a gender cue ("Jane Doe, female")
+const parseChunk = (chunk: string): ParsedPlayer | null => {
+  let text = chunk;
+  NOISE.forEach(pattern => { text = text.replace(pattern, ' '); });
+  text = text
+    .replace(/^\s*(?:[-*•·▪>]+|\d+\s*[.)]|[a-z]\))\s*/i, '') // list bullets and numbering
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let gender: Gender | null = null;
+  for (const cue of GENDER_CUES) {
+    if (cue.pattern.test(text)) {
+      gender = cue.gender;
+      text = text.replace(cue.pattern, ' ');
+      break;
+    }
+  }
+
+  const name = text
+    .replace(/[()[\]{}"“”]/g, ' ')
+    .replace(/^[\s,;:/|–-]+|[\s,;:/|–-]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!/\p{L}/u.test(name)) return gender ? { name: '', gender, genderStated: true } : null;
+  if (name.split(' ').length > MAX_NAME_WORDS) return null; // a sentence, not a name
+  return { name, gender: gender ?? Gender.NonBinary, genderStated: gender !== null };
+};
+
+// Deterministic and offline: split on lines and list separators, read explicit gender cues only
+export const localHeuristicParser: RosterParser = {
+  id: 'local',
+  label: 'LOCAL',
+  description: 'Offline. Reads names line by line and only uses genders written in the text.',
+  isAvailable: () => true,
+  parse: async (text) => {
+    const chunks = text
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .filter(line => !line.trim().endsWith(':')) // headings like "Sign-ups so far:"
+      .flatMap(line => line.split(/[;|\t]|,(?=\s*\S)|\s+(?:and|&)\s+/i))
+      .map(chunk => chunk.trim())
+      .filter(Boolean);
+
+    const seen = new Set<string>();
+    const players: ParsedPlayer[] = [];
+    chunks.forEach(chunk => {
+      const parsed = parseChunk(chunk);
+      if (!parsed) return;
+      if (!parsed.name) {
+        const previous = players[players.length - 1];
+        if (previous && !previous.genderStated) Object.assign(previous, { gender: parsed.gender, genderStated: true });
+        return;
+      }
+      const key = parsed.name.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+      players.push(parsed);
+    });
+    return { players };
+  }
+};
+
+export const geminiParser: RosterParser = {
+  id: 'gemini',
+  label: 'GEMINI',
+  description: 'Sends the text to Google Gemini with your own API key, which can also guess genders from names.',
+  isAvailable: () => true,
+  requiresApiKey: true,
+  parse: async (text) => {
+    if (!hasGeminiKey()) throw new Error('Enter a Gemini API key first.');
+    const result = await parseNamesWithGemini(text);
+    if (!result) throw new Error('Gemini could not parse the text.');
+    return result;
+  }
+};
+
+export const ROSTER_PARSERS: RosterParser[] = [localHeuristicParser, geminiParser];
+
+export const getAvailableParsers = (): RosterParser[] => ROSTER_PARSERS.filter(parser => parser.isAvailable());
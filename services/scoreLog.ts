@@ -0,0 +1,51 @@
+import { Team, ScoreEvent } from '../types';
+
+// Team and player totals are the saved teams (scores at the start of the session, e.g. from an
+// imported results file) with every logged score event replayed on top, in order. Totals are left
+// unclamped here: game-result points still go on top, and clampScores runs once on the result.
+export const applyScoreLog = (baseTeams: Team[], log: ScoreEvent[]): Team[] => {
+  if (log.length === 0) return baseTeams;
+
+  const teamScores: Record<string, number> = {};
+  const playerScores: Record<string, number> = {};
+  baseTeams.forEach(team => {
+    teamScores[team.color] = team.score || 0;
+    team.members.forEach(m => { playerScores[m.id] = m.score || 0; });
+  });
+
+  log.forEach(event => {
+    if (!(event.teamColor in teamScores)) return;
+    if (event.playerId) {
+      // Player points follow the player; the team keeps what was scored while they were on it
+      if (!(event.playerId in playerScores)) return;
+      playerScores[event.playerId] += event.delta;
+    }
+    teamScores[event.teamColor] += event.delta;
+  });
+
+  return baseTeams.map(team => ({
+    ...team,
+    score: teamScores[team.color],
+    members: team.members.map(m => ({ ...m, score: playerScores[m.id] }))
+  }));
+};
+
+// Scores never show below zero. Applied to the final totals (base + log + game points), so a
+// lower typed score still counts against points that came from recorded games: with 10 game
+// points, typing 7 logs -3 and shows 7, and a later +5 shows 12. Penalty presets work the same
+// way: a -5 penalty on a player whose 10 points all come from games shows 5.
+export const clampScores = (teams: Team[]): Team[] => teams.map(team => ({
+  ...team,
+  score: Math.max(0, team.score || 0),
+  members: team.members.map(m => ({ ...m, score: Math.max(0, m.score || 0) }))
+}));
+
+// Drop replayed scores so edited teams can be stored as the base again
+export const toBaseTeams = (editedTeams: Team[], baseTeams: Team[]): Team[] => {
+  const baseScores = new Map(baseTeams.flatMap(t => t.members).map(m => [m.id, m.score || 0]));
+  return editedTeams.map(team => ({
+    ...team,
+    score: baseTeams.find(t => t.color === team.color)?.score || 0,
+    members: team.members.map(m => ({ ...m, score: baseScores.get(m.id) ?? 0 }))
+  }));
+};
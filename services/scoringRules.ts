@@ -0,0 +1,93 @@
+import { Team, ScoringPreset, ScoringRules, TeamRanking } from '../types';
+import { getAverageScore } from '../utils';
+
+// Host-configurable scoring: what a placement is worth, how much each game counts, one-tap
+// bonuses/penalties, and which number teams are ranked by on the Scoreboard.
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  placementPoints: [],
+  gameMultipliers: {},
+  presets: [],
+  ranking: 'average',
+  bestN: 3
+};
+
+export const RANKING_LABELS: Record<TeamRanking, string> = {
+  total: 'Total Score',
+  average: 'Avg Score',
+  bestN: 'Best-N Score'
+};
+
+// Placement table if one is set, otherwise one point per player beaten, plus one
+export const getPlacementPoints = (rank: number, participants: number, rules: ScoringRules): number => {
+  if (rank < 1) return 0;
+  if (rules.placementPoints.length > 0) return rules.placementPoints[rank - 1] ?? 0;
+  return Math.max(0, participants - rank + 1);
+};
+
+// Keyed by the row's stable id, so a bonus game keeps its factor when the order is rearranged
+export const getGameMultiplier = (matchupId: number, rules: ScoringRules): number => {
+  const factor = rules.gameMultipliers[matchupId];
+  return typeof factor === 'number' && Number.isFinite(factor) && factor >= 0 ? factor : 1;
+};
+
+// Sum of the team's N highest individual scores, so bigger teams get no head start
+const getBestNScore = (team: Team, n: number): number =>
+  team.members
+    .map(m => m.score || 0)
+    .sort((a, b) => b - a)
+    .slice(0, Math.max(1, n))
+    .reduce((sum, score) => sum + score, 0);
+
+export const getRankingScore = (team: Team, rules: ScoringRules): number => {
+  switch (rules.ranking) {
+    case 'total': return team.score || 0;
+    case 'bestN': return getBestNScore(team, rules.bestN);
+    default: return getAverageScore(team);
+  }
+};
+
+export const getRankingLabel = (rules: ScoringRules): string =>
+  rules.ranking === 'bestN' ? `Best ${rules.bestN} Score` : RANKING_LABELS[rules.ranking];
+
+export interface TeamStanding {
+  team: Team;
+  score: number;
+}
+
+// Highest ranking score first; leaders are every team tied for first place
+export const rankTeams = (teams: Team[], rules: ScoringRules): { standings: TeamStanding[]; leaders: Team[] } => {
+  const standings = teams
+    .map(team => ({ team, score: getRankingScore(team, rules) }))
+    .sort((a, b) => b.score - a.score);
+  const top = standings[0]?.score ?? 0;
+  const leaders = standings.filter(s => Math.abs(s.score - top) < 0.001).map(s => s.team);
+  return { standings, leaders };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Saved or imported rules may be partial or hand-edited
+export const sanitizeScoringRules = (raw: unknown): ScoringRules => {
+  if (!isRecord(raw)) return { ...DEFAULT_SCORING_RULES };
+  const numbers = (list: unknown): number[] =>
+    Array.isArray(list) ? list.map(n => Math.max(0, Number(n) || 0)) : [];
+  const multipliers: Record<number, number> = {};
+  Object.entries(isRecord(raw.gameMultipliers) ? raw.gameMultipliers : {}).forEach(([id, factor]) => {
+    const value = Number(factor);
+    if (Number.isFinite(value) && value >= 0 && value !== 1) multipliers[Number(id)] = value;
+  });
+  const presets = Array.isArray(raw.presets)
+    ? (raw.presets as unknown[]).flatMap((p, index): ScoringPreset[] => {
+        if (!isRecord(p) || typeof p.label !== 'string' || !p.label.trim() || !Number.isFinite(Number(p.points))) return [];
+        return [{ id: typeof p.id === 'string' ? p.id : `preset-${index}`, label: p.label.trim(), points: Math.round(Number(p.points)) }];
+      })
+    : [];
+  return {
+    placementPoints: numbers(raw.placementPoints),
+    gameMultipliers: multipliers,
+    presets,
+    ranking: typeof raw.ranking === 'string' && raw.ranking in RANKING_LABELS ? raw.ranking as TeamRanking : DEFAULT_SCORING_RULES.ranking,
+    bestN: Math.max(1, Math.round(Number(raw.bestN) || DEFAULT_SCORING_RULES.bestN))
+  };
+};
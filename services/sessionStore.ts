@@ -0,0 +1,264 @@
+import { AppState, Gender, Player, Team, TeamConfig, Matchup, DrawRecord, ScoreEvent, LotteryCheckpoint, GameResult, ScoringRules, DraftConstraint, GameDefinition, EventSchedule, Bracket } from '../types';
+import { DEFAULT_SCORING_RULES } from './scoringRules';
+
+// Everything needed to pick the event back up after a reload or a redeploy, stored under one
+// versioned key. Layouts that shipped are upgraded step by step through MIGRATIONS; fields added
+// since only need a default in createEmptySession and a check in SESSION_FIELDS. Data that cannot
+// be upgraded is parked under a backup key for download instead of being thrown away.
+
+export const SESSION_VERSION = 1;
+
+const LOCAL_STORAGE_SESSION = 'squid-session';
+const LOCAL_STORAGE_SESSION_BACKUP = 'squid-session-backup';
+
+// Per-key layout used before the session store (version 0)
+const LEGACY_KEYS = {
+  appState: 'squid-app-state',
+  teams: 'squid-teams-data',
+  matchups: 'squid-matchups-data',
+  draw: 'squid-draw-record',
+  palette: 'squid-team-palette',
+  raffleWinners: 'squid-raffle-winners',
+  version: 'app-version'
+};
+
+export interface SessionData {
+  appState: AppState | null;
+  players: Player[];
+  palette: TeamConfig[] | null;
+  teams: Team[] | null;
+  matchups: Matchup[];
+  draw: DrawRecord | null;
+  scoreHistory: ScoreEvent[];
+  scoreRedo: ScoreEvent[]; // undone events, most recent last
+  scorekeeper: string;
+  gameResults: GameResult[];
+  scoringRules: ScoringRules;
+  constraints: DraftConstraint[]; // draft rules edited in Setup
+  ratingSpread: number | null; // rating balance for the draft, null = off
+  games: GameDefinition[]; // game catalog the match order follows, in play order
+  schedule: EventSchedule | null; // match order spread over stations and times
+  bracket: Bracket | null; // knockout finale between teams
+  raffleWinners: string[];
+  lottery: LotteryCheckpoint | null;
+}
+
+interface StoredSession {
+  version: number;
+  savedAt: string;
+  data: SessionData;
+}
+
+type LegacySession = Partial<Record<keyof typeof LEGACY_KEYS, string | null>>;
+
+export interface SessionIssue {
+  reason: string;
+  backup: string; // raw stored data, offered as a download
+}
+
+export interface SessionLoadResult {
+  data: SessionData;
+  issue: SessionIssue | null;
+}
+
+export const createEmptySession = (): SessionData => ({
+  appState: null,
+  players: [],
+  palette: null,
+  teams: null,
+  matchups: [],
+  draw: null,
+  scoreHistory: [],
+  scoreRedo: [],
+  scorekeeper: '',
+  gameResults: [],
+  scoringRules: DEFAULT_SCORING_RULES,
+  constraints: [],
+  ratingSpread: null,
+  games: [],
+  schedule: null,
+  bracket: null,
+  raffleWinners: [],
+  lottery: null
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isArray = (value: unknown) => Array.isArray(value);
+const orNull = (check: (value: unknown) => boolean) => (value: unknown) => value === null || check(value);
+
+// Shape check for every stored field. A field that is missing or of the wrong kind gets its
+// default from createEmptySession; the contents are checked where App restores them.
+const SESSION_FIELDS: { [K in keyof SessionData]: (value: unknown) => boolean } = {
+  appState: orNull(isString),
+  players: isArray,
+  palette: orNull(isArray),
+  teams: orNull(isArray),
+  matchups: isArray,
+  draw: orNull(isObject),
+  scoreHistory: isArray,
+  scoreRedo: isArray,
+  scorekeeper: isString,
+  gameResults: isArray,
+  scoringRules: isObject,
+  constraints: isArray,
+  ratingSpread: orNull(value => typeof value === 'number' && Number.isFinite(value)),
+  games: isArray,
+  schedule: orNull(isObject),
+  bracket: orNull(isObject),
+  raffleWinners: isArray,
+  lottery: orNull(isObject)
+};
+
+const sanitizeSession = (raw: unknown): SessionData => {
+  const data = createEmptySession();
+  if (!isObject(raw)) return data;
+  (Object.keys(SESSION_FIELDS) as (keyof SessionData)[]).forEach(key => {
+    if (key in raw && SESSION_FIELDS[key](raw[key])) Object.assign(data, { [key]: raw[key] });
+  });
+  return data;
+};
+
+// MIGRATIONS[n] upgrades data stored at version n to version n + 1; the result is sanitized after
+// the last step, so a migration only has to move data that changed shape
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v1: the per-key layout moves into the session store
+  0: (data: unknown) => {
+    const legacy: LegacySession = isObject(data) ? data : {};
+    const parse = (key: keyof typeof LEGACY_KEYS): unknown => {
+      const raw = legacy[key];
+      return raw ? JSON.parse(raw) : null;
+    };
+    return {
+      appState: legacy.appState ?? null,
+      teams: parse('teams'),
+      matchups: parse('matchups'),
+      draw: parse('draw'),
+      palette: parse('palette'),
+      raffleWinners: parse('raffleWinners')
+    };
+  }
+};
+
+const readLegacySession = (): LegacySession | null => {
+  const entries = Object.entries(LEGACY_KEYS).map(([field, key]) => [field, localStorage.getItem(key)] as const);
+  if (entries.every(([, value]) => value === null)) return null;
+  return Object.fromEntries(entries);
+};
+
+const clearLegacySession = () => {
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+const migrate = (version: number, data: unknown): SessionData => {
+  if (version > SESSION_VERSION) {
+    throw new Error(`Saved session is from a newer version (v${version}) of the app.`);
+  }
+  let current = data;
+  for (let v = version; v < SESSION_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from session v${v}.`);
+    current = step(current);
+  }
+  return sanitizeSession(current);
+};
+
+// Version and data of a stored session; a session without a version predates versioning
+const parseStoredSession = (raw: string): { version: number; data: unknown } => {
+  const stored: unknown = JSON.parse(raw);
+  if (!isObject(stored)) throw new Error('Saved session is not an object.');
+  return { version: typeof stored.version === 'number' ? stored.version : 0, data: stored.data };
+};
+
+const writeSession = (data: SessionData) => {
+  const stored: StoredSession = { version: SESSION_VERSION, savedAt: new Date().toISOString(), data };
+  localStorage.setItem(LOCAL_STORAGE_SESSION, JSON.stringify(stored));
+};
+
+const readStoredSession = (): SessionData => {
+  try {
+    const raw = localStorage.getItem(LOCAL_STORAGE_SESSION);
+    if (!raw) return createEmptySession();
+    const stored = parseStoredSession(raw);
+    return stored.version === SESSION_VERSION ? sanitizeSession(stored.data) : createEmptySession();
+  } catch {
+    return createEmptySession();
+  }
+};
+
+// A backup left by an earlier failed load stays on offer until it is downloaded or discarded
+const previousIssue = (): SessionIssue | null => {
+  const backup = localStorage.getItem(LOCAL_STORAGE_SESSION_BACKUP);
+  return backup ? { reason: 'A previous session could not be restored.', backup } : null;
+};
+
+// Run once on startup: upgrades whatever is stored to the current version and saves it back.
+export const loadSession = (): SessionLoadResult => {
+  if (typeof window === 'undefined') return { data: createEmptySession(), issue: null };
+
+  const raw = localStorage.getItem(LOCAL_STORAGE_SESSION);
+  const legacy = raw ? null : readLegacySession();
+  if (!raw && !legacy) return { data: createEmptySession(), issue: previousIssue() };
+
+  const backupRaw = raw ?? JSON.stringify({ version: 0, data: legacy });
+  try {
+    let data: SessionData;
+    if (raw) {
+      const stored = parseStoredSession(raw);
+      data = migrate(stored.version, stored.data);
+    } else {
+      data = migrate(0, legacy);
+    }
+    writeSession(data);
+    if (legacy) clearLegacySession();
+    return { data, issue: previousIssue() };
+  } catch (error) {
+    // Keep the unreadable data aside; the app starts fresh and offers it as a download
+    localStorage.setItem(LOCAL_STORAGE_SESSION_BACKUP, backupRaw);
+    localStorage.removeItem(LOCAL_STORAGE_SESSION);
+    if (legacy) clearLegacySession();
+    console.error('Failed to restore saved session', error);
+    return {
+      data: createEmptySession(),
+      issue: { reason: error instanceof Error ? error.message : String(error), backup: backupRaw }
+    };
+  }
+};
+
+// Saved rosters are hand-editable JSON; drop anything that is not a usable player and repeated ids
+export const restoreRoster = (raw: unknown): Player[] => {
+  if (!Array.isArray(raw)) return [];
+  const genders = Object.values(Gender) as string[];
+  const seen = new Set<string>();
+  return raw.flatMap((item: unknown): Player[] => {
+    if (!isObject(item)) return [];
+    const entry = item as Partial<Record<keyof Player, unknown>>;
+    if (typeof entry.id !== 'string' || typeof entry.name !== 'string' || !entry.name.trim()) return [];
+    if (seen.has(entry.id)) return [];
+    seen.add(entry.id);
+    const { rating, department } = entry;
+    // Only known fields are carried over; anything else in the JSON is dropped
+    return [{
+      id: entry.id,
+      name: entry.name,
+      gender: typeof entry.gender === 'string' && genders.includes(entry.gender) ? entry.gender as Gender : Gender.NonBinary,
+      score: typeof entry.score === 'number' && Number.isFinite(entry.score) ? entry.score : 0,
+      noGenderRestriction: entry.noGenderRestriction === true,
+      isHelper: entry.isHelper === true,
+      ...(typeof rating === 'number' && Number.isFinite(rating) ? { rating } : {}),
+      ...(typeof department === 'string' && department.trim() ? { department: department.trim() } : {}),
+      ...(entry.absent === true ? { absent: true } : {})
+    }];
+  });
+};
+
+export const getSession = (): SessionData => readStoredSession();
+
+export const updateSession = (patch: Partial<SessionData>) => {
+  writeSession({ ...readStoredSession(), ...patch });
+};
+
+export const discardSessionBackup = () => {
+  localStorage.removeItem(LOCAL_STORAGE_SESSION_BACKUP);
+};
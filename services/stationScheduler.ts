@@ -0,0 +1,110 @@
+import { EventSchedule, GameDefinition, Matchup, ScheduledGame } from '../types';
+import { getGame } from './gameCatalog';
+
+// Spreads the match order over several stations running side by side. Each station takes the
+// next game whose players are all free and rested when it opens up, so the list order is kept
+// where it can be and a station only waits when nobody left is ready yet.
+
+export interface ScheduleSettings {
+  stations: number;
+  startsAt: string;
+  restMinutes: number;
+  defaultMinutes: number;
+}
+
+const MINUTE = 60_000;
+
+const playerIds = (matchup: Matchup): string[] =>
+  matchup.players.flatMap(p => p.player ? [p.player.id] : []);
+
+export const getGameMinutes = (matchup: Matchup, games: GameDefinition[], defaultMinutes: number): number =>
+  getGame(games, matchup.gameId)?.durationMinutes || defaultMinutes;
+
+// Changes whenever rows are added, removed, reordered or re-seated, or a row's game or its
+// length changes
+export const getScheduleBasis = (matchups: Matchup[], games: GameDefinition[], defaultMinutes: number): string =>
+  matchups.map(m => `${m.id}:${m.gameId ?? ''}:${getGameMinutes(m, games, defaultMinutes)}:${playerIds(m).join(',')}`).join('|');
+
+export const buildSchedule = (matchups: Matchup[], games: GameDefinition[], settings: ScheduleSettings): EventSchedule => {
+  const stations = Math.max(1, Math.round(settings.stations));
+  const restMinutes = Math.max(0, settings.restMinutes);
+  const defaultMinutes = Math.max(1, settings.defaultMinutes);
+  const origin = new Date(settings.startsAt).getTime();
+
+  // Times are minutes from the start until the end, where they become clock times
+  const stationFree: number[] = Array(stations).fill(0);
+  const playerReady = new Map<string, number>();
+  const readyAt = (matchup: Matchup) => Math.max(0, ...playerIds(matchup).map(id => playerReady.get(id) ?? 0));
+
+  const remaining = matchups.filter(m => playerIds(m).length > 0);
+  const slots: ScheduledGame[] = [];
+
+  while (remaining.length > 0) {
+    const station = stationFree.indexOf(Math.min(...stationFree));
+    const opensAt = stationFree[station];
+    let index = remaining.findIndex(m => readyAt(m) <= opensAt);
+    if (index < 0) {
+      index = remaining.reduce((best, m, i) => readyAt(m) < readyAt(remaining[best]) ? i : best, 0);
+    }
+    const [matchup] = remaining.splice(index, 1);
+    const start = Math.max(opensAt, readyAt(matchup));
+    const end = start + getGameMinutes(matchup, games, defaultMinutes);
+
+    stationFree[station] = end;
+    playerIds(matchup).forEach(id => playerReady.set(id, end + restMinutes));
+    slots.push({
+      matchupId: matchup.id,
+      station,
+      start: new Date(origin + start * MINUTE).toISOString(),
+      end: new Date(origin + end * MINUTE).toISOString()
+    });
+  }
+
+  return {
+    stations,
+    startsAt: new Date(origin).toISOString(),
+    restMinutes,
+    defaultMinutes,
+    slots: slots.sort((a, b) => a.start.localeCompare(b.start) || a.station - b.station),
+    basis: getScheduleBasis(matchups, games, defaultMinutes)
+  };
+};
+
+export interface StationStatus {
+  station: number;
+  current: ScheduledGame | null;
+  next: ScheduledGame | null;
+}
+
+// What each station is playing at `now` and what it plays after that
+export const getStationStatus = (schedule: EventSchedule, now: number): StationStatus[] =>
+  Array.from({ length: schedule.stations }, (_, station) => {
+    const own = schedule.slots.filter(s => s.station === station);
+    const current = own.find(s => new Date(s.start).getTime() <= now && now < new Date(s.end).getTime()) ?? null;
+    const next = own.find(s => new Date(s.start).getTime() > now) ?? null;
+    return { station, current, next };
+  });
+
+const isDateTime = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+// Saved sessions are hand-editable JSON
+export const sanitizeSchedule = (raw: unknown): EventSchedule | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Partial<Record<keyof EventSchedule, unknown>>;
+  if (!Array.isArray(data.slots) || !isDateTime(data.startsAt)) return null;
+  const slots = data.slots.flatMap((item: unknown): ScheduledGame[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const slot = item as Partial<Record<keyof ScheduledGame, unknown>>;
+    if (typeof slot.matchupId !== 'number' || typeof slot.station !== 'number' || !isDateTime(slot.start) || !isDateTime(slot.end)) return [];
+    return [{ matchupId: slot.matchupId, station: slot.station, start: slot.start, end: slot.end }];
+  });
+  return {
+    stations: Math.max(1, Math.round(Number(data.stations) || 1)),
+    startsAt: data.startsAt,
+    restMinutes: Math.max(0, Number(data.restMinutes) || 0),
+    defaultMinutes: Math.max(1, Number(data.defaultMinutes) || 10),
+    slots,
+    basis: typeof data.basis === 'string' ? data.basis : ''
+  };
+};
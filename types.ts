@@ -12,21 +12,36 @@ export interface Player {
   score: number;
   noGenderRestriction?: boolean; // "0" marker - can go to either male or female games
   isHelper?: boolean; // "H" marker - helper role prioritized for select games
+  rating?: number; // optional skill / seniority rating, higher is stronger
+  department?: string; // department or office; the draft spreads each one across teams
+  absent?: boolean; // left after the lottery; keeps their points but plays no further games
 }
 
-export enum TeamColor {
-  Red = 'Red',
-  Blue = 'Blue',
-  Green = 'Green',
-  Yellow = 'Yellow',
-  Pink = 'Pink',
-  Purple = 'Purple'
+// Names pulled out of free text by a roster parser, before review
+export interface ParsedPlayer {
+  name: string;
+  gender: Gender;
+  genderStated?: boolean; // false when the parser had to fall back to NB
+}
+
+export interface ParsedPlayerResponse {
+  players: ParsedPlayer[];
+}
+
+// Teams are keyed by their name (e.g. 'Red'); the team list is configured in Setup.
+export type TeamColor = string;
+
+export interface TeamConfig {
+  color: TeamColor; // team name
+  hex: string;
+  bg: string; // Tailwind background class
 }
 
 export interface Team {
   color: TeamColor;
   members: Player[];
   hex: string;
+  bg: string;
   score: number;
 }
 
@@ -45,6 +60,143 @@ export interface MatchupPlayer {
 }
 
 export interface Matchup {
-  id: number;
+  id: number; // given once when the order is generated and kept when rows move; game results point at it
   players: MatchupPlayer[];
+  gameId?: string; // GameDefinition played in this row, when the event has a game catalog
+  round?: number; // 1-based, set when the match order was generated in several rounds
+}
+
+// Who a catalog game is for; mixed games take players of any gender
+export type GameDivision = 'male' | 'female' | 'mixed';
+
+// One game in the event's catalog. A game with N players per team fills N Matchup rows in a row,
+// one player per team each.
+export interface GameDefinition {
+  id: string;
+  name: string;
+  description: string;
+  division: GameDivision;
+  playersPerTeam: number;
+  durationMinutes: number;
+  scoring: 'rank' | 'points'; // how results are entered, as in GameResult.mode
+}
+
+// Published seed and the draw counters needed to replay the lottery, matchups and raffle.
+export interface DrawRecord {
+  seed: string;
+  mode: 'live' | 'replay';
+  matchupRerolls: number;
+  raffleDraws: number;
+  constraints?: DraftConstraint[]; // rules the draft followed; a replay needs them too
+  ratingSpread?: number | null; // rating balance the draft used, if any
+  balancePlayTime?: boolean; // short teams repeat players so every team fills every row
+  rounds?: number; // passes through the roster the match order was generated with
+}
+
+// Match order options a replay needs to rebuild the same rows
+export type MatchOrderSettings = Pick<DrawRecord, 'balancePlayTime' | 'rounds'>;
+
+// Host rules for the lottery draft. Hard rules win over the gender balance;
+// soft rules are only followed when the balance allows. Pins are always hard.
+export type DraftConstraintKind = 'apart' | 'together' | 'pin';
+
+export interface DraftConstraint {
+  id: string;
+  kind: DraftConstraintKind;
+  playerIds: string[]; // apart / together: two or more players; pin: the pinned players
+  team?: TeamColor; // pin only
+  hard: boolean;
+}
+
+// One Matchup row placed at a station and a time by the event scheduler
+export interface ScheduledGame {
+  matchupId: number;
+  station: number; // 0-based
+  start: string; // ISO date-time
+  end: string;
+}
+
+// Matchup rows spread over several stations that run at the same time
+export interface EventSchedule {
+  stations: number;
+  startsAt: string; // ISO date-time of the first game
+  restMinutes: number; // least time between two games of the same player
+  defaultMinutes: number; // length of games without a catalog duration
+  slots: ScheduledGame[];
+  basis: string; // fingerprint of the match order it was built from
+}
+
+// Knockout finale between whole teams
+export type BracketFormat = 'single' | 'double';
+
+// Where a bracket slot's team comes from: a seed, or the winner or loser of an earlier match
+export type BracketSource =
+  | { seed: number } // 0-based index into Bracket.seeds
+  | { matchId: string; take: 'winner' | 'loser' };
+
+export interface BracketMatch {
+  id: string; // e.g. "W1-2" (winners round 1, match 2), "L3-1", "GF-1"
+  side: 'winners' | 'losers' | 'final';
+  round: number; // 1-based within its side
+  sources: [BracketSource, BracketSource];
+  winner: TeamColor | null; // as entered by the host
+}
+
+export interface Bracket {
+  format: BracketFormat;
+  seeds: TeamColor[]; // best first, from the Scoreboard ranking when the bracket was made
+  matches: BracketMatch[]; // every source points at an earlier match
+  createdAt: string;
+}
+
+// One score change as entered on the scoreboard; totals are replayed from these
+export interface ScoreEvent {
+  id: string;
+  teamColor: TeamColor;
+  playerId: string | null; // null for a team-only adjustment
+  delta: number;
+  gameNumber: number | null; // Matchup row the points were scored in, if known
+  author: string; // scorekeeper who entered it
+  timestamp: string;
+  reason?: string; // bonus or penalty preset it came from
+}
+
+// Lottery progress saved after each confirmed team so a reload can resume the draw
+export interface LotteryCheckpoint {
+  seed: string;
+  teams: Team[]; // teams with members have already been revealed
+  savedAt: string;
+}
+
+// One player's result in one Matchup row
+export interface GameEntry {
+  color: TeamColor;
+  playerId: string;
+  rank: number | null; // 1 = winner; used when the game was recorded by placement
+  points: number | null; // used when the game was recorded as raw points
+}
+
+export interface GameResult {
+  matchupId: number;
+  mode: 'rank' | 'points';
+  entries: GameEntry[];
+  author: string;
+  recordedAt: string;
+}
+
+// Preset bonus (positive) or penalty (negative) a scorekeeper can award in one tap
+export interface ScoringPreset {
+  id: string;
+  label: string;
+  points: number;
+}
+
+export type TeamRanking = 'total' | 'average' | 'bestN';
+
+export interface ScoringRules {
+  placementPoints: number[]; // index 0 = 1st place; empty = one point per player beaten, plus one
+  gameMultipliers: Record<number, number>; // stable Matchup id -> factor on that game's result points
+  presets: ScoringPreset[];
+  ranking: TeamRanking;
+  bestN: number; // members counted when ranking by best-N
 }
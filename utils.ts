@@ -1,4 +1,39 @@
-import { Team } from './types';
+import { Team, TeamColor, TeamConfig } from './types';
+import { DEFAULT_TEAM_PALETTE, FALLBACK_TEAM_STYLE, MIN_TEAMS, MAX_TEAMS } from './constants';
+
+export const createTeams = (palette: TeamConfig[]): Team[] =>
+  palette.map(({ color, hex, bg }) => ({ color, members: [], hex, bg, score: 0 }));
+
+// Teams are TeamConfigs too, so this works for both the Setup palette and live teams
+export const getTeamConfigMap = (configs: TeamConfig[]): Record<TeamColor, TeamConfig> =>
+  configs.reduce((acc, config) => {
+    acc[config.color] = config;
+    return acc;
+  }, {} as Record<TeamColor, TeamConfig>);
+
+// Saved or imported teams may predate the configurable palette and lack a Tailwind class
+export const withTeamStyles = (teams: Team[]): Team[] => {
+  const defaults = getTeamConfigMap(DEFAULT_TEAM_PALETTE);
+  return teams.map(team => ({
+    ...team,
+    hex: team.hex || defaults[team.color]?.hex || FALLBACK_TEAM_STYLE.hex,
+    bg: team.bg || defaults[team.color]?.bg || FALLBACK_TEAM_STYLE.bg
+  }));
+};
+
+export const paletteFromTeams = (teams: Team[]): TeamConfig[] =>
+  withTeamStyles(teams).map(({ color, hex, bg }) => ({ color, hex, bg }));
+
+export const validatePalette = (palette: TeamConfig[]): string | null => {
+  if (palette.length < MIN_TEAMS || palette.length > MAX_TEAMS) {
+    return `Choose between ${MIN_TEAMS} and ${MAX_TEAMS} teams.`;
+  }
+  const names = palette.map(t => t.color.trim().toLowerCase());
+  if (names.some(name => !name)) return 'Every team needs a name.';
+  if (new Set(names).size !== names.length) return 'Team names must be unique.';
+  if (palette.some(t => !/^#[0-9a-f]{6}$/i.test(t.hex))) return 'Team colors must be 6-digit hex values like #ef4444.';
+  return null;
+};
 
 export const getAverageScore = (team: Team): number => {
   const memberCount = team.members?.length ?? 0;